@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { LEAD_FIELDS, MAPPING_PRESETS, sanitizeColumnMapping } from '@/lib/lead-schema'
+import { deleteColumnMapping, listColumnMappings, saveColumnMapping } from '@/lib/column-mappings'
+
+function errorResponse(err: unknown, failurePrefix: string) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  console.error('Column mappings error:', err)
+  const { error, status } = getSupabaseErrorResponse(msg, failurePrefix)
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Saved column mappings plus the lead fields and built-in export presets (Apollo, Sales Navigator, HubSpot).
+ * Returns { mappings, fields, presets }.
+ */
+export async function GET() {
+  try {
+    await ensureLeadsTable()
+    const mappings = await listColumnMappings(getSupabase())
+    return NextResponse.json({ mappings, fields: LEAD_FIELDS, presets: MAPPING_PRESETS })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to load column mappings')
+  }
+}
+
+/**
+ * Save a mapping (replaces an existing one with the same name).
+ * POST body: JSON { name: string, mapping: { [leadField]: csvColumn } }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const mapping = sanitizeColumnMapping(body.mapping)
+    if (!name) {
+      return NextResponse.json({ error: 'name is required.' }, { status: 400 })
+    }
+    if (!mapping || Object.keys(mapping).length === 0) {
+      return NextResponse.json(
+        { error: `mapping must map at least one lead field (${Object.keys(LEAD_FIELDS).join(', ')}) to a CSV column.` },
+        { status: 400 }
+      )
+    }
+    await ensureLeadsTable()
+    const saved = await saveColumnMapping(getSupabase(), name, mapping)
+    return NextResponse.json({ mapping: saved })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to save column mapping')
+  }
+}
+
+/**
+ * Delete a saved mapping. Query: ?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Query parameter id is required.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    await deleteColumnMapping(getSupabase(), id)
+    return NextResponse.json({ deleted: id })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to delete column mapping')
+  }
+}
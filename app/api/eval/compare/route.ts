@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadEvalSet } from '@/lib/eval-set'
+import { getEvalLeadEmbeddings } from '@/lib/eval-embeddings-db'
+import { getEmbeddingProviderErrorResponse } from '@/lib/embedding-providers'
+import { getSupabase } from '@/lib/supabase'
+import { resolveScoringProfile, type ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import { resolvePersona } from '@/lib/personas'
+import { compareProfilesOnEvalSet, MAX_BOOTSTRAP_SAMPLES, type EvalCandidate } from '@/lib/eval-comparison'
+
+const MAX_CANDIDATES = 6
+
+/**
+ * POST /api/eval/compare
+ * Body: { profiles: { label?: string, characteristics?: string, personaId?: string, personaVersion?: number }[]
+ * (2–6; a persona version is used when given, see lib/personas.ts), scoringProfileId?: string,
+ * scoring?: {...}, bootstrapSamples?: number (100–10000, default 1000) }
+ * Evaluates every profile on the evaluation set with the same scoring profile, without an LLM (see
+ * lib/eval-comparison.ts). The first profile is the baseline.
+ * Returns { candidates: [{ label, characteristics, metrics, intervals, vsBaseline? }], leads, bootstrapSamples,
+ * confidence, scoringProfile }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const profiles: unknown[] = Array.isArray(body.profiles) ? body.profiles : []
+    if (profiles.length < 2 || profiles.length > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `profiles must be a list of 2 to ${MAX_CANDIDATES} profiles to compare.` },
+        { status: 400 }
+      )
+    }
+    const bootstrapSamples = body.bootstrapSamples ?? undefined
+    if (
+      bootstrapSamples !== undefined &&
+      (!Number.isInteger(bootstrapSamples) || bootstrapSamples < 100 || bootstrapSamples > MAX_BOOTSTRAP_SAMPLES)
+    ) {
+      return NextResponse.json(
+        { error: `bootstrapSamples must be an integer from 100 to ${MAX_BOOTSTRAP_SAMPLES}.` },
+        { status: 400 }
+      )
+    }
+
+    const candidates: EvalCandidate[] = []
+    for (let i = 0; i < profiles.length; i++) {
+      const value = profiles[i]
+      const profile = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+      const text = typeof profile.characteristics === 'string' ? profile.characteristics.trim() : ''
+      let persona
+      try {
+        persona = await resolvePersona(profile.personaId, profile.personaVersion, text, getSupabase)
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+        return NextResponse.json({ error: msg }, { status: msg.includes('not found') ? 404 : 500 })
+      }
+      const characteristics = persona?.characteristics ?? text
+      if (!characteristics.trim()) {
+        return NextResponse.json(
+          { error: `Profile ${i + 1} is empty. Give each profile characteristics or a personaId.` },
+          { status: 400 }
+        )
+      }
+      const label = typeof profile.label === 'string' && profile.label.trim()
+        ? profile.label.trim()
+        : persona
+          ? `${persona.name} v${persona.version}${persona.modified ? ' (edited)' : ''}`
+          : `Profile ${String.fromCharCode(65 + i)}`
+      candidates.push({ label, characteristics })
+    }
+
+    let scoring: ResolvedScoringProfile
+    try {
+      scoring = await resolveScoringProfile(body.scoringProfileId, body.scoring, getSupabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: msg.includes('not found') ? 404 : 400 })
+    }
+
+    const evalLeads = await loadEvalSet()
+    if (evalLeads.length < 5) {
+      return NextResponse.json(
+        { error: 'Evaluation set has too few ranked leads. Need at least 5.' },
+        { status: 400 }
+      )
+    }
+
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    const leadEmbeddings = await getEvalLeadEmbeddings(evalLeads)
+    const comparison = await compareProfilesOnEvalSet({
+      candidates,
+      evalLeads,
+      leadEmbeddings,
+      weights: scoring.profile,
+      bootstrapSamples,
+    })
+    return NextResponse.json({ ...comparison, scoringProfile: scoring })
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    if (msg.includes('ENOENT') || msg.includes('eval_set')) {
+      return NextResponse.json(
+        { error: 'Evaluation set file not found. Ensure data/eval/eval_set.csv exists.' },
+        { status: 404 }
+      )
+    }
+    if (msg.includes('Supabase is not configured')) {
+      return NextResponse.json({ error: msg }, { status: 503 })
+    }
+    console.error('Eval comparison error:', err)
+    return NextResponse.json({ error: msg || 'Evaluation failed.' }, { status: 500 })
+  }
+}
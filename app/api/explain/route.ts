@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ensureLeadsTable } from '@/lib/db-migrate'
+import { explainLeads, getExplanationProvider, type ExplanationInput } from '@/lib/lead-explanations'
+import type { ScoreBreakdown } from '@/lib/scoring'
+
+/** Most leads explained per request (one LLM call each unless cached). */
+const MAX_LEADS = 10
+
+function toInput(value: unknown): ExplanationInput | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  if (!raw.lead || typeof raw.lead !== 'object' || Array.isArray(raw.lead)) return null
+  return {
+    lead: raw.lead as Record<string, string>,
+    score: typeof raw.score === 'number' ? raw.score : undefined,
+    breakdown: raw.breakdown && typeof raw.breakdown === 'object' ? (raw.breakdown as ScoreBreakdown) : undefined,
+  }
+}
+
+/**
+ * POST /api/explain
+ * Body: { characteristics: string (required), leads: [{ lead, score?, breakdown? }] } — one lead or
+ * the top N (at most 10) as returned by /api/rank or /api/rank/db.
+ * Explains why each lead matches the profile with the prompt-optimization LLM (Gemini, Groq or
+ * Anthropic), or a local template without an LLM (AI_PROVIDER=local or no key; see lib/lead-explanations.ts).
+ * Explanations are cached per lead, profile and score breakdown. Returns { explanations: [{ explanation?, cached, error? }], provider }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const characteristics = typeof body.characteristics === 'string' ? body.characteristics.trim() : ''
+    if (!characteristics) {
+      return NextResponse.json(
+        { error: 'Please provide characteristics (persona spec) in the request body.' },
+        { status: 400 }
+      )
+    }
+    const inputs = Array.isArray(body.leads) ? body.leads.map(toInput) : []
+    if (inputs.length === 0 || inputs.some((input: ExplanationInput | null) => input === null)) {
+      return NextResponse.json(
+        { error: 'leads must be a non-empty array of { lead, score?, breakdown? } objects.' },
+        { status: 400 }
+      )
+    }
+    if (inputs.length > MAX_LEADS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_LEADS} leads can be explained per request.` },
+        { status: 400 }
+      )
+    }
+
+    // Creates the explanations cache table when DATABASE_URL is set; explanations work without it.
+    await ensureLeadsTable().catch((e) => console.warn('Explanations cache table not ensured:', e))
+    const provider = getExplanationProvider()
+    const explanations = await explainLeads(characteristics, inputs as ExplanationInput[], provider)
+    return NextResponse.json({ explanations, provider })
+  } catch (err) {
+    console.error('Explain error:', err)
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (err instanceof Error ? err.message : 'Unknown') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { sanitizeLeadTextTemplate } from '@/lib/lead-text'
+import {
+  DEFAULT_RESOLVED_TEMPLATE,
+  deleteLeadTextTemplate,
+  listLeadTextTemplates,
+  saveLeadTextTemplate,
+} from '@/lib/lead-text-templates'
+
+function errorResponse(err: unknown, failurePrefix: string) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  console.error('Lead text templates error:', err)
+  const { error, status } = getSupabaseErrorResponse(msg, failurePrefix)
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Saved lead text templates plus the built-in default. Returns { templates, defaultTemplate }.
+ */
+export async function GET() {
+  try {
+    await ensureLeadsTable()
+    const templates = await listLeadTextTemplates(getSupabase())
+    return NextResponse.json({ templates, defaultTemplate: DEFAULT_RESOLVED_TEMPLATE })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to load lead text templates')
+  }
+}
+
+/**
+ * Save a template (replaces an existing one with the same name; editing changes its version, so
+ * leads embedded with the old layout show up as stale until re-embedded).
+ * POST body: JSON { name: string, template: { fields: [{ field, label, weight? }], includeExtra,
+ * excludeColumns?, skipNoisyExtras?, prefix? } }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const template = sanitizeLeadTextTemplate(body.template)
+    if (!name) {
+      return NextResponse.json({ error: 'name is required.' }, { status: 400 })
+    }
+    if (!template) {
+      return NextResponse.json(
+        { error: 'template must have a fields array (e.g. [{ "field": "title", "label": "Role" }]) or includeExtra: true.' },
+        { status: 400 }
+      )
+    }
+    await ensureLeadsTable()
+    const saved = await saveLeadTextTemplate(getSupabase(), name, template)
+    return NextResponse.json({ template: saved })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to save lead text template')
+  }
+}
+
+/**
+ * Delete a saved template. Query: ?id=
+ * Leads embedded with it keep their embeddings; re-embed them with another template to rank them.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Query parameter id is required.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    await deleteLeadTextTemplate(getSupabase(), id)
+    return NextResponse.json({ deleted: id })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to delete lead text template')
+  }
+}
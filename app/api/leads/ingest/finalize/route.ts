@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import {
+  isValidImportId,
+  getLeadImport,
+  getMissingChunks,
+  summarizeImport,
+  formatIngestSummary,
+  clearLeadsOutsideImport,
+  markImportCompleted,
+  releaseImportLeads,
+} from '@/lib/lead-imports'
+
+/**
+ * Completes a chunked import (see POST /api/leads/ingest).
+ * POST body: JSON { importId: string, clear?: boolean }.
+ * Fails with 409 and { missingChunks } if any chunk is not stored yet (re-send those chunks, then retry).
+ * Otherwise the import's leads become rankable (they are stored with import_pending until now).
+ * With clear=true, deletes every lead that is not part of this import — only now that the whole
+ * import succeeded, so a failed upload never leaves you with an empty lead table.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const body = await request.json().catch(() => ({}))
+    const importId = body.importId
+    const clear = body.clear === true
+
+    if (!isValidImportId(importId)) {
+      return NextResponse.json({ error: 'importId (uuid) is required.' }, { status: 400 })
+    }
+    const leadImport = await getLeadImport(supabase, importId)
+    if (!leadImport) {
+      return NextResponse.json({ error: `Import ${importId} not found. Upload at least one chunk first.` }, { status: 404 })
+    }
+    const missingChunks = getMissingChunks(leadImport)
+    if (missingChunks.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Import is incomplete: ${missingChunks.length} of ${leadImport.chunk_count} chunks missing. Re-send them and finalize again.`,
+          missingChunks,
+        },
+        { status: 409 }
+      )
+    }
+
+    await releaseImportLeads(supabase, importId)
+    const cleared = clear ? await clearLeadsOutsideImport(supabase, importId) : 0
+    await markImportCompleted(supabase, importId)
+    const summary = summarizeImport(leadImport)
+    return NextResponse.json({
+      importId,
+      ingested: summary.inserted + summary.updated,
+      ...summary,
+      chunkCount: leadImport.chunk_count,
+      cleared,
+      message: `${clear ? 'Cleared old leads. ' : ''}${formatIngestSummary(summary)}`,
+    })
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+      return NextResponse.json({ error: err.message }, { status: 503 })
+    }
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    console.error('Ingest finalize error:', err)
+    const { error, status } = getSupabaseErrorResponse(msg, 'Failed to finalize import')
+    return NextResponse.json({ error }, { status })
+  }
+}
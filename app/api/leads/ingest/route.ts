@@ -1,18 +1,54 @@
+import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import Papa from 'papaparse'
 import { getSupabase, LEADS_TABLE } from '@/lib/supabase'
-import { ensureLeadsTable, getTableMissingMessage } from '@/lib/db-migrate'
-import { leadToText, generateEmbeddingBatch } from '@/lib/embeddings'
+import { ensureLeadsTable, getTableMissingMessage, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { generateEmbeddingBatch } from '@/lib/embeddings'
+import { leadToText } from '@/lib/lead-text'
+import { getEmbeddingProviderErrorResponse, getActiveEmbeddingTag } from '@/lib/embedding-providers'
+import { embeddingTagColumns } from '@/lib/lead-embeddings'
+import { applyColumnMapping } from '@/lib/lead-schema'
+import { resolveColumnMapping, type ResolvedColumnMapping } from '@/lib/column-mappings'
+import { resolveLeadTextTemplate, type ResolvedLeadTextTemplate } from '@/lib/lead-text-templates'
+import {
+  isValidImportId,
+  deleteImportChunk,
+  recordImportChunk,
+  getLeadImport,
+  getMissingChunks,
+  summarizeImport,
+  formatIngestSummary,
+  clearLeadsOutsideImport,
+  planLeadUpsert,
+  touchUnchangedLeads,
+  type IngestSummary,
+} from '@/lib/lead-imports'
 
 const INGEST_EMBED_BATCH_SIZE = 32
-/** Max rows per request to avoid serverless timeouts (~60s on Vercel). Ingest in chunks if you have more. */
+/**
+ * Max rows per request to avoid serverless timeouts (~60s on Vercel). Larger CSVs are sent in
+ * chunks (the upload step in the app does this automatically).
+ */
 const INGEST_MAX_ROWS = 400
 
 /**
  * Ingest leads from CSV into the database and compute+store embeddings.
+ * Leads are upserted by lead_key (LinkedIn URL, email, or name+company+domain; see lib/lead-identity.ts):
+ * re-uploading a lead updates it, and unchanged leads are not re-embedded.
+ * Returns { inserted, updated, skipped, duplicates } (skipped = unchanged; duplicates = a lead repeated
+ * earlier in the upload, including in an earlier chunk of the same import).
+ * Columns are mapped to canonical lead fields (lib/lead-schema.ts) before storing: optional form
+ * field "mappingId" (saved mapping, see /api/column-mappings) or "mapping" (JSON), else auto-detected.
+ * Optional form field "templateId" renders the embedded text with a saved lead text template
+ * (see /api/lead-text-templates); embeddings are tagged with its version.
  * POST body: multipart/form-data with "csv" file.
- * Query: ?clear=1 to delete existing leads before inserting.
+ * Query: ?clear=1 to replace existing leads (old leads are deleted only after the new rows are stored).
  * Creates the leads table automatically if DATABASE_URL is set.
+ *
+ * Chunked import (for CSVs over INGEST_MAX_ROWS): also send form fields "importId" (uuid chosen by
+ * the client), "chunkIndex" (0-based) and "chunkCount", one request per chunk; re-sending a chunk
+ * replaces its rows. Then call POST /api/leads/ingest/finalize, which applies ?clear once every
+ * chunk is stored. Rows of a chunked import are not ranked until it is finalized (import_pending). GET ?importId= returns which chunks are stored (to resume an interrupted import).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,10 +57,21 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const csvFile = formData.get('csv') as File | null
     const clear = request.nextUrl.searchParams.get('clear') === '1'
+    const importIdField = formData.get('importId')
+    const chunked = importIdField !== null
+    const chunkIndex = parseInt(String(formData.get('chunkIndex') ?? '0'), 10)
+    const chunkCount = parseInt(String(formData.get('chunkCount') ?? '1'), 10)
 
     if (!csvFile) {
       return NextResponse.json({ error: 'CSV file not provided. Send as form field "csv".' }, { status: 400 })
     }
+    if (chunked && !isValidImportId(importIdField)) {
+      return NextResponse.json({ error: 'importId must be a UUID.' }, { status: 400 })
+    }
+    if (chunked && (Number.isNaN(chunkIndex) || Number.isNaN(chunkCount) || chunkIndex < 0 || chunkIndex >= chunkCount)) {
+      return NextResponse.json({ error: 'chunkIndex must be between 0 and chunkCount - 1.' }, { status: 400 })
+    }
+    const importId = chunked ? (importIdField as string) : randomUUID()
 
     const csvText = await csvFile.text()
     const parseResult = Papa.parse<Record<string, string>>(csvText, {
@@ -39,85 +86,82 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const rows = parseResult.data as Record<string, string>[]
+    let columnMapping: ResolvedColumnMapping
+    try {
+      columnMapping = await resolveColumnMapping(formData, parseResult.meta.fields ?? [], () => supabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      const { error, status } = getSupabaseErrorResponse(msg, 'Failed to load column mapping')
+      return NextResponse.json({ error }, { status: msg.includes('Column mapping') ? 400 : status })
+    }
+    const rows = (parseResult.data as Record<string, string>[]).map((row) => applyColumnMapping(row, columnMapping.mapping))
     if (rows.length === 0) {
       return NextResponse.json({ error: 'CSV contains no data rows' }, { status: 400 })
     }
     if (rows.length > INGEST_MAX_ROWS) {
       return NextResponse.json(
         {
-          error: `Too many rows (${rows.length}). Max ${INGEST_MAX_ROWS} per request to avoid timeouts. Split your CSV or send in multiple requests.`,
+          error: `Too many rows (${rows.length}). Max ${INGEST_MAX_ROWS} per request to avoid timeouts. Send the CSV in chunks (importId / chunkIndex / chunkCount, then POST /api/leads/ingest/finalize) — the upload in the app does this automatically.`,
         },
         { status: 400 }
       )
     }
 
-    const provider = (process.env.AI_PROVIDER || 'huggingface').toLowerCase()
-    const apiKey =
-      provider === 'gemini'
-        ? process.env.GEMINI_API_KEY
-        : provider === 'huggingface'
-          ? process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN
-          : process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'AI provider is required for ingest (embeddings). Set the appropriate API key in .env.local.' },
-        { status: 500 }
-      )
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    if (chunked) {
+      // Retrying a chunk replaces whatever a previous attempt stored.
+      await deleteImportChunk(supabase, importId, chunkIndex)
     }
 
-    if (clear) {
-      let delError: { message: string } | null = null
-      try {
-        const result = await supabase.from(LEADS_TABLE).delete().neq('id', '00000000-0000-0000-0000-000000000000')
-        delError = result.error
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e)
-        const tableMissing = getTableMissingMessage(msg)
-        return NextResponse.json(
-          { error: tableMissing ?? `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL and that the server can access the internet.` },
-          { status: 503 }
-        )
-      }
-      if (delError) {
-        const msg = delError.message
-        const tableMissing = getTableMissingMessage(msg)
-        if (tableMissing) {
-          return NextResponse.json({ error: tableMissing }, { status: 503 })
-        }
-        const isNetwork = /fetch failed|ECONNREFUSED|ETIMEDOUT|ENOTFOUND/i.test(msg)
-        return NextResponse.json(
-          {
-            error: isNetwork
-              ? `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL (https://xxx.supabase.co) and that the server can access the internet.`
-              : 'Failed to clear leads: ' + msg,
-          },
-          { status: isNetwork ? 503 : 500 }
-        )
-      }
+    let template: ResolvedLeadTextTemplate
+    try {
+      template = await resolveLeadTextTemplate(formData.get('templateId'), () => supabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      if (msg.includes('not found')) return NextResponse.json({ error: msg }, { status: 400 })
+      const { error, status } = getSupabaseErrorResponse(msg, 'Failed to load lead text template')
+      return NextResponse.json({ error }, { status })
+    }
+    const embeddingTag = getActiveEmbeddingTag(template.version)
+    const importChunk = chunked ? chunkIndex : 0
+    let plan: Awaited<ReturnType<typeof planLeadUpsert>>
+    try {
+      plan = await planLeadUpsert(supabase, rows, embeddingTag, importId, importChunk)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      const { error, status } = getSupabaseErrorResponse(msg, 'Failed to look up existing leads')
+      return NextResponse.json({ error }, { status })
     }
 
     const allEmbeddings: number[][] = []
-    for (let i = 0; i < rows.length; i += INGEST_EMBED_BATCH_SIZE) {
-      const batch = rows.slice(i, i + INGEST_EMBED_BATCH_SIZE)
-      const texts = batch.map((row) => leadToText(row))
+    for (let i = 0; i < plan.writes.length; i += INGEST_EMBED_BATCH_SIZE) {
+      const batch = plan.writes.slice(i, i + INGEST_EMBED_BATCH_SIZE)
+      const texts = batch.map((w) => leadToText(w.row, template.template))
       const embeddings = await generateEmbeddingBatch(texts)
       allEmbeddings.push(...embeddings)
     }
 
-    const inserts = rows.map((row, i) => ({
-      data: row,
+    const upserts = plan.writes.map((w, i) => ({
+      data: w.row,
+      lead_key: w.key,
       embedding: allEmbeddings[i] ?? null,
+      ...embeddingTagColumns(embeddingTag, allEmbeddings[i] ?? null),
+      import_id: importId,
+      import_chunk: importChunk,
+      import_pending: chunked,
     }))
 
-    let data: { id: string }[] | null = null
     let insertError: { message: string } | null = null
     try {
-      const result = await supabase.from(LEADS_TABLE).insert(inserts).select('id')
-      data = result.data
-      insertError = result.error
+      if (upserts.length > 0) {
+        const result = await supabase.from(LEADS_TABLE).upsert(upserts, { onConflict: 'lead_key' })
+        insertError = result.error
+      }
+      if (!insertError) await touchUnchangedLeads(supabase, plan.unchangedKeys, importId, importChunk)
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e)
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
       const tableMissing = getTableMissingMessage(msg)
       return NextResponse.json(
         { error: tableMissing ?? `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL and that the server can access the internet.` },
@@ -141,17 +185,64 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const inserted = plan.writes.filter((w) => !w.existing).length
+    const summary: IngestSummary = {
+      rows: rows.length,
+      inserted,
+      updated: plan.writes.length - inserted,
+      skipped: plan.unchangedKeys.length,
+      duplicates: plan.duplicates,
+    }
+    const ingested = summary.inserted + summary.updated
+    if (chunked) {
+      const leadImport = await recordImportChunk(supabase, importId, chunkIndex, chunkCount, summary)
+      return NextResponse.json({
+        importId,
+        chunkIndex,
+        chunkCount,
+        ingested,
+        ...summary,
+        totalRows: rows.length,
+        chunksStored: Object.keys(leadImport.chunks).length,
+        columnMapping,
+        leadTextTemplate: { id: template.id, name: template.name, version: template.version },
+        message: `Stored chunk ${chunkIndex + 1} of ${chunkCount}.`,
+        stats: { embeddingCalls: plan.writes.length },
+      })
+    }
+
+    // Replace existing leads only now that the new rows are safely stored.
+    let cleared = 0
+    if (clear) {
+      try {
+        cleared = await clearLeadsOutsideImport(supabase, importId)
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+        const { error, status } = getSupabaseErrorResponse(msg, 'Ingested new leads but failed to clear old ones')
+        return NextResponse.json({ error }, { status })
+      }
+    }
+
     return NextResponse.json({
-      ingested: data?.length ?? rows.length,
+      importId,
+      ingested,
+      ...summary,
       totalRows: rows.length,
-      message: clear ? 'Cleared and ingested leads with embeddings.' : 'Ingested leads with embeddings.',
-      stats: { embeddingCalls: rows.length },
+      cleared,
+      columnMapping,
+      leadTextTemplate: { id: template.id, name: template.name, version: template.version },
+      message: `${clear ? 'Cleared old leads. ' : ''}${formatIngestSummary(summary)}`,
+      stats: { embeddingCalls: plan.writes.length },
     })
   } catch (err: unknown) {
     if (err instanceof Error && err.message.includes('Supabase is not configured')) {
       return NextResponse.json({ error: err.message }, { status: 503 })
     }
-    const msg = err instanceof Error ? err.message : String(err)
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    const tableMissing = getTableMissingMessage(msg)
+    if (tableMissing) {
+      return NextResponse.json({ error: tableMissing }, { status: 503 })
+    }
     if (/timeout expired|ETIMEDOUT|ECONNRESET/i.test(msg)) {
       return NextResponse.json(
         {
@@ -168,3 +259,38 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+
+/**
+ * Progress of a chunked import. Query: ?importId=
+ * Returns { importId, chunkCount, chunksStored, missingChunks, rows, inserted, updated, skipped, duplicates, status }.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const importId = request.nextUrl.searchParams.get('importId')
+    if (!isValidImportId(importId)) {
+      return NextResponse.json({ error: 'Query parameter importId (uuid) is required.' }, { status: 400 })
+    }
+    const leadImport = await getLeadImport(supabase, importId)
+    if (!leadImport) {
+      return NextResponse.json({ error: `Import ${importId} not found.` }, { status: 404 })
+    }
+    return NextResponse.json({
+      importId,
+      chunkCount: leadImport.chunk_count,
+      chunksStored: Object.keys(leadImport.chunks).map(Number).sort((a, b) => a - b),
+      missingChunks: getMissingChunks(leadImport),
+      ...summarizeImport(leadImport),
+      status: leadImport.status,
+    })
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+      return NextResponse.json({ error: err.message }, { status: 503 })
+    }
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    const { error, status } = getSupabaseErrorResponse(msg, 'Failed to load import')
+    return NextResponse.json({ error }, { status })
+  }
+}
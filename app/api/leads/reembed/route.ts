@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getTableMissingMessage } from '@/lib/db-migrate'
+import { getEmbeddingProviderErrorResponse } from '@/lib/embedding-providers'
+import { getReembedJob, runReembedJob, startReembedJob, type ReembedJob } from '@/lib/lead-embeddings'
+import { resolveLeadTextTemplate, type ResolvedLeadTextTemplate } from '@/lib/lead-text-templates'
+
+/** Stop taking new batches after this long so the response returns before serverless timeouts (~60s on Vercel). */
+const REEMBED_TIME_BUDGET_MS = 40_000
+
+function jobResponse(job: ReembedJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    processed: job.processed,
+    total: job.total,
+    done: job.status === 'completed',
+    onlyStale: job.only_stale,
+    embeddingModel: { provider: job.embedding_provider, model: job.embedding_model },
+    leadTextTemplate: job.embedding_template ?? 'default',
+    error: job.error ?? undefined,
+  }
+}
+
+function errorResponse(err: unknown) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg =
+    err instanceof Error
+      ? err.message
+      : err && typeof err === 'object' && 'message' in err
+        ? String((err as { message: unknown }).message)
+        : String(err)
+  const tableMissing = getTableMissingMessage(msg)
+  if (tableMissing) {
+    return NextResponse.json({ error: tableMissing }, { status: 503 })
+  }
+  console.error('Re-embed error:', err)
+  return NextResponse.json({ error: 'Internal server error: ' + msg }, { status: 500 })
+}
+
+/**
+ * Re-embed existing leads with the active AI_PROVIDER/model (e.g. after switching models),
+ * without deleting them. Runs as a resumable job: each call works for up to ~40s, saving a
+ * cursor after every batch, and returns progress. Call again (same jobId, or no body) until done.
+ * POST body (JSON, optional): { jobId?: string, all?: boolean, templateId?: string } — all=true
+ * recomputes every lead, otherwise only leads whose embedding is missing or from another model or
+ * lead text template. templateId (see /api/lead-text-templates) re-renders leads with that template.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const body = await request.json().catch(() => ({}))
+    const jobId = typeof body.jobId === 'string' ? body.jobId : undefined
+    const onlyStale = body.all !== true
+
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    let template: ResolvedLeadTextTemplate
+    try {
+      template = await resolveLeadTextTemplate(body.templateId, () => supabase)
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('not found')) {
+        return NextResponse.json({ error: err.message }, { status: 404 })
+      }
+      throw err
+    }
+
+    const job = jobId ? await getReembedJob(supabase, jobId) : await startReembedJob(supabase, onlyStale, template)
+    if (!job) {
+      return NextResponse.json({ error: `Re-embed job ${jobId} not found.` }, { status: 404 })
+    }
+    const updated = await runReembedJob(supabase, job, REEMBED_TIME_BUDGET_MS)
+    return NextResponse.json(jobResponse(updated))
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
+
+/**
+ * Progress of a re-embed job. Query: ?jobId= (default: most recent job).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const jobId = request.nextUrl.searchParams.get('jobId') ?? undefined
+    const job = await getReembedJob(supabase, jobId)
+    if (!job) {
+      return NextResponse.json({ error: jobId ? `Re-embed job ${jobId} not found.` : 'No re-embed jobs yet.' }, { status: 404 })
+    }
+    return NextResponse.json(jobResponse(job))
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import {
+  PERSONA_VERSION_SOURCES,
+  deletePersona,
+  getPersona,
+  listPersonaVersions,
+  listPersonas,
+  savePersonaVersion,
+  type PersonaEvalMetrics,
+  type PersonaVersionSource,
+} from '@/lib/personas'
+import { countDiffChanges, diffLines } from '@/lib/text-diff'
+import { EVAL_OBJECTIVE_IDS } from '@/lib/eval-metrics'
+
+function errorResponse(err: unknown, failurePrefix: string) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  console.error('Personas error:', err)
+  const { error, status } = getSupabaseErrorResponse(msg, failurePrefix)
+  return NextResponse.json({ error }, { status })
+}
+
+function toEvalMetrics(value: unknown): PersonaEvalMetrics | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const metrics: PersonaEvalMetrics = {}
+  for (const id of EVAL_OBJECTIVE_IDS) {
+    const metric = raw[id]
+    if (id !== 'score' && typeof metric === 'number' && Number.isFinite(metric)) metrics[id] = metric
+  }
+  return Object.keys(metrics).length > 0 ? metrics : null
+}
+
+/**
+ * Saved personas. Without a query returns { personas }. With ?id= returns { persona, versions }
+ * (newest first); adding &from=<version>&to=<version> also returns
+ * { diff: { from, to, lines: [{ type: 'same' | 'added' | 'removed', text }], added, removed } }.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ personas: await listPersonas(supabase) })
+    }
+    const persona = await getPersona(supabase, id)
+    if (!persona) {
+      return NextResponse.json({ error: `Persona ${id} not found.` }, { status: 404 })
+    }
+    const versions = await listPersonaVersions(supabase, id)
+    const fromParam = request.nextUrl.searchParams.get('from')
+    const toParam = request.nextUrl.searchParams.get('to')
+    if (!fromParam && !toParam) {
+      return NextResponse.json({ persona, versions })
+    }
+    const from = versions.find((v) => String(v.version) === fromParam)
+    const to = versions.find((v) => String(v.version) === (toParam ?? String(persona.current_version)))
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Versions to compare not found (from=${fromParam ?? ''}, to=${toParam ?? persona.current_version}).` },
+        { status: 404 }
+      )
+    }
+    const lines = diffLines(from.characteristics, to.characteristics)
+    return NextResponse.json({
+      persona,
+      versions,
+      diff: { from: from.version, to: to.version, lines, ...countDiffChanges(lines) },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to load personas')
+  }
+}
+
+/**
+ * Save a profile as the next version of a persona (created when the name is new). Saving the same
+ * text again adds no version (created: false).
+ * POST body: JSON { name: string, characteristics: string, source?: 'manual' | 'optimizer',
+ * evalScore?: number, evalMetrics?: { recallAt5?, mrrTop3?, kendallTauB?, ndcgAt10?, … }, note?: string }.
+ * Returns { persona, version, created }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const characteristics = typeof body.characteristics === 'string' ? body.characteristics.trim() : ''
+    if (!name) {
+      return NextResponse.json({ error: 'name is required.' }, { status: 400 })
+    }
+    if (!characteristics) {
+      return NextResponse.json({ error: 'characteristics (the profile text) is required.' }, { status: 400 })
+    }
+    if (body.source !== undefined && !PERSONA_VERSION_SOURCES.includes(body.source)) {
+      return NextResponse.json(
+        { error: `source must be one of: ${PERSONA_VERSION_SOURCES.join(', ')}.` },
+        { status: 400 }
+      )
+    }
+    if (body.evalScore !== undefined && (typeof body.evalScore !== 'number' || !Number.isFinite(body.evalScore))) {
+      return NextResponse.json({ error: 'evalScore must be a number.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    const saved = await savePersonaVersion(getSupabase(), name, characteristics, {
+      source: body.source as PersonaVersionSource | undefined,
+      evalScore: body.evalScore,
+      evalMetrics: toEvalMetrics(body.evalMetrics),
+      note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+    })
+    return NextResponse.json(saved)
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to save persona')
+  }
+}
+
+/**
+ * Delete a persona and its version history. Query: ?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Query parameter id is required.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    await deletePersona(getSupabase(), id)
+    return NextResponse.json({ deleted: id })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to delete persona')
+  }
+}
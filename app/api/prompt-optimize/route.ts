@@ -1,21 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { loadEvalSet } from '@/lib/eval-set'
-import { loadEvalEmbeddingsFromSupabase, storeEvalEmbeddingsInSupabase } from '@/lib/eval-embeddings-db'
-import { generateEmbeddingBatch, leadToText } from '@/lib/embeddings'
-import { runOptimization, type OptimizerProvider } from '@/lib/prompt-optimizer'
+import { getEvalLeadEmbeddings } from '@/lib/eval-embeddings-db'
+import { runOptimization } from '@/lib/prompt-optimizer'
+import { EVAL_OBJECTIVES, EVAL_OBJECTIVE_IDS, type EvalObjective } from '@/lib/eval-metrics'
+import { getConfiguredLlmProvider, LLM_KEYS_HINT } from '@/lib/llm'
+import { getEmbeddingProviderErrorResponse } from '@/lib/embedding-providers'
+import { getSupabase } from '@/lib/supabase'
+import { resolveScoringProfile, type ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import { getPersona, samePersonaText, savePersonaVersion, type PersonaVersion, type SavedPersona } from '@/lib/personas'
 
 const DEFAULT_MAX_ITERATIONS = 6
 
 /**
  * POST /api/prompt-optimize
- * Body: { initialPrompt: string (required), maxIterations?: number }
- * Uses evaluation set (50 pre-ranked leads) to optimize the persona prompt via an LLM agent.
- * Returns { bestPrompt, bestScore, history, iterations }.
+ * Body: { initialPrompt: string (required), maxIterations?: number, scoringProfileId?: string, scoring?: {...},
+ * personaId?: string, objective?: EvalObjective, includeUnranked?: boolean }
+ * Uses evaluation set (50 pre-ranked leads) to optimize the persona prompt via an LLM agent,
+ * scoring leads with the given scoring profile (default: the default profile) and keeping the prompt
+ * with the best objective (default 'score', Spearman; see lib/eval-metrics.ts). With includeUnranked,
+ * the eval set's unranked ("-") leads are evaluated too, tied last within their company.
+ * With personaId, initialPrompt defaults to the persona's text and the best prompt is saved as its
+ * next version (source 'optimizer', with its eval metrics) unless it is the persona's current text.
+ * Returns { bestPrompt, bestScore (objective value), bestMetrics, objective, history, iterations,
+ * scoringProfile, personaVersion? }.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}))
-    const rawPrompt = typeof body.initialPrompt === 'string' ? body.initialPrompt.trim() : ''
+    let persona: SavedPersona | null = null
+    if (typeof body.personaId === 'string' && body.personaId) {
+      persona = await getPersona(getSupabase(), body.personaId)
+      if (!persona) {
+        return NextResponse.json({ error: `Persona ${body.personaId} not found.` }, { status: 404 })
+      }
+    }
+    const rawPrompt = typeof body.initialPrompt === 'string' && body.initialPrompt.trim()
+      ? body.initialPrompt.trim()
+      : persona?.characteristics.trim() ?? ''
     if (!rawPrompt) {
       return NextResponse.json(
         { error: 'Profile text is required. Enter your ideal profile in the text area and try again.' },
@@ -27,8 +48,23 @@ export async function POST(request: NextRequest) {
       typeof body.maxIterations === 'number' && body.maxIterations >= 1 && body.maxIterations <= 10
         ? body.maxIterations
         : DEFAULT_MAX_ITERATIONS
+    if (body.objective !== undefined && !EVAL_OBJECTIVE_IDS.includes(body.objective)) {
+      return NextResponse.json(
+        { error: `objective must be one of: ${EVAL_OBJECTIVE_IDS.join(', ')}.` },
+        { status: 400 }
+      )
+    }
+    const objective: EvalObjective = body.objective ?? 'score'
+
+    let scoring: ResolvedScoringProfile
+    try {
+      scoring = await resolveScoringProfile(body.scoringProfileId, body.scoring, getSupabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: msg.includes('not found') ? 404 : 400 })
+    }
 
-    const evalLeads = await loadEvalSet()
+    const evalLeads = await loadEvalSet(undefined, { includeUnranked: body.includeUnranked === true })
     if (evalLeads.length < 5) {
       return NextResponse.json(
         { error: 'Evaluation set has too few ranked leads. Need at least 5.' },
@@ -36,68 +72,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Optimizer uses only Gemini, Groq, or Anthropic (no OpenAI).
-    const hasGemini = !!process.env.GEMINI_API_KEY?.trim()
-    const hasGroq = !!process.env.GROQ_API_KEY?.trim()
-    const hasAnthropic = !!process.env.ANTHROPIC_API_KEY?.trim()
-    let optimizerProvider: OptimizerProvider
-    if (hasGemini) {
-      optimizerProvider = 'gemini'
-    } else if (hasGroq) {
-      optimizerProvider = 'groq'
-    } else if (hasAnthropic) {
-      optimizerProvider = 'anthropic'
-    } else {
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    // Optimizer uses only Gemini, Groq, or Anthropic (no OpenAI); see lib/llm.ts.
+    const optimizerProvider = getConfiguredLlmProvider()
+    if (!optimizerProvider) {
       return NextResponse.json(
         {
-          error:
-            'Prompt optimization needs one of: GEMINI_API_KEY (aistudio.google.com/apikey), GROQ_API_KEY (console.groq.com, free tier), or ANTHROPIC_API_KEY. Add one to .env.local and restart the dev server.',
+          error: `Prompt optimization needs one of: ${LLM_KEYS_HINT}. Add one to .env.local and restart the dev server.`,
         },
         { status: 500 }
       )
     }
 
     // Use cached eval embeddings from Supabase when available; otherwise compute and store
-    let leadEmbeddings: number[][]
-    const cached = await loadEvalEmbeddingsFromSupabase(evalLeads)
-    if (cached.fromCache && cached.embeddings !== null) {
-      leadEmbeddings = cached.embeddings
-    } else {
-      const leadTexts = evalLeads.map((e) => leadToText(e.lead))
-      const EMBED_CHUNK_SIZE = 12
-      leadEmbeddings = []
-      for (let i = 0; i < leadTexts.length; i += EMBED_CHUNK_SIZE) {
-        const chunk = leadTexts.slice(i, i + EMBED_CHUNK_SIZE)
-        let chunkEmbeddings: number[][]
-        try {
-          chunkEmbeddings = await generateEmbeddingBatch(chunk)
-        } catch (chunkErr) {
-          const isTimeout = /timeout|ETIMEDOUT|terminated/i.test(chunkErr instanceof Error ? chunkErr.message : String(chunkErr))
-          if (isTimeout && chunk.length > 1) {
-            chunkEmbeddings = []
-            for (const text of chunk) {
-              const one = await generateEmbeddingBatch([text])
-              chunkEmbeddings.push(...one)
-            }
-          } else {
-            throw chunkErr
-          }
-        }
-        leadEmbeddings.push(...chunkEmbeddings)
-      }
-      if (leadEmbeddings.length !== evalLeads.length) {
-        return NextResponse.json(
-          { error: 'Failed to compute embeddings for all evaluation leads.' },
-          { status: 500 }
-        )
-      }
-      try {
-        await storeEvalEmbeddingsInSupabase(evalLeads, leadEmbeddings)
-      } catch (storeErr) {
-        // Supabase not configured or table missing; optimization still succeeds
-        console.warn('Eval embeddings not stored (cache disabled):', storeErr)
-      }
-    }
+    const leadEmbeddings = await getEvalLeadEmbeddings(evalLeads)
 
     const result = await runOptimization({
       initialPrompt,
@@ -105,13 +95,36 @@ export async function POST(request: NextRequest) {
       evalLeads,
       leadEmbeddings,
       optimizerProvider,
+      scoringWeights: scoring.profile,
+      objective,
     })
 
+    // Saving is best effort: the optimized prompt is returned even if the version cannot be stored.
+    let personaVersion: PersonaVersion | null = null
+    if (persona && !samePersonaText(result.bestPrompt, persona.characteristics)) {
+      try {
+        const { score: evalScore, ...evalMetrics } = result.bestMetrics
+        const saved = await savePersonaVersion(getSupabase(), persona.name, result.bestPrompt, {
+          source: 'optimizer',
+          evalScore,
+          evalMetrics,
+          note: `Optimized from version ${persona.current_version} (${result.iterations} iterations, ${EVAL_OBJECTIVES[objective].label})`,
+        })
+        personaVersion = saved.version
+      } catch (e) {
+        console.warn('Optimized prompt not saved to persona:', e)
+      }
+    }
+
     return NextResponse.json({
       bestPrompt: result.bestPrompt,
       bestScore: result.bestScore,
+      bestMetrics: result.bestMetrics,
+      objective: result.objective,
       history: result.history,
       iterations: result.iterations,
+      scoringProfile: scoring,
+      ...(persona ? { personaVersion } : {}),
     })
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err)
@@ -148,6 +161,9 @@ export async function POST(request: NextRequest) {
         { status: 504 }
       )
     }
+    if (err instanceof Error && err.message.includes('Please provide')) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
     console.error('Prompt optimize error:', err)
     return NextResponse.json(
       { error: msg || 'Prompt optimization failed.' },
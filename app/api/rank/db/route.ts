@@ -1,13 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabase, LEADS_TABLE } from '@/lib/supabase'
 import { ensureLeadsTable, getTableMissingMessage } from '@/lib/db-migrate'
-import { rankLeadsAgainstPersona } from '@/lib/ranking'
-import { parseProfileForEmbedding } from '@/lib/embeddings'
+import { rankLeadsAgainstPersona, embedProfile, getNextRankCursor, parseRankPageParams } from '@/lib/ranking'
+import { CLAUSE_AGGREGATIONS, getProfileEmbeddingTexts, type ClauseAggregation } from '@/lib/embeddings'
+import { getEmbeddingProviderErrorResponse, getActiveEmbeddingTag } from '@/lib/embedding-providers'
+import {
+  countCachedOnlyLeads,
+  countEmbeddedLeads,
+  countStaleLeads,
+  loadCachedOnlyLeads,
+  templateEmbeddingFilter,
+} from '@/lib/lead-embeddings'
+import { resolveLeadTextTemplate, type ResolvedLeadTextTemplate } from '@/lib/lead-text-templates'
+import { matchLeadsWithPgvector, getPgvectorMatchCount } from '@/lib/lead-search'
+import { resolveScoringProfile, type ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import { formatLeadFilterCounts, sanitizeLeadFilters } from '@/lib/lead-filters'
+import { parseAccountMode, rankAccounts } from '@/lib/accounts'
+import { hasCommitteeRoles, parseBuyingCommittee } from '@/lib/buying-committee'
+import { resolvePersona, type ResolvedPersona } from '@/lib/personas'
+import {
+  getRankRun,
+  getRankRunPage,
+  limitRunResults,
+  runCoversPage,
+  saveRankRun,
+  type RankRunRequest,
+} from '@/lib/rank-runs'
+
+/** Lead ids per query when ranking a run's leads (leadsFromRun). */
+const LEAD_ID_CHUNK_SIZE = 200
+
+/** Rows per request when loading leads to score in Node (PostgREST's default max_rows). */
+const LEAD_PAGE_SIZE = 1000
 
 /**
  * Run the AI ranking process against leads stored in the database.
- * POST body: JSON { characteristics: string } (persona spec with Target / Avoid / Prefer).
- * Optional: { maxLeads?: number } to limit how many leads to load from DB.
+ * POST body: JSON { characteristics: string } (persona spec with Target / Avoid / Prefer), or
+ * { personaId: string, personaVersion?: number } to rank with a saved persona (see lib/personas.ts;
+ * characteristics, when also sent, replaces its text and the response marks it modified).
+ * Optional: { maxLeads?: number } to limit how many leads to load from DB, { templateId?: string }
+ * to rank leads embedded with that lead text template (default: the default template),
+ * { scoringProfileId?: string, scoring?: { avoidPenaltyWeight?, preferBonusWeight?,
+ * avoidSimilarityThreshold?, minScore? } } to set scoring weights (see lib/scoring.ts),
+ * { filters?: { titleIncludes?, titleExcludes?, employeeRanges?, industries?, countries?, domainBlocklist? } }
+ * for hard rules (see lib/lead-filters.ts; with pgvector they apply to the top candidates),
+ * { multiVector?: 'max' | 'softmax' } to score against each Target / Avoid / Prefer clause separately,
+ * { includeBelowMinScore?: boolean } to also return leads below the minimum score (flagged in
+ * their breakdown). Each ranked lead has a score breakdown (see ScoreBreakdown in lib/scoring.ts).
+ * Returns the full ranking, or pages of it with { pageSize?: number (1–1000), cursor?: string }:
+ * the response has totalRanked and nextCursor (null on the last page) to fetch the next page. Cursors
+ * of a stored run (below) read later pages from it (see getRankRunPage) without re-ranking.
+ * totalProcessed counts the leads scored and totalEligible every lead with a current embedding.
+ * With { mode: 'accounts', accounts?: { rankBy?: 'best' | 'topKMean' | 'coverage', topK?: number,
+ * requiredRoles?: string[] } } leads are grouped by company and companies are ranked (see
+ * lib/accounts.ts): the response has accounts (each with its ranked contacts), totalAccounts and
+ * unassignedLeads, and pages apply to accounts. Account coverage is of requiredRoles, or of the
+ * profile's buying committee (lib/buying-committee.ts), returned as buyingCommittee.
+ * Each ranking (not its later pages) is stored as a run (see lib/rank-runs.ts) and the response
+ * has its runId (null when it could not be stored) and runResultsTruncated (true when only the top
+ * RUN_RESULTS_LIMIT leads were stored); { saveRun: false } skips this, and
+ * { rerunOf: string } links a re-run to the run it repeats. With { leadsFromRun: string } only the
+ * leads that run scored are ranked (its lead snapshot), e.g. to compare two profiles on the same leads.
+ * With pgvector (supabase/migrations/006_pgvector.sql) Postgres scores every lead and only the
+ * top candidates (maxLeads or PGVECTOR_MATCH_COUNT, default 1000) are loaded; otherwise all leads
+ * are loaded and scored in Node.
+ * Leads of chunked imports that are not finalized yet are left out.
  * Creates the leads table automatically if DATABASE_URL is set.
  */
 export async function POST(request: NextRequest) {
@@ -15,118 +72,335 @@ export async function POST(request: NextRequest) {
     await ensureLeadsTable()
     const supabase = getSupabase()
     const body = await request.json().catch(() => ({}))
-    const characteristics = typeof body.characteristics === 'string' ? body.characteristics : ''
+    const requestCharacteristics = typeof body.characteristics === 'string' ? body.characteristics : ''
     const maxLeads = typeof body.maxLeads === 'number' ? body.maxLeads : undefined
+    const filters = body.filters === undefined ? undefined : sanitizeLeadFilters(body.filters)
+    const multiVector = body.multiVector || undefined
+    const page = parseRankPageParams(body.pageSize, body.cursor)
+    // Only the first page is stored as a run; later pages are read from it (see below) or re-ranked.
+    const saveRun = body.saveRun !== false && !body.cursor
+
+    let persona: ResolvedPersona | null
+    try {
+      persona = await resolvePersona(body.personaId, body.personaVersion, requestCharacteristics, () => supabase)
+    } catch (e) {
+      if (e instanceof Error && e.message.includes('not found')) {
+        return NextResponse.json({ error: e.message }, { status: 404 })
+      }
+      throw e
+    }
+    const characteristics = persona?.characteristics ?? requestCharacteristics
 
     if (!characteristics.trim()) {
       return NextResponse.json(
-        { error: 'Please provide characteristics (persona spec) in the request body.' },
+        { error: 'Please provide characteristics (persona spec) or personaId in the request body.' },
         { status: 400 }
       )
     }
 
-    const provider = (process.env.AI_PROVIDER || 'huggingface').toLowerCase()
-    const apiKey =
-      provider === 'gemini'
-        ? process.env.GEMINI_API_KEY
-        : provider === 'huggingface'
-          ? process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN
-          : process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    if (filters === null) {
       return NextResponse.json(
-        { error: 'AI provider is not configured. Set the appropriate API key in .env.local.' },
-        { status: 500 }
+        { error: 'filters must be an object (e.g. { "titleExcludes": ["CFO", "CTO"] }).' },
+        { status: 400 }
       )
     }
 
-    let query = supabase
-      .from(LEADS_TABLE)
-      .select('data, embedding')
-      .not('embedding', 'is', null)
-      .order('created_at', { ascending: false })
-    if (maxLeads !== undefined && maxLeads > 0) {
-      query = query.limit(maxLeads)
-    }
-    let rows: { data: unknown; embedding: unknown }[] | null = null
-    let supabaseError: { message: string } | null = null
-    const maxTries = 3
-    for (let attempt = 1; attempt <= maxTries; attempt++) {
-      try {
-        const result = await query
-        rows = result.data
-        supabaseError = result.error
-        break
-      } catch (fetchErr: unknown) {
-        const code = fetchErr && typeof fetchErr === 'object' && 'code' in fetchErr ? (fetchErr as { code: string }).code : ''
-        const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr)
-        const isRetryable = code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'ECONNREFUSED' || /fetch failed/i.test(msg)
-        if (isRetryable && attempt < maxTries) {
-          await new Promise((r) => setTimeout(r, 800 * attempt))
-          continue
-        }
-        return NextResponse.json(
-          {
-            error: code === 'ECONNRESET'
-              ? 'Connection was reset (timeout or network). Try again or reduce the number of leads (maxLeads).'
-              : `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL and network.`,
-          },
-          { status: 503 }
-        )
-      }
+    if ('error' in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 })
     }
 
-    if (supabaseError) {
-      const msg = supabaseError.message
-      const tableMissing = getTableMissingMessage(msg)
-      if (tableMissing) {
-        return NextResponse.json({ error: tableMissing }, { status: 503 })
+    // Cursors of a stored ranking point to its run: read the page from it instead of re-ranking.
+    if (page.runId) {
+      const run = await getRankRun(supabase, page.runId)
+      if (run && runCoversPage(run, page)) {
+        return NextResponse.json({ ...getRankRunPage(run, page), runId: run.id })
       }
-      const isNetwork = /fetch failed|ECONNREFUSED|ETIMEDOUT|ENOTFOUND/i.test(msg)
+    }
+
+    const committee = parseBuyingCommittee(characteristics)
+    const accountMode = parseAccountMode(body.mode, body.accounts, committee)
+    if ('error' in accountMode) {
+      return NextResponse.json({ error: accountMode.error }, { status: 400 })
+    }
+    const accountOptions = accountMode.options
+    // Accounts are built from the full lead ranking, and runs store it; pages are then sliced here.
+    const leadPage = accountOptions || saveRun ? { offset: 0, limit: undefined } : page
+
+    if (multiVector !== undefined && !CLAUSE_AGGREGATIONS.includes(multiVector)) {
       return NextResponse.json(
-        {
-          error: isNetwork
-            ? `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL (https://xxx.supabase.co) and that the server can access the internet.`
-            : 'Failed to load leads: ' + msg,
-        },
-        { status: isNetwork ? 503 : 500 }
+        { error: `multiVector must be one of: ${CLAUSE_AGGREGATIONS.join(', ')}.` },
+        { status: 400 }
       )
     }
 
-    const leads = (rows ?? []).map((r) => r.data as Record<string, string>).filter(Boolean)
-    const leadEmbeddings = (rows ?? []).map((r) => r.embedding as number[]).filter((e) => Array.isArray(e) && e.length > 0)
-    if (leads.length === 0 || leadEmbeddings.length !== leads.length) {
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    let template: ResolvedLeadTextTemplate
+    try {
+      template = await resolveLeadTextTemplate(body.templateId, () => supabase)
+    } catch (e) {
+      if (e instanceof Error && e.message.includes('not found')) {
+        return NextResponse.json({ error: e.message }, { status: 404 })
+      }
+      throw e
+    }
+
+    let scoring: ResolvedScoringProfile
+    try {
+      scoring = await resolveScoringProfile(body.scoringProfileId, body.scoring, () => supabase)
+    } catch (e) {
+      if (e instanceof Error && e.message.includes('not found')) {
+        return NextResponse.json({ error: e.message }, { status: 404 })
+      }
+      throw e
+    }
+
+    // Only use vectors from the active provider/model and template; others live in a different vector space.
+    const embeddingTag = getActiveEmbeddingTag(template.version)
+    const profileEmbeddings = await embedProfile(characteristics, { multiVector: multiVector as ClauseAggregation | undefined })
+
+    // Prefer scoring in Postgres (pgvector) and loading only the top candidates (enough for the
+    // requested page); fall back to loading every lead when pgvector isn't set up.
+    // With leadsFromRun only that run's leads are ranked (loaded by id; pgvector would search all leads).
+    let snapshotIds: string[] | null = null
+    if (typeof body.leadsFromRun === 'string' && body.leadsFromRun) {
+      const sourceRun = await getRankRun(supabase, body.leadsFromRun)
+      if (!sourceRun) {
+        return NextResponse.json({ error: `Ranking run ${body.leadsFromRun} not found.` }, { status: 404 })
+      }
+      snapshotIds = sourceRun.lead_ids
+    }
+
+    // Leads whose vector for this template is only in the embedding cache (their row was re-embedded
+    // with another template, e.g. by a running job) are not searched by pgvector: score in Node then.
+    const cachedOnlyLeads = await countCachedOnlyLeads(supabase, embeddingTag)
+    const candidates = snapshotIds || cachedOnlyLeads > 0 ? null : await matchLeadsWithPgvector(
+      supabase,
+      profileEmbeddings,
+      embeddingTag,
+      maxLeads !== undefined && maxLeads > 0
+        ? maxLeads
+        : Math.max(getPgvectorMatchCount(), leadPage.offset + (leadPage.limit ?? 0)),
+      scoring.profile
+    )
+    let leads: Record<string, string>[]
+    let leadEmbeddings: number[][]
+    let leadIds: string[]
+    const searchMode = candidates ? 'pgvector' : 'memory'
+    if (candidates) {
+      leads = candidates.leads
+      leadEmbeddings = candidates.leadEmbeddings
+      leadIds = candidates.ids
+    } else {
+      const rows: { id: string; data: unknown; embedding: unknown }[] = []
+      // Lead ids are sent in the query string, so a snapshot is loaded in chunks.
+      const idChunks: (string[] | null)[] = snapshotIds
+        ? Array.from({ length: Math.ceil(snapshotIds.length / LEAD_ID_CHUNK_SIZE) }, (_, i) =>
+            snapshotIds!.slice(i * LEAD_ID_CHUNK_SIZE, (i + 1) * LEAD_ID_CHUNK_SIZE)
+          )
+        : [null]
+      for (const ids of idChunks) {
+        // PostgREST caps each response (max_rows, 1000 by default): read in ranges until a short one.
+        for (let from = 0; ; from += LEAD_PAGE_SIZE) {
+          const to = !ids && maxLeads !== undefined && maxLeads > 0
+            ? Math.min(from + LEAD_PAGE_SIZE, maxLeads) - 1
+            : from + LEAD_PAGE_SIZE - 1
+          if (to < from) break
+          let query = supabase
+            .from(LEADS_TABLE)
+            .select('id, data, embedding')
+            .not('embedding', 'is', null)
+            .eq('import_pending', false)
+            .eq('embedding_provider', embeddingTag.provider)
+            .eq('embedding_model', embeddingTag.model)
+            .or(templateEmbeddingFilter(embeddingTag))
+          if (embeddingTag.dimension != null) {
+            query = query.eq('embedding_dim', embeddingTag.dimension)
+          }
+          if (ids) {
+            query = query.in('id', ids)
+          }
+          query = query.order('created_at', { ascending: false }).order('id').range(from, to)
+          let chunkRows: { id: string; data: unknown; embedding: unknown }[] | null = null
+          let supabaseError: { message: string } | null = null
+          const maxTries = 3
+          for (let attempt = 1; attempt <= maxTries; attempt++) {
+            try {
+              const result = await query
+              chunkRows = result.data
+              supabaseError = result.error
+              break
+            } catch (fetchErr: unknown) {
+              const code = fetchErr && typeof fetchErr === 'object' && 'code' in fetchErr ? (fetchErr as { code: string }).code : ''
+              const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr)
+              const isRetryable = code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'ECONNREFUSED' || /fetch failed/i.test(msg)
+              if (isRetryable && attempt < maxTries) {
+                await new Promise((r) => setTimeout(r, 800 * attempt))
+                continue
+              }
+              return NextResponse.json(
+                {
+                  error: code === 'ECONNRESET'
+                    ? 'Connection was reset (timeout or network). Try again or reduce the number of leads (maxLeads).'
+                    : `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL and network.`,
+                },
+                { status: 503 }
+              )
+            }
+          }
+
+          if (supabaseError) {
+            const msg = supabaseError.message
+            const tableMissing = getTableMissingMessage(msg)
+            if (tableMissing) {
+              return NextResponse.json({ error: tableMissing }, { status: 503 })
+            }
+            const isNetwork = /fetch failed|ECONNREFUSED|ETIMEDOUT|ENOTFOUND/i.test(msg)
+            return NextResponse.json(
+              {
+                error: isNetwork
+                  ? `Cannot reach Supabase: ${msg}. Check NEXT_PUBLIC_SUPABASE_URL (https://xxx.supabase.co) and that the server can access the internet.`
+                  : 'Failed to load leads: ' + msg,
+              },
+              { status: isNetwork ? 503 : 500 }
+            )
+          }
+          rows.push(...(chunkRows ?? []))
+          if ((chunkRows ?? []).length < to - from + 1) break
+        }
+      }
+
+      for (const ids of cachedOnlyLeads > 0 ? idChunks : []) {
+        rows.push(...(await loadCachedOnlyLeads(supabase, embeddingTag, ids ?? undefined)))
+      }
+      if (!snapshotIds && maxLeads !== undefined && maxLeads > 0) rows.splice(maxLeads)
+
+      const usable = rows.filter((r) => r.data && Array.isArray(r.embedding) && r.embedding.length > 0)
+      leads = usable.map((r) => r.data as Record<string, string>)
+      leadEmbeddings = usable.map((r) => r.embedding as number[])
+      leadIds = usable.map((r) => r.id)
+    }
+
+    if (leads.length === 0) {
+      const stale = await countStaleLeads(supabase, embeddingTag).catch(() => 0)
       return NextResponse.json(
         {
           error:
-            leadEmbeddings.length !== leads.length
-              ? 'No leads with stored embeddings. Re-ingest the CSV via POST /api/leads/ingest to compute and store embeddings.'
+            stale > 0
+              ? `${stale} lead${stale !== 1 ? 's have' : ' has'} no embedding from the current model (${embeddingTag.provider}: ${embeddingTag.model}) and lead text template (${template.name}). Re-embed them via POST /api/leads/reembed${template.id ? ` with { "templateId": "${template.id}" }` : ''}, or switch AI_PROVIDER back.`
               : 'No leads in the database. Ingest a CSV first via POST /api/leads/ingest',
         },
         { status: 400 }
       )
     }
 
-    const { targetText, avoidText, preferText } = parseProfileForEmbedding(characteristics)
-    const embeddingCalls = 1 + (avoidText ? 1 : 0) + (preferText ? 1 : 0)
+    // pgvector and maxLeads load only the top candidates: count every lead that could have been ranked.
+    const totalEligible = snapshotIds || (!candidates && !(maxLeads !== undefined && maxLeads > 0))
+      ? leads.length
+      : (await countEmbeddedLeads(supabase, embeddingTag)) + cachedOnlyLeads
+    const embeddingCalls = getProfileEmbeddingTexts(characteristics, { splitClauses: !!multiVector }).length
 
     const result = await rankLeadsAgainstPersona(leads, characteristics, {
-      topN: 10,
+      offset: leadPage.offset,
+      limit: leadPage.limit,
       maxLeads: undefined,
       leadEmbeddings,
+      profileEmbeddings,
+      scoringProfile: scoring.profile,
+      filters,
+      includeBelowMinScore: body.includeBelowMinScore === true,
     })
 
-    if (result.rankedLeads.length === 0) {
+    if (result.totalRanked === 0) {
       return NextResponse.json(
-        { error: 'No leads found matching the characteristics' },
+        {
+          error: result.totalExcluded > 0
+            ? `No leads found matching the characteristics (${result.totalExcluded} excluded by filters: ${formatLeadFilterCounts(result.excludedByRule)})`
+            : 'No leads found matching the characteristics',
+        },
         { status: 400 }
       )
     }
 
-    return NextResponse.json({
-      rankedLeads: result.rankedLeads,
+    const summary = {
+      totalRanked: result.totalRanked,
       totalProcessed: result.totalProcessed,
+      totalEligible,
       totalMatched: result.totalMatched,
-      stats: { embeddingCalls },
+      totalExcluded: result.totalExcluded,
+      excludedByRule: result.excludedByRule,
+      stats: { embeddingCalls, searchMode },
+      leadTextTemplate: { id: template.id, name: template.name, version: template.version },
+      scoringProfile: scoring,
+      ...(persona ? { persona: { id: persona.id, name: persona.name, version: persona.version, modified: persona.modified } } : {}),
+      ...(hasCommitteeRoles(committee) ? { buyingCommittee: committee } : {}),
+    }
+
+    let runId: string | null = null
+    let runResultsTruncated = false
+    if (saveRun) {
+      // Ranked leads keep the lead objects they were given, so their row ids can be looked up.
+      const idByLead = new Map(leads.map((lead, i) => [lead, leadIds[i]]))
+      const { results, truncated } = limitRunResults(
+        result.rankedLeads.map((r) => ({ ...r, leadId: idByLead.get(r.lead) ?? null }))
+      )
+      runResultsTruncated = truncated
+      const runRequest: RankRunRequest = {
+        characteristics,
+        ...(persona ? { personaId: persona.id, personaVersion: persona.version } : {}),
+        ...(template.id ? { templateId: template.id } : {}),
+        ...(scoring.id ? { scoringProfileId: scoring.id } : {}),
+        scoring: scoring.profile,
+        ...(filters ? { filters } : {}),
+        ...(multiVector ? { multiVector: multiVector as ClauseAggregation } : {}),
+        ...(body.includeBelowMinScore === true ? { includeBelowMinScore: true } : {}),
+        ...(maxLeads !== undefined ? { maxLeads } : {}),
+        ...(snapshotIds ? { leadsFromRun: body.leadsFromRun as string } : {}),
+        mode: accountOptions ? 'accounts' : 'leads',
+        ...(accountOptions ? { accounts: accountOptions } : {}),
+      }
+      runId = await saveRankRun(supabase, {
+        persona_id: persona?.id ?? null,
+        persona_name: persona?.name ?? null,
+        persona_version: persona?.version ?? null,
+        characteristics,
+        mode: runRequest.mode,
+        request: runRequest,
+        scoring_profile: scoring,
+        lead_text_template: summary.leadTextTemplate,
+        embedding_provider: embeddingTag.provider,
+        embedding_model: embeddingTag.model,
+        search_mode: searchMode,
+        lead_ids: leadIds,
+        total_processed: result.totalProcessed,
+        total_ranked: result.totalRanked,
+        results,
+        results_truncated: truncated,
+        rerun_of: typeof body.rerunOf === 'string' && body.rerunOf ? body.rerunOf : null,
+      })
+    }
+
+    if (accountOptions) {
+      const { accounts, unassigned } = rankAccounts(result.rankedLeads, accountOptions, committee)
+      const end = page.limit !== undefined ? page.offset + page.limit : accounts.length
+      return NextResponse.json({
+        accounts: accounts.slice(page.offset, end),
+        totalAccounts: accounts.length,
+        unassignedLeads: unassigned,
+        accountOptions,
+        nextCursor: getNextRankCursor(page.offset, page.limit, accounts.length, runId),
+        ...summary,
+        ...(saveRun ? { runId, runResultsTruncated } : {}),
+      })
+    }
+
+    const end = page.limit !== undefined ? page.offset + page.limit : result.rankedLeads.length
+    return NextResponse.json({
+      rankedLeads: leadPage === page ? result.rankedLeads : result.rankedLeads.slice(page.offset, end),
+      nextCursor: getNextRankCursor(page.offset, page.limit, result.totalRanked, runId),
+      ...summary,
+      ...(saveRun ? { runId, runResultsTruncated } : {}),
     })
   } catch (err: unknown) {
     if (err instanceof Error && err.message.includes('Supabase is not configured')) {
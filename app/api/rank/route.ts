@@ -1,12 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Papa from 'papaparse'
-import { rankLeadsAgainstPersona } from '@/lib/ranking'
+import { rankLeadsAgainstPersona, getNextRankCursor, parseRankPageParams } from '@/lib/ranking'
+import { getEmbeddingProviderErrorResponse } from '@/lib/embedding-providers'
+import { getSupabase } from '@/lib/supabase'
+import { applyColumnMapping } from '@/lib/lead-schema'
+import { resolveColumnMapping, type ResolvedColumnMapping } from '@/lib/column-mappings'
+import { resolveLeadTextTemplate, type ResolvedLeadTextTemplate } from '@/lib/lead-text-templates'
+import { resolveScoringProfile, type ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import { formatLeadFilterCounts, sanitizeLeadFilters, type LeadFilters } from '@/lib/lead-filters'
+import { CLAUSE_AGGREGATIONS, type ClauseAggregation } from '@/lib/embeddings'
+import { parseAccountMode, rankAccounts } from '@/lib/accounts'
+import { hasCommitteeRoles, parseBuyingCommittee } from '@/lib/buying-committee'
+import { resolvePersona, type ResolvedPersona } from '@/lib/personas'
 
+/**
+ * Rank leads from an uploaded CSV against a profile.
+ * POST body: multipart/form-data with "csv" and "characteristics" (or "personaId", optionally with
+ * "personaVersion", for a saved persona; see lib/personas.ts); optional "mappingId" / "mapping"
+ * to choose how columns map to lead fields (default: auto-detected, see lib/lead-schema.ts);
+ * optional "templateId" to render leads with a saved lead text template; optional "scoringProfileId"
+ * and/or "scoring" (JSON, e.g. {"minScore": 0.4}) to set scoring weights (see lib/scoring.ts);
+ * optional "filters" (JSON, e.g. {"titleExcludes": ["CFO", "CTO"]}) for hard rules (see lib/lead-filters.ts);
+ * optional "multiVector" ("max" or "softmax") to score against each Target / Avoid / Prefer clause separately;
+ * optional "includeBelowMinScore" ("true") to also return leads below the minimum score.
+ * Each ranked lead has a score breakdown (see ScoreBreakdown in lib/scoring.ts).
+ * Returns the full ranking, or a page of it with "pageSize" (1–1000) and "cursor" (nextCursor of the
+ * previous page); the CSV is re-embedded for every page, so prefer the full list for uploads.
+ * With "mode" = "accounts" (and optional "accounts" JSON, e.g. {"rankBy": "coverage", "requiredRoles":
+ * ["VP Sales"]}) leads are grouped by company and companies are ranked instead (see lib/accounts.ts).
+ * When the profile has a buying committee (lib/buying-committee.ts) it is returned as buyingCommittee.
+ */
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
     const csvFile = formData.get('csv') as File
-    const characteristics = formData.get('characteristics') as string
+    const characteristicsField = formData.get('characteristics')
 
     if (!csvFile) {
       return NextResponse.json(
@@ -15,6 +43,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let persona: ResolvedPersona | null
+    try {
+      persona = await resolvePersona(
+        formData.get('personaId'),
+        formData.get('personaVersion'),
+        typeof characteristicsField === 'string' ? characteristicsField : '',
+        getSupabase
+      )
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: msg.includes('not found') ? 404 : 400 })
+    }
+    const characteristics = persona?.characteristics ?? (typeof characteristicsField === 'string' ? characteristicsField : '')
+
     if (!characteristics) {
       return NextResponse.json(
         { error: 'Characteristics not provided' },
@@ -22,22 +64,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const provider = (process.env.AI_PROVIDER || 'huggingface').toLowerCase()
-    const apiKey =
-      provider === 'gemini'
-        ? process.env.GEMINI_API_KEY
-        : provider === 'huggingface'
-          ? process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN
-          : process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      const msg =
-        provider === 'gemini'
-          ? 'GEMINI_API_KEY is not configured. Set AI_PROVIDER=gemini and add GEMINI_API_KEY to .env.local.'
-          : provider === 'huggingface'
-            ? 'HUGGINGFACE_TOKEN (or HF_TOKEN) is not configured. Get a token at https://huggingface.co/settings/tokens'
-            : 'Set OPENAI_API_KEY, or use AI_PROVIDER=gemini / AI_PROVIDER=huggingface with the matching API key.'
-      return NextResponse.json({ error: msg }, { status: 500 })
-    }
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
 
     const csvText = await csvFile.text()
     const parseResult = Papa.parse<Record<string, string>>(csvText, {
@@ -52,7 +80,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    let leads = parseResult.data as Record<string, string>[]
+    let columnMapping: ResolvedColumnMapping
+    try {
+      columnMapping = await resolveColumnMapping(formData, parseResult.meta.fields ?? [], getSupabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: 400 })
+    }
+    const leads = (parseResult.data as Record<string, string>[]).map((row) => applyColumnMapping(row, columnMapping.mapping))
     if (leads.length === 0) {
       return NextResponse.json(
         { error: 'CSV file contains no leads' },
@@ -60,19 +95,122 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const result = await rankLeadsAgainstPersona(leads, characteristics)
+    let template: ResolvedLeadTextTemplate
+    try {
+      template = await resolveLeadTextTemplate(formData.get('templateId'), getSupabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: 400 })
+    }
+
+    let scoring: ResolvedScoringProfile
+    try {
+      const scoringField = formData.get('scoring')
+      const overrides = typeof scoringField === 'string' && scoringField ? JSON.parse(scoringField) : undefined
+      scoring = await resolveScoringProfile(formData.get('scoringProfileId'), overrides, getSupabase)
+    } catch (e) {
+      const msg = e instanceof SyntaxError
+        ? 'scoring must be a JSON object (e.g. {"minScore": 0.4}).'
+        : e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: 400 })
+    }
 
-    if (result.rankedLeads.length === 0) {
+    let filters: LeadFilters | undefined
+    const filtersField = formData.get('filters')
+    if (typeof filtersField === 'string' && filtersField) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(filtersField)
+      } catch {
+        parsed = null
+      }
+      filters = sanitizeLeadFilters(parsed) ?? undefined
+      if (!filters) {
+        return NextResponse.json({ error: 'filters must be a JSON object (e.g. {"titleExcludes": ["CFO"]}).' }, { status: 400 })
+      }
+    }
+
+    const multiVectorField = formData.get('multiVector')
+    if (multiVectorField && !CLAUSE_AGGREGATIONS.includes(multiVectorField as ClauseAggregation)) {
       return NextResponse.json(
-        { error: 'No leads found matching the characteristics' },
+        { error: `multiVector must be one of: ${CLAUSE_AGGREGATIONS.join(', ')}.` },
         { status: 400 }
       )
     }
 
-    return NextResponse.json({
-      rankedLeads: result.rankedLeads,
+    const page = parseRankPageParams(formData.get('pageSize'), formData.get('cursor'))
+    if ('error' in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 })
+    }
+
+    const accountsField = formData.get('accounts')
+    let accountsParsed: unknown
+    if (typeof accountsField === 'string' && accountsField) {
+      try {
+        accountsParsed = JSON.parse(accountsField)
+      } catch {
+        accountsParsed = ''
+      }
+    }
+    const committee = parseBuyingCommittee(characteristics)
+    const accountMode = parseAccountMode(formData.get('mode'), accountsParsed, committee)
+    if ('error' in accountMode) {
+      return NextResponse.json({ error: accountMode.error }, { status: 400 })
+    }
+    const accountOptions = accountMode.options
+
+    // Accounts are built from the full lead ranking; pages then apply to accounts.
+    const result = await rankLeadsAgainstPersona(leads, characteristics, {
+      offset: accountOptions ? 0 : page.offset,
+      limit: accountOptions ? undefined : page.limit,
+      leadTextTemplate: template.template,
+      scoringProfile: scoring.profile,
+      filters,
+      multiVector: (multiVectorField || undefined) as ClauseAggregation | undefined,
+      includeBelowMinScore: formData.get('includeBelowMinScore') === 'true',
+    })
+
+    if (result.totalRanked === 0) {
+      return NextResponse.json(
+        {
+          error: result.totalExcluded > 0
+            ? `No leads found matching the characteristics (${result.totalExcluded} excluded by filters: ${formatLeadFilterCounts(result.excludedByRule)})`
+            : 'No leads found matching the characteristics',
+        },
+        { status: 400 }
+      )
+    }
+
+    const summary = {
+      totalRanked: result.totalRanked,
       totalProcessed: result.totalProcessed,
       totalMatched: result.totalMatched,
+      totalExcluded: result.totalExcluded,
+      excludedByRule: result.excludedByRule,
+      columnMapping,
+      leadTextTemplate: { id: template.id, name: template.name, version: template.version },
+      scoringProfile: scoring,
+      ...(persona ? { persona: { id: persona.id, name: persona.name, version: persona.version, modified: persona.modified } } : {}),
+      ...(hasCommitteeRoles(committee) ? { buyingCommittee: committee } : {}),
+    }
+
+    if (accountOptions) {
+      const { accounts, unassigned } = rankAccounts(result.rankedLeads, accountOptions, committee)
+      const end = page.limit !== undefined ? page.offset + page.limit : accounts.length
+      return NextResponse.json({
+        accounts: accounts.slice(page.offset, end),
+        totalAccounts: accounts.length,
+        unassignedLeads: unassigned,
+        accountOptions,
+        nextCursor: getNextRankCursor(page.offset, page.limit, accounts.length),
+        ...summary,
+      })
+    }
+
+    return NextResponse.json({
+      rankedLeads: result.rankedLeads,
+      nextCursor: getNextRankCursor(page.offset, page.limit, result.totalRanked),
+      ...summary,
     })
   } catch (error) {
     if (error instanceof Error && error.message.includes('Please provide')) {
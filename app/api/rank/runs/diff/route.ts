@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { getRankRun, type RankRun } from '@/lib/rank-runs'
+import { DEFAULT_DIFF_TOP_N, diffRankings } from '@/lib/ranking-diff'
+
+const MAX_DIFF_TOP_N = 1000
+
+function runInfo({ id, created_at, persona_name, persona_version, characteristics, total_ranked, results_truncated }: RankRun) {
+  return { id, created_at, persona_name, persona_version, characteristics, total_ranked, results_truncated }
+}
+
+/**
+ * Compare two stored ranking runs (see lib/ranking-diff.ts). Query: ?a=<run id>&b=<run id>&topN=
+ * (default 50): a is the "before" run and b the "after" run. To compare two profiles on the same
+ * leads, rank the second one with { leadsFromRun: a } (POST /api/rank/db) and diff the two runs.
+ * Returns { a, b, diff: { topN, leads, entered, left, commonLeads, spearman } }; a and b are the
+ * runs' dates, personas and profile texts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const aId = params.get('a')
+    const bId = params.get('b')
+    if (!aId || !bId) {
+      return NextResponse.json({ error: 'Query parameters a and b (run ids) are required.' }, { status: 400 })
+    }
+    const topNParam = params.get('topN')
+    const topN = topNParam ? Number(topNParam) : DEFAULT_DIFF_TOP_N
+    if (!Number.isInteger(topN) || topN < 1 || topN > MAX_DIFF_TOP_N) {
+      return NextResponse.json({ error: `topN must be an integer from 1 to ${MAX_DIFF_TOP_N}.` }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const [a, b] = await Promise.all([getRankRun(supabase, aId), getRankRun(supabase, bId)])
+    const missing = !a ? aId : !b ? bId : null
+    if (!a || !b) {
+      return NextResponse.json({ error: `Ranking run ${missing} not found.` }, { status: 404 })
+    }
+    return NextResponse.json({ a: runInfo(a), b: runInfo(b), diff: diffRankings(a.results, b.results, topN) })
+  } catch (err: unknown) {
+    if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+      return NextResponse.json({ error: err.message }, { status: 503 })
+    }
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    console.error('Ranking diff error:', err)
+    const { error, status } = getSupabaseErrorResponse(msg, 'Failed to compare ranking runs')
+    return NextResponse.json({ error }, { status })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { parseRankPageParams } from '@/lib/ranking'
+import { deleteRankRun, getRankRun, getRankRunPage, listRankRuns } from '@/lib/rank-runs'
+
+function errorResponse(err: unknown, failurePrefix: string) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  console.error('Ranking runs error:', err)
+  const { error, status } = getSupabaseErrorResponse(msg, failurePrefix)
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Stored ranking runs (see lib/rank-runs.ts). Without a query returns { runs } (newest first).
+ * With ?id= returns { run } (everything but its lead ids and results; leadCount is the number of
+ * leads scored) and its stored ranking like /api/rank/db: { rankedLeads, totalRanked, nextCursor }
+ * (each lead with its leadId), or for accounts runs { accounts, totalAccounts, unassignedLeads,
+ * accountOptions } regrouped from the stored leads. Pages with &pageSize=&cursor= as in /api/rank/db.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureLeadsTable()
+    const supabase = getSupabase()
+    const params = request.nextUrl.searchParams
+    const id = params.get('id')
+    if (!id) {
+      return NextResponse.json({ runs: await listRankRuns(supabase) })
+    }
+    const page = parseRankPageParams(params.get('pageSize') ?? undefined, params.get('cursor') ?? undefined)
+    if ('error' in page) {
+      return NextResponse.json({ error: page.error }, { status: 400 })
+    }
+    const stored = await getRankRun(supabase, id)
+    if (!stored) {
+      return NextResponse.json({ error: `Ranking run ${id} not found.` }, { status: 404 })
+    }
+    const { lead_ids: leadIds, results, ...run } = stored
+    return NextResponse.json({ run: { ...run, leadCount: leadIds.length }, ...getRankRunPage({ ...run, results }, page) })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to load ranking runs')
+  }
+}
+
+/**
+ * Delete a stored run (re-runs of it are kept). Query: ?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Query parameter id is required.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    await deleteRankRun(getSupabase(), id)
+    return NextResponse.json({ deleted: id })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to delete ranking run')
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadEvalSet } from '@/lib/eval-set'
+import { getEvalLeadEmbeddings } from '@/lib/eval-embeddings-db'
+import { getEmbeddingProviderErrorResponse } from '@/lib/embedding-providers'
+import { getSupabase } from '@/lib/supabase'
+import { resolveScoringProfile, saveScoringProfile, type ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import { CALIBRATION_OBJECTIVES, calibrateScoringWeights, type CalibrationObjective } from '@/lib/scoring-calibration'
+
+/**
+ * POST /api/scoring-profiles/calibrate
+ * Body: { characteristics: string (required), scoringProfileId?: string, scoring?: {...},
+ * objective?: 'spearman' | 'recallAt5' | 'combined', saveAs?: string }
+ * Fits the avoid penalty, prefer bonus and avoid threshold of the given scoring profile (default:
+ * the default profile) to the evaluation set. Needs only the embedding provider, no LLM.
+ * With saveAs, the fitted weights are saved as a scoring profile with that name.
+ * Returns { objective, before, beforeMetrics, fitted, fittedMetrics, evaluated, unused, scoringProfile, saved? }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const characteristics = typeof body.characteristics === 'string' ? body.characteristics.trim() : ''
+    if (!characteristics) {
+      return NextResponse.json(
+        { error: 'Profile text is required. Enter your ideal profile in the text area and try again.' },
+        { status: 400 }
+      )
+    }
+    if (body.objective !== undefined && !CALIBRATION_OBJECTIVES.includes(body.objective)) {
+      return NextResponse.json(
+        { error: `objective must be one of: ${CALIBRATION_OBJECTIVES.join(', ')}.` },
+        { status: 400 }
+      )
+    }
+    const objective = body.objective as CalibrationObjective | undefined
+    const saveAs = typeof body.saveAs === 'string' ? body.saveAs.trim() : ''
+
+    let scoring: ResolvedScoringProfile
+    try {
+      scoring = await resolveScoringProfile(body.scoringProfileId, body.scoring, getSupabase)
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message ?? e)
+      return NextResponse.json({ error: msg }, { status: msg.includes('not found') ? 404 : 400 })
+    }
+
+    const evalLeads = await loadEvalSet()
+    if (evalLeads.length < 5) {
+      return NextResponse.json(
+        { error: 'Evaluation set has too few ranked leads. Need at least 5.' },
+        { status: 400 }
+      )
+    }
+
+    const providerError = getEmbeddingProviderErrorResponse()
+    if (providerError) return providerError
+
+    const leadEmbeddings = await getEvalLeadEmbeddings(evalLeads)
+    const result = await calibrateScoringWeights({
+      characteristics,
+      evalLeads,
+      leadEmbeddings,
+      base: scoring.profile,
+      objective,
+    })
+    const saved = saveAs ? await saveScoringProfile(getSupabase(), saveAs, result.fitted) : undefined
+
+    return NextResponse.json({ ...result, scoringProfile: scoring, ...(saved ? { saved } : {}) })
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    if (msg.includes('ENOENT') || msg.includes('eval_set')) {
+      return NextResponse.json(
+        { error: 'Evaluation set file not found. Ensure data/eval/eval_set.csv exists.' },
+        { status: 404 }
+      )
+    }
+    if (msg.includes('Supabase is not configured')) {
+      return NextResponse.json({ error: msg }, { status: 503 })
+    }
+    console.error('Scoring calibration error:', err)
+    return NextResponse.json(
+      { error: msg || 'Scoring calibration failed.' },
+      { status: 500 }
+    )
+  }
+}
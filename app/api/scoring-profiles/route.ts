@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabase } from '@/lib/supabase'
+import { ensureLeadsTable, getSupabaseErrorResponse } from '@/lib/db-migrate'
+import { SCORING_PARAMS, sanitizeScoringProfile } from '@/lib/scoring'
+import {
+  DEFAULT_RESOLVED_SCORING_PROFILE,
+  deleteScoringProfile,
+  listScoringProfiles,
+  saveScoringProfile,
+} from '@/lib/scoring-profiles'
+
+function errorResponse(err: unknown, failurePrefix: string) {
+  if (err instanceof Error && err.message.includes('Supabase is not configured')) {
+    return NextResponse.json({ error: err.message }, { status: 503 })
+  }
+  const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+  console.error('Scoring profiles error:', err)
+  const { error, status } = getSupabaseErrorResponse(msg, failurePrefix)
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Saved scoring profiles plus the built-in default and the allowed range of each parameter.
+ * Returns { profiles, defaultProfile, params }.
+ */
+export async function GET() {
+  try {
+    await ensureLeadsTable()
+    const profiles = await listScoringProfiles(getSupabase())
+    return NextResponse.json({ profiles, defaultProfile: DEFAULT_RESOLVED_SCORING_PROFILE, params: SCORING_PARAMS })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to load scoring profiles')
+  }
+}
+
+/**
+ * Save a profile (replaces an existing one with the same name). Missing parameters take the default values.
+ * POST body: JSON { name: string, profile: { avoidPenaltyWeight?, preferBonusWeight?, avoidSimilarityThreshold?, minScore? } }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const profile = sanitizeScoringProfile(body.profile)
+    if (!name) {
+      return NextResponse.json({ error: 'name is required.' }, { status: 400 })
+    }
+    if (!profile) {
+      return NextResponse.json(
+        { error: `profile must be an object with any of: ${Object.keys(SCORING_PARAMS).join(', ')}.` },
+        { status: 400 }
+      )
+    }
+    await ensureLeadsTable()
+    const saved = await saveScoringProfile(getSupabase(), name, profile)
+    return NextResponse.json({ profile: saved })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to save scoring profile')
+  }
+}
+
+/**
+ * Delete a saved profile. Query: ?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Query parameter id is required.' }, { status: 400 })
+    }
+    await ensureLeadsTable()
+    await deleteScoringProfile(getSupabase(), id)
+    return NextResponse.json({ deleted: id })
+  } catch (err: unknown) {
+    return errorResponse(err, 'Failed to delete scoring profile')
+  }
+}
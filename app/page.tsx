@@ -2,97 +2,198 @@
 
 import { useState, useRef, useEffect } from 'react'
 import Image from 'next/image'
+import Link from 'next/link'
 import LeadRanking from '@/components/LeadRanking'
+import AccountRanking from '@/components/AccountRanking'
 import ThemeToggle from '@/components/ThemeToggle'
 import { THROXY_EXAMPLE_PROFILE } from '@/lib/exampleProfile'
+import {
+  parseCsvFile,
+  prepareChunkedIngest,
+  runChunkedIngest,
+  ChunkedIngestError,
+  type ChunkedIngestState,
+} from '@/lib/chunked-ingest'
+import type { ColumnMapping } from '@/lib/lead-schema'
+import CsvPreview, { type LeadTextTemplateOption } from '@/components/CsvPreview'
+import ScoringProfileEditor from '@/components/ScoringProfileEditor'
+import PersonaEditor from '@/components/PersonaEditor'
+import EvalComparison from '@/components/EvalComparison'
+import { DEFAULT_SCORING_PROFILE, type ScoreBreakdown, type ScoringProfile } from '@/lib/scoring'
+import type { LeadFilterCounts } from '@/lib/lead-filters'
+import type { ClauseAggregation } from '@/lib/embeddings'
+import {
+  ACCOUNT_RANK_BY,
+  ACCOUNT_RANK_BY_IDS,
+  parseAccountMode,
+  type AccountOptions,
+  type AccountRankBy,
+  type AccountResult,
+} from '@/lib/accounts'
+import { parseBuyingCommittee, type BuyingCommittee } from '@/lib/buying-committee'
+import { EVAL_OBJECTIVES, EVAL_OBJECTIVE_IDS, type EvalObjective } from '@/lib/eval-metrics'
 import throxyIcon from './apple-touch-icon.png'
 
 interface RankedLead {
   lead: Record<string, string>
   score: number
   rank: number
+  segment?: string
+  matchedClause?: string
+  breakdown?: ScoreBreakdown
+  explanation?: string
 }
 
+/** Leads per page of the ranking (more are loaded on demand; exports fetch the full list). */
+const RANK_PAGE_SIZE = 50
+
 export default function Home() {
   const [csvFile, setCsvFile] = useState<File | null>(null)
   const [ingestLoading, setIngestLoading] = useState(false)
   const [ingestProgress, setIngestProgress] = useState<number | null>(null)
   const [ingestMessage, setIngestMessage] = useState<string | null>(null)
+  const [ingestStatus, setIngestStatus] = useState<string | null>(null)
+  const [pendingImport, setPendingImport] = useState<ChunkedIngestState | null>(null)
+  const [csvPreview, setCsvPreview] = useState<{ rows: Record<string, string>[]; fields: string[] } | null>(null)
+  const [templates, setTemplates] = useState<LeadTextTemplateOption[]>([])
+  const [ingestTemplateId, setIngestTemplateId] = useState('')
+  const [rankTemplateId, setRankTemplateId] = useState('')
   const [characteristics, setCharacteristics] = useState('')
+  const [personaId, setPersonaId] = useState('')
+  const [personaVersion, setPersonaVersion] = useState<number | null>(null)
+  const [personaRefreshKey, setPersonaRefreshKey] = useState(0)
+  const [multiVector, setMultiVector] = useState<ClauseAggregation | ''>('')
+  const [includeBelowMinScore, setIncludeBelowMinScore] = useState(false)
+  const [rankMode, setRankMode] = useState<'leads' | 'accounts'>('leads')
+  const [accountRankBy, setAccountRankBy] = useState<AccountRankBy>('topKMean')
+  const [requiredRoles, setRequiredRoles] = useState('')
+  const [scoringProfileId, setScoringProfileId] = useState('')
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [results, setResults] = useState<RankedLead[] | null>(null)
+  const [accountResults, setAccountResults] = useState<{
+    accounts: AccountResult<RankedLead>[]
+    options: AccountOptions
+    totalAccounts: number
+    unassignedLeads: number
+  } | null>(null)
+  const [rankedCharacteristics, setRankedCharacteristics] = useState('')
+  const [buyingCommittee, setBuyingCommittee] = useState<BuyingCommittee | null>(null)
+  const [rankRequest, setRankRequest] = useState<Record<string, unknown> | null>(null)
+  const [lastRunId, setLastRunId] = useState<string | null>(null)
+  /** True when the stored run holds the whole ranking, so later pages and exports are read from it. */
+  const [runHasAllResults, setRunHasAllResults] = useState(false)
+  const [totalRanked, setTotalRanked] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [explainingRanks, setExplainingRanks] = useState<number[]>([])
+  const [explainErrors, setExplainErrors] = useState<Record<number, string>>({})
   const [lastStats, setLastStats] = useState<{ embeddingCalls?: number } | null>(null)
+  const [lastExcluded, setLastExcluded] = useState<LeadFilterCounts | null>(null)
   const [progressStep, setProgressStep] = useState(0)
   const [optimizeLoading, setOptimizeLoading] = useState(false)
   const [optimizeError, setOptimizeError] = useState<string | null>(null)
-  const [optimizeResult, setOptimizeResult] = useState<{ bestPrompt: string; bestScore: number; iterations: number } | null>(null)
+  const [optimizeObjective, setOptimizeObjective] = useState<EvalObjective>('score')
+  const [optimizeIncludeUnranked, setOptimizeIncludeUnranked] = useState(false)
+  const [optimizeResult, setOptimizeResult] = useState<{
+    bestPrompt: string
+    bestScore: number
+    objective: EvalObjective
+    iterations: number
+    /** Persona version the optimized prompt was saved as. */
+    savedVersion?: number
+  } | null>(null)
+  const [calibrateLoading, setCalibrateLoading] = useState(false)
+  const [calibrateResult, setCalibrateResult] = useState<{
+    fitted: ScoringProfile
+    beforeMetrics: { score: number; recallAt5: number }
+    fittedMetrics: { score: number; recallAt5: number }
+  } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const rankingSectionRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
-    if (results && results.length > 0 && rankingSectionRef.current) {
+    // Saved lead text templates need Supabase; without it only the default template is offered.
+    fetch('/api/lead-text-templates')
+      .then((res) => (res.ok ? res.json() : { templates: [] }))
+      .then((data) => setTemplates(Array.isArray(data.templates) ? data.templates : []))
+      .catch(() => setTemplates([]))
+  }, [])
+
+  useEffect(() => {
+    if ((results?.length || accountResults?.accounts.length) && rankingSectionRef.current) {
       rankingSectionRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' })
     }
-  }, [results])
+  }, [results, accountResults])
 
-  const ingestCsv = (file: File) => {
+  const runIngest = async (state: ChunkedIngestState) => {
     setIngestLoading(true)
     setIngestProgress(0)
+    setIngestStatus(null)
     setError(null)
     setIngestMessage(null)
-    const formData = new FormData()
-    formData.append('csv', file)
-    const xhr = new XMLHttpRequest()
-    xhr.upload.addEventListener('progress', (e) => {
-      if (e.lengthComputable) {
-        setIngestProgress(Math.round((e.loaded / e.total) * 90))
+    setPendingImport(null)
+    try {
+      const result = await runChunkedIngest(state, (p) => {
+        setIngestProgress(p.totalRows > 0 ? Math.round((p.rowsDone / p.totalRows) * 100) : 100)
+        setIngestStatus(p.chunkCount > 1 ? `chunk ${p.chunk}/${p.chunkCount}` : null)
+      })
+      const details = result.updated > 0 || result.skipped > 0 || result.duplicates > 0
+        ? ` (${result.inserted} new, ${result.updated} updated, ${result.skipped} unchanged, ${result.duplicates} duplicate)`
+        : ''
+      setIngestMessage(`Saved ${result.ingested} leads${details}. You can run the ranking below.`)
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      if (msg.includes('Supabase') && msg.includes('not configured')) {
+        setError('Supabase is not configured. Add NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to .env.local.')
+      } else {
+        setError(msg)
       }
-    })
-    xhr.addEventListener('load', () => {
-      setIngestProgress(100)
-      try {
-        const data = JSON.parse(xhr.responseText || '{}')
-        if (xhr.status >= 200 && xhr.status < 300) {
-          setIngestMessage(`Saved ${data.ingested ?? data.totalRows} leads. You can run the ranking below.`)
-        } else {
-          throw new Error(data.error || 'Failed to save CSV')
-        }
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : 'Unknown error'
-        if (msg.includes('Supabase') && msg.includes('not configured')) {
-          setError('Supabase is not configured. Add NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to .env.local.')
-        } else {
-          setError(msg)
-        }
-        setCsvFile(null)
-        if (fileInputRef.current) fileInputRef.current.value = ''
-      } finally {
-        setIngestLoading(false)
-        setIngestProgress(null)
+      if (err instanceof ChunkedIngestError && err.state.nextChunk > 0) {
+        // Some chunks are stored: offer to resume instead of starting over. Old leads are untouched.
+        setPendingImport(err.state)
+      } else {
+        resetFileInput()
       }
-    })
-    xhr.addEventListener('error', () => {
-      setError('Network error. Please try again.')
-      setCsvFile(null)
-      if (fileInputRef.current) fileInputRef.current.value = ''
-      setIngestLoading(false)
-      setIngestProgress(null)
-    })
-    xhr.addEventListener('abort', () => {
+    } finally {
       setIngestLoading(false)
       setIngestProgress(null)
-    })
-    xhr.open('POST', '/api/leads/ingest?clear=1')
-    xhr.send(formData)
+      setIngestStatus(null)
+    }
+  }
+
+  const resetFileInput = () => {
+    setCsvFile(null)
+    setCsvPreview(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
     setCsvFile(file)
     setError(null)
-    ingestCsv(file)
+    setIngestMessage(null)
+    setPendingImport(null)
+    try {
+      const { rows, fields } = await parseCsvFile(file)
+      if (rows.length === 0) throw new Error('CSV contains no data rows')
+      // Nothing is saved yet: the preview step lets the user check the column mapping first.
+      setCsvPreview({ rows, fields })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      resetFileInput()
+    }
+  }
+
+  const confirmIngest = async (mapping: ColumnMapping, keptFields: string[]) => {
+    if (!csvPreview) return
+    const state = prepareChunkedIngest(csvPreview.rows, keptFields, true, mapping, ingestTemplateId || undefined)
+    setCsvPreview(null)
+    // Rank with the template the leads were just embedded with.
+    setRankTemplateId(ingestTemplateId)
+    await runIngest(state)
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -101,26 +202,68 @@ export default function Home() {
       setError('Please describe your company and the candidates you’re looking for')
       return
     }
+    const accounts = { rankBy: accountRankBy, requiredRoles: requiredRoles.split(',') }
+    const accountMode = parseAccountMode(rankMode, accounts, parseBuyingCommittee(characteristics))
+    if ('error' in accountMode) {
+      setError(accountMode.error)
+      return
+    }
     setLoading(true)
     setError(null)
     setResults(null)
+    setAccountResults(null)
+    setExplainErrors({})
     setLastStats(null)
+    setLastExcluded(null)
+    setLastRunId(null)
+    setRunHasAllResults(false)
     setProgressStep(0)
     const progressInterval = setInterval(() => {
       setProgressStep((s) => Math.min(s + 1, 2))
     }, 1500)
+    const request = {
+      characteristics: characteristics.trim(),
+      personaId: personaId || undefined,
+      personaVersion: personaId && personaVersion !== null ? personaVersion : undefined,
+      templateId: rankTemplateId || undefined,
+      scoringProfileId: scoringProfileId || undefined,
+      scoring: scoringProfile,
+      multiVector: multiVector || undefined,
+      includeBelowMinScore,
+      ...(rankMode === 'accounts' && {
+        mode: 'accounts',
+        accounts,
+      }),
+    }
     try {
       const res = await fetch('/api/rank/db', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ characteristics: characteristics.trim() }),
+        body: JSON.stringify({ ...request, pageSize: RANK_PAGE_SIZE }),
       })
       const data = await res.json()
       clearInterval(progressInterval)
       setProgressStep(2)
       if (!res.ok) throw new Error(data.error || 'Error ranking from database')
-      setResults(data.rankedLeads)
+      if (data.accounts) {
+        setAccountResults({
+          accounts: data.accounts,
+          options: data.accountOptions,
+          totalAccounts: data.totalAccounts,
+          unassignedLeads: data.unassignedLeads ?? 0,
+        })
+      } else {
+        setResults(data.rankedLeads)
+      }
+      setRankRequest(request)
+      setTotalRanked(data.totalRanked ?? data.rankedLeads.length)
+      setNextCursor(data.nextCursor ?? null)
+      setRankedCharacteristics(characteristics.trim())
+      setBuyingCommittee(data.buyingCommittee ?? null)
       setLastStats(data.stats ?? null)
+      setLastExcluded(data.excludedByRule ?? null)
+      setLastRunId(data.runId ?? null)
+      setRunHasAllResults(!!data.runId && !data.runResultsTruncated)
     } catch (err) {
       clearInterval(progressInterval)
       const msg = err instanceof Error ? err.message : 'Unknown error'
@@ -145,6 +288,11 @@ export default function Home() {
         body: JSON.stringify({
           initialPrompt: characteristics.trim(),
           maxIterations: 4,
+          scoringProfileId: scoringProfileId || undefined,
+          scoring: scoringProfile,
+          personaId: personaId || undefined,
+          objective: optimizeObjective,
+          includeUnranked: optimizeIncludeUnranked,
         }),
       })
       const data = await res.json()
@@ -152,8 +300,11 @@ export default function Home() {
       setOptimizeResult({
         bestPrompt: data.bestPrompt,
         bestScore: data.bestScore,
+        objective: data.objective ?? optimizeObjective,
         iterations: data.iterations ?? 0,
+        savedVersion: data.personaVersion?.version,
       })
+      if (data.personaVersion) setPersonaRefreshKey((k) => k + 1)
     } catch (err) {
       setOptimizeError(err instanceof Error ? err.message : 'Unknown error')
     } finally {
@@ -161,6 +312,126 @@ export default function Home() {
     }
   }
 
+  /**
+   * A page of the last ranking (all of it without pageSize). Read from its stored run when that holds
+   * the whole ranking, so pages and exports match the table even if leads changed since; otherwise the
+   * same request is ranked again.
+   */
+  const fetchRankingPage = async (pageSize?: number, cursor?: string) => {
+    const res =
+      runHasAllResults && lastRunId
+        ? await fetch(
+            `/api/rank/runs?${new URLSearchParams({
+              id: lastRunId,
+              ...(pageSize ? { pageSize: String(pageSize) } : {}),
+              ...(cursor ? { cursor } : {}),
+            })}`
+          )
+        : await fetch('/api/rank/db', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...rankRequest, pageSize, cursor, saveRun: false }),
+          })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Error loading the ranking')
+    return data
+  }
+
+  /** Next page of the last ranking. */
+  const loadMoreResults = async () => {
+    if (!rankRequest || !nextCursor) return
+    setLoadingMore(true)
+    setError(null)
+    try {
+      const data = await fetchRankingPage(RANK_PAGE_SIZE, nextCursor)
+      if (data.accounts) {
+        setAccountResults((prev) => prev && { ...prev, accounts: [...prev.accounts, ...data.accounts] })
+      } else {
+        setResults((prev) => [...(prev ?? []), ...data.rankedLeads])
+      }
+      setTotalRanked(data.totalRanked ?? totalRanked)
+      setNextCursor(data.nextCursor ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  /** The complete ranking of the last run, for exports (the loaded pages when they are all there). */
+  const fetchAllResults = async (): Promise<RankedLead[]> => {
+    if (!rankRequest || !nextCursor) return results ?? []
+    return (await fetchRankingPage()).rankedLeads
+  }
+
+  /** All accounts of the last run, for the accounts export. */
+  const fetchAllAccounts = async (): Promise<AccountResult<RankedLead>[]> => {
+    if (!rankRequest || !nextCursor) return accountResults?.accounts ?? []
+    return (await fetchRankingPage()).accounts
+  }
+
+  const explainLeads = async (ranks: number[]) => {
+    const items = (results ?? []).filter((r) => ranks.includes(r.rank) && !r.explanation && !explainingRanks.includes(r.rank))
+    if (items.length === 0) return
+    const itemRanks = items.map((item) => item.rank)
+    setExplainingRanks((prev) => [...prev, ...itemRanks])
+    setExplainErrors((prev) => Object.fromEntries(Object.entries(prev).filter(([rank]) => !itemRanks.includes(Number(rank)))))
+    try {
+      const res = await fetch('/api/explain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          characteristics: rankedCharacteristics,
+          leads: items.map(({ lead, score, breakdown }) => ({ lead, score, breakdown })),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Error generating explanations')
+      const byRank = new Map<number, { explanation?: string; error?: string }>(
+        itemRanks.map((rank, i) => [rank, data.explanations?.[i] ?? {}])
+      )
+      setResults((prev) =>
+        prev && prev.map((r) => (byRank.get(r.rank)?.explanation ? { ...r, explanation: byRank.get(r.rank)!.explanation } : r))
+      )
+      const errors = itemRanks.filter((rank) => !byRank.get(rank)?.explanation)
+      if (errors.length > 0) {
+        setExplainErrors((prev) => ({
+          ...prev,
+          ...Object.fromEntries(errors.map((rank) => [rank, byRank.get(rank)?.error || 'Could not generate explanation'])),
+        }))
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error'
+      setExplainErrors((prev) => ({ ...prev, ...Object.fromEntries(itemRanks.map((rank) => [rank, msg])) }))
+    } finally {
+      setExplainingRanks((prev) => prev.filter((rank) => !itemRanks.includes(rank)))
+    }
+  }
+
+  const runCalibration = async () => {
+    setCalibrateLoading(true)
+    setOptimizeError(null)
+    setCalibrateResult(null)
+    try {
+      const res = await fetch('/api/scoring-profiles/calibrate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          characteristics: characteristics.trim(),
+          scoringProfileId: scoringProfileId || undefined,
+          scoring: scoringProfile,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Calibration failed')
+      setCalibrateResult({ fitted: data.fitted, beforeMetrics: data.beforeMetrics, fittedMetrics: data.fittedMetrics })
+    } catch (err) {
+      setOptimizeError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setCalibrateLoading(false)
+    }
+  }
+
   return (
     <div className="container">
       <div className="page-header">
@@ -169,7 +440,9 @@ export default function Home() {
             <Image src={throxyIcon} alt="" width={32} height={32} className="page-title-icon" aria-hidden />
             Throxy Persona Ranker
           </h1>
-          <p className="page-subtitle">Rank leads by how well they match an ideal profile</p>
+          <p className="page-subtitle">
+            Rank leads by how well they match an ideal profile · <Link href="/runs">Run history</Link>
+          </p>
         </div>
         <ThemeToggle />
       </div>
@@ -185,7 +458,7 @@ export default function Home() {
             <span className="form-step-num" aria-hidden>1</span>
             Upload your CSV
           </h2>
-          <p className="form-step-desc">Select a file and it will be saved to the database automatically. Then describe your ideal lead and run the ranking.</p>
+          <p className="form-step-desc">Select a file, check how its columns are read, and save it to the database (large files are uploaded in chunks). Then describe your ideal lead and run the ranking.</p>
           <div className="file-input-wrap">
             <input
               ref={fileInputRef}
@@ -207,7 +480,9 @@ export default function Home() {
               </span>
               <span className="file-input-text">
                 {ingestLoading
-                  ? (ingestProgress !== null && ingestProgress < 100 ? `Uploading… ${ingestProgress}%` : 'Saving…')
+                  ? (ingestProgress !== null && ingestProgress < 100
+                    ? `Saving… ${ingestProgress}%${ingestStatus ? ` (${ingestStatus})` : ''}`
+                    : 'Finishing…')
                   : csvFile
                     ? csvFile.name
                     : 'Choose CSV file'}
@@ -219,6 +494,27 @@ export default function Home() {
               <div className="ingest-progress-bar" style={{ width: `${ingestProgress ?? 0}%` }} />
             </div>
           )}
+          {csvPreview && csvFile && (
+            <CsvPreview
+              key={csvFile.name + csvFile.lastModified}
+              fileName={csvFile.name}
+              rows={csvPreview.rows}
+              fields={csvPreview.fields}
+              templates={templates}
+              templateId={ingestTemplateId}
+              onTemplateChange={setIngestTemplateId}
+              disabled={ingestLoading || loading}
+              onConfirm={confirmIngest}
+              onCancel={resetFileInput}
+            />
+          )}
+          {pendingImport && !ingestLoading && (
+            <div className="form-actions form-actions--inline">
+              <button type="button" className="button button-secondary" onClick={() => runIngest(pendingImport)}>
+                Resume upload ({pendingImport.nextChunk} of {pendingImport.chunks.length} chunks saved)
+              </button>
+            </div>
+          )}
           {ingestMessage && <p className="success">{ingestMessage}</p>}
         </section>
 
@@ -244,14 +540,119 @@ export default function Home() {
               id="characteristics"
               value={characteristics}
               onChange={(e) => setCharacteristics(e.target.value)}
-              placeholder="e.g. We sell outbound tools to B2B. We want VP Sales, Head of SDR; avoid HR and CFO; prefer companies that sell to enterprise."
+              placeholder={'e.g. We sell outbound tools to B2B. We want VP Sales, Head of SDR; avoid HR and CFO; prefer companies that sell to enterprise.\n\nSegment 1-50:\nTarget: Founder, CEO\nSegment 51-200:\nTarget: VP of Sales, Head of SDR'}
               disabled={loading}
               aria-describedby="characteristics-hint"
             />
           </div>
           <p id="characteristics-hint" className="form-hint">
-            Describe who you want to reach in your own words. You can use Target / Avoid / Prefer or write freely; run &quot;Optimize prompt&quot; to have the model structure and refine it.
+            Describe who you want to reach in your own words. You can use Target / Avoid / Prefer or write freely; run &quot;Optimize prompt&quot; to have the model structure and refine it. Add a Filters section for hard rules, e.g. &quot;Filters: Title excludes: CFO, CTO, HR. Employee range: 51-200&quot;. To use different personas per company size, add blocks such as &quot;Segment 51-200:&quot; with their own Target / Avoid / Prefer. List the roles each account should have in a Committee section, e.g. &quot;Committee: Head of Sales, RevOps&quot;.
           </p>
+          <PersonaEditor
+            personaId={personaId}
+            personaVersion={personaVersion}
+            characteristics={characteristics}
+            onChange={(id, version, text) => {
+              setPersonaId(id)
+              setPersonaVersion(version)
+              setCharacteristics(text)
+            }}
+            refreshKey={personaRefreshKey}
+            disabled={loading}
+          />
+          {templates.length > 0 && (
+            <div className="form-label-row">
+              <label htmlFor="rank-template" className="form-label form-label--inline">Lead text template</label>
+              <select
+                id="rank-template"
+                className="ranking-top-per-company-select"
+                value={rankTemplateId}
+                onChange={(e) => setRankTemplateId(e.target.value)}
+                disabled={loading}
+              >
+                <option value="">Default</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="form-label-row">
+            <label htmlFor="multi-vector" className="form-label form-label--inline">Section matching</label>
+            <select
+              id="multi-vector"
+              className="ranking-top-per-company-select"
+              value={multiVector}
+              onChange={(e) => setMultiVector(e.target.value as ClauseAggregation | '')}
+              disabled={loading}
+              title="Per clause: each line, bullet or list item of Target / Avoid / Prefer is embedded separately"
+            >
+              <option value="">Whole section</option>
+              <option value="max">Per clause (best match)</option>
+              <option value="softmax">Per clause (soft-max)</option>
+            </select>
+          </div>
+          <label className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={includeBelowMinScore}
+              onChange={(e) => setIncludeBelowMinScore(e.target.checked)}
+              disabled={loading}
+            />
+            Show leads below the minimum score
+          </label>
+          <div className="form-label-row">
+            <label htmlFor="rank-mode" className="form-label form-label--inline">Rank by</label>
+            <select
+              id="rank-mode"
+              className="ranking-top-per-company-select"
+              value={rankMode}
+              onChange={(e) => setRankMode(e.target.value as 'leads' | 'accounts')}
+              disabled={loading}
+              title="Accounts: leads grouped by company, companies ranked by their contacts"
+            >
+              <option value="leads">Leads</option>
+              <option value="accounts">Accounts</option>
+            </select>
+            {rankMode === 'accounts' && (
+              <select
+                id="account-rank-by"
+                className="ranking-top-per-company-select"
+                value={accountRankBy}
+                onChange={(e) => setAccountRankBy(e.target.value as AccountRankBy)}
+                disabled={loading}
+                aria-label="Account score"
+              >
+                {ACCOUNT_RANK_BY_IDS.map((id) => (
+                  <option key={id} value={id}>{ACCOUNT_RANK_BY[id].label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {rankMode === 'accounts' && (
+            <div className="form-label-row">
+              <label htmlFor="required-roles" className="form-label form-label--inline">Required roles</label>
+              <input
+                id="required-roles"
+                type="text"
+                className="ranking-top-per-company-select"
+                value={requiredRoles}
+                onChange={(e) => setRequiredRoles(e.target.value)}
+                placeholder="e.g. VP Sales, Head of SDR"
+                disabled={loading}
+                title="Comma-separated roles, matched in contact titles; empty uses the profile's Committee section"
+              />
+            </div>
+          )}
+          <ScoringProfileEditor
+            profileId={scoringProfileId}
+            profile={scoringProfile}
+            onChange={(id, profile) => {
+              setScoringProfileId(id)
+              setScoringProfile(profile)
+            }}
+            disabled={loading}
+          />
         </section>
 
         <section className="form-step form-step--optimize">
@@ -260,9 +661,33 @@ export default function Home() {
             Optimize prompt (evaluation set)
           </h2>
           <p className="form-step-desc">
-            Use 50 pre-ranked leads to automatically improve your persona text. An AI agent will propose prompt changes and we measure agreement with the gold ranking (Spearman). Optional.
+            Use 50 pre-ranked leads to automatically improve your persona text. An AI agent will propose prompt changes and we measure agreement with the gold ranking with the chosen metric (Spearman by default). You can also fit the scoring weights to the same leads (no AI agent needed). Optional.
           </p>
           {optimizeError && <p className="error-inline">{optimizeError}</p>}
+          <div className="form-label-row">
+            <label htmlFor="optimize-objective" className="form-label form-label--inline">Optimize for</label>
+            <select
+              id="optimize-objective"
+              className="ranking-top-per-company-select"
+              value={optimizeObjective}
+              onChange={(e) => setOptimizeObjective(e.target.value as EvalObjective)}
+              disabled={optimizeLoading}
+              title="Evaluation metric the optimizer maximizes"
+            >
+              {EVAL_OBJECTIVE_IDS.map((id) => (
+                <option key={id} value={id}>{EVAL_OBJECTIVES[id].label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={optimizeIncludeUnranked}
+              onChange={(e) => setOptimizeIncludeUnranked(e.target.checked)}
+              disabled={optimizeLoading}
+            />
+            Include unranked evaluation leads (tied last within their company)
+          </label>
           <div className="form-actions form-actions--inline">
             <button
               type="button"
@@ -272,12 +697,47 @@ export default function Home() {
             >
               {optimizeLoading ? 'Optimizing…' : 'Run prompt optimization'}
             </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={runCalibration}
+              disabled={calibrateLoading || optimizeLoading || loading || !characteristics.trim()}
+            >
+              {calibrateLoading ? 'Calibrating…' : 'Calibrate scoring weights'}
+            </button>
           </div>
+          {calibrateResult && (
+            <div className="optimize-result">
+              <p className="optimize-score">
+                Spearman <strong>{calibrateResult.beforeMetrics.score.toFixed(3)}</strong> →{' '}
+                <strong>{calibrateResult.fittedMetrics.score.toFixed(3)}</strong>, recall@5{' '}
+                <strong>{calibrateResult.beforeMetrics.recallAt5.toFixed(2)}</strong> →{' '}
+                <strong>{calibrateResult.fittedMetrics.recallAt5.toFixed(2)}</strong>
+              </p>
+              <p className="form-hint">
+                Avoid penalty {calibrateResult.fitted.avoidPenaltyWeight}, prefer bonus {calibrateResult.fitted.preferBonusWeight},
+                avoid threshold {calibrateResult.fitted.avoidSimilarityThreshold}. Fitted on the evaluation set only; save them as a scoring profile to reuse.
+              </p>
+              <button
+                type="button"
+                className="button button--primary"
+                onClick={() => {
+                  setScoringProfile(calibrateResult!.fitted)
+                  setCalibrateResult(null)
+                }}
+              >
+                Use these weights
+              </button>
+            </div>
+          )}
           {optimizeResult && (
             <div className="optimize-result">
               <p className="optimize-score">
-                Best Spearman correlation: <strong>{optimizeResult.bestScore.toFixed(3)}</strong> (after {optimizeResult.iterations} iterations)
+                Best {EVAL_OBJECTIVES[optimizeResult.objective].label}: <strong>{optimizeResult.bestScore.toFixed(3)}</strong> (after {optimizeResult.iterations} iterations)
               </p>
+              {optimizeResult.savedVersion !== undefined && (
+                <p className="form-hint">Saved as version {optimizeResult.savedVersion} of the selected persona.</p>
+              )}
               <div className="optimize-prompt-wrap">
                 <label className="form-label">Optimized prompt</label>
                 <textarea
@@ -292,6 +752,7 @@ export default function Home() {
                 className="button button--primary"
                 onClick={() => {
                   setCharacteristics(optimizeResult!.bestPrompt)
+                  if (optimizeResult!.savedVersion !== undefined) setPersonaVersion(optimizeResult!.savedVersion)
                   setOptimizeResult(null)
                 }}
               >
@@ -299,6 +760,15 @@ export default function Home() {
               </button>
             </div>
           )}
+          <details className="run-profile">
+            <summary>Compare profiles (A/B)</summary>
+            <EvalComparison
+              characteristics={characteristics}
+              scoringProfileId={scoringProfileId}
+              scoringProfile={scoringProfile}
+              disabled={loading || optimizeLoading}
+            />
+          </details>
         </section>
         </div>
 
@@ -322,9 +792,43 @@ export default function Home() {
         </div>
       )}
 
+      {lastRunId && (accountResults || results) && (
+        <p className="form-hint">
+          Saved to the <Link href="/runs">run history</Link>.
+        </p>
+      )}
+
+      {accountResults && (
+        <div ref={rankingSectionRef}>
+          <AccountRanking
+            accounts={accountResults.accounts}
+            options={accountResults.options}
+            stats={lastStats ?? undefined}
+            excludedByRule={lastExcluded ?? undefined}
+            totalAccounts={accountResults.totalAccounts}
+            unassignedLeads={accountResults.unassignedLeads}
+            onLoadMore={nextCursor ? loadMoreResults : undefined}
+            loadingMore={loadingMore}
+            onFetchAll={fetchAllAccounts}
+          />
+        </div>
+      )}
+
       {results && (
         <div ref={rankingSectionRef}>
-          <LeadRanking results={results} stats={lastStats ?? undefined} />
+          <LeadRanking
+            results={results}
+            stats={lastStats ?? undefined}
+            excludedByRule={lastExcluded ?? undefined}
+            totalRanked={totalRanked}
+            onLoadMore={nextCursor ? loadMoreResults : undefined}
+            loadingMore={loadingMore}
+            onFetchAll={fetchAllResults}
+            onExplain={explainLeads}
+            explainingRanks={explainingRanks}
+            explainErrors={explainErrors}
+            buyingCommittee={buyingCommittee ?? undefined}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,385 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import LeadRanking from '@/components/LeadRanking'
+import AccountRanking from '@/components/AccountRanking'
+import ThemeToggle from '@/components/ThemeToggle'
+import RunDiff, { type DiffRunInfo } from '@/components/RunDiff'
+import type { AccountContact, AccountOptions, AccountResult } from '@/lib/accounts'
+import type { BuyingCommittee } from '@/lib/buying-committee'
+import type { RankRun, RankRunLead, RankRunSummary } from '@/lib/rank-runs'
+import { DEFAULT_DIFF_TOP_N, type RankingDiff } from '@/lib/ranking-diff'
+import throxyIcon from '../apple-touch-icon.png'
+
+/** Leads (or accounts) per page of a reopened run. */
+const RUN_PAGE_SIZE = 50
+
+/** A reopened run and the loaded pages of its stored ranking. */
+interface OpenRun {
+  run: Omit<RankRun, 'lead_ids' | 'results'> & { leadCount: number }
+  rankedLeads: RankRunLead[] | null
+  accounts: AccountResult<AccountContact>[] | null
+  accountOptions?: AccountOptions
+  totalAccounts?: number
+  unassignedLeads?: number
+  totalRanked: number
+  nextCursor: string | null
+  buyingCommittee?: BuyingCommittee
+}
+
+function personaLabel(run: RankRunSummary): string {
+  return run.persona_name ? `${run.persona_name} v${run.persona_version}` : 'Unsaved profile'
+}
+
+async function fetchRun(id: string, cursor?: string, pageSize: number | null = RUN_PAGE_SIZE) {
+  const params = new URLSearchParams({ id })
+  if (pageSize !== null) params.set('pageSize', String(pageSize))
+  if (cursor) params.set('cursor', cursor)
+  const res = await fetch(`/api/rank/runs?${params}`)
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Error loading the ranking run')
+  return data
+}
+
+/**
+ * Run history: every ranking of stored leads, newest first. A run reopens with its results table
+ * and exports, and can be re-run with the same request against the current leads. Two runs can be
+ * compared, including a run and another profile ranked on the same leads.
+ */
+export default function RunsPage() {
+  const [runs, setRuns] = useState<RankRunSummary[] | null>(null)
+  const [open, setOpen] = useState<OpenRun | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [rerunning, setRerunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [comparison, setComparison] = useState<{ a: DiffRunInfo; b: DiffRunInfo; diff: RankingDiff } | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [otherProfile, setOtherProfile] = useState('')
+
+  const loadRuns = async () => {
+    try {
+      const res = await fetch('/api/rank/runs')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Error loading ranking runs')
+      setRuns(data.runs ?? [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      setRuns([])
+    }
+  }
+
+  useEffect(() => {
+    loadRuns()
+  }, [])
+
+  /** Diff of run a (before) and run b (after). */
+  const compareRuns = async (a: string, b: string, topN = comparison?.diff.topN ?? DEFAULT_DIFF_TOP_N) => {
+    setComparing(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ a, b, topN: String(topN) })
+      const res = await fetch(`/api/rank/runs/diff?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Error comparing the runs')
+      setComparison({ a: data.a, b: data.b, diff: data.diff })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  /** The two selected runs compared, the older one as "before". */
+  const compareSelected = () => {
+    const [first, second] = compareIds
+      .map((id) => runs?.find((r) => r.id === id))
+      .filter((r): r is RankRunSummary => !!r)
+      .sort((x, y) => x.created_at.localeCompare(y.created_at))
+    if (first && second) compareRuns(first.id, second.id)
+  }
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)))
+  }
+
+  const openRun = async (id: string) => {
+    setError(null)
+    try {
+      const data = await fetchRun(id)
+      setOtherProfile(data.run.characteristics)
+      setOpen({
+        run: data.run,
+        rankedLeads: data.rankedLeads ?? null,
+        accounts: data.accounts ?? null,
+        accountOptions: data.accountOptions,
+        totalAccounts: data.totalAccounts,
+        unassignedLeads: data.unassignedLeads,
+        totalRanked: data.totalRanked,
+        nextCursor: data.nextCursor ?? null,
+        buyingCommittee: data.buyingCommittee,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const loadMore = async () => {
+    if (!open?.nextCursor) return
+    setLoadingMore(true)
+    try {
+      const data = await fetchRun(open.run.id, open.nextCursor)
+      setOpen((prev) =>
+        prev && {
+          ...prev,
+          rankedLeads: prev.rankedLeads && [...prev.rankedLeads, ...(data.rankedLeads ?? [])],
+          accounts: prev.accounts && [...prev.accounts, ...(data.accounts ?? [])],
+          nextCursor: data.nextCursor ?? null,
+        }
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  /** The run's full stored ranking, for exports. */
+  const fetchAll = async () => (open?.nextCursor ? fetchRun(open.run.id, undefined, null) : null)
+
+  /** Ranks the run's request again against the leads in the database now; opens the new run. */
+  const rerun = async () => {
+    if (!open) return
+    setRerunning(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/rank/db', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...open.run.request, leadsFromRun: undefined, rerunOf: open.run.id, pageSize: RUN_PAGE_SIZE }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Error re-running the ranking')
+      if (!data.runId) throw new Error('The ranking ran but could not be stored (apply supabase/migrations/014_rank_runs.sql).')
+      await loadRuns()
+      await openRun(data.runId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setRerunning(false)
+    }
+  }
+
+  /** Ranks the edited profile on the open run's leads (same options) and compares it with the run. */
+  const rankOtherProfile = async () => {
+    if (!open || !otherProfile.trim()) return
+    setComparing(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/rank/db', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...open.run.request,
+          characteristics: otherProfile.trim(),
+          personaId: undefined,
+          personaVersion: undefined,
+          leadsFromRun: open.run.id,
+          pageSize: 1,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Error ranking the profile')
+      if (!data.runId) throw new Error('The ranking ran but could not be stored (apply supabase/migrations/014_rank_runs.sql).')
+      await loadRuns()
+      await compareRuns(open.run.id, data.runId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const removeRun = async (id: string) => {
+    if (!window.confirm('Delete this ranking run?')) return
+    try {
+      const res = await fetch(`/api/rank/runs?id=${encodeURIComponent(id)}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Error deleting the ranking run')
+      setRuns((prev) => prev && prev.filter((r) => r.id !== id))
+      setCompareIds((prev) => prev.filter((x) => x !== id))
+      if (open?.run.id === id) setOpen(null)
+      if (comparison && (comparison.a.id === id || comparison.b.id === id)) setComparison(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const run = open?.run
+  const rerunSource = run?.rerun_of ? runs?.find((r) => r.id === run.rerun_of) : undefined
+
+  return (
+    <div className="container">
+      <div className="page-header">
+        <div>
+          <h1 className="page-title">
+            <Image src={throxyIcon} alt="" width={32} height={32} className="page-title-icon" aria-hidden />
+            Run history
+          </h1>
+          <p className="page-subtitle">
+            Past rankings of stored leads · <Link href="/">Back to ranking</Link>
+          </p>
+        </div>
+        <ThemeToggle />
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {runs === null && <p className="form-hint">Loading runs…</p>}
+      {runs !== null && runs.length === 0 && !error && (
+        <p className="form-hint">No runs yet. Rankings of stored leads are saved here.</p>
+      )}
+      {runs !== null && runs.length > 0 && (
+        <div className="form-actions form-actions--inline">
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={compareSelected}
+            disabled={compareIds.length !== 2 || comparing}
+            title="Tick two runs to compare them"
+          >
+            {comparing ? 'Comparing…' : `Compare selected (${compareIds.length}/2)`}
+          </button>
+        </div>
+      )}
+      {runs !== null && runs.length > 0 && (
+        <div className="ranking-table-wrap">
+          <table className="ranking-table runs-table">
+            <thead>
+              <tr>
+                <th aria-label="Compare" />
+                <th>Date</th>
+                <th>Persona</th>
+                <th>Model</th>
+                <th>Mode</th>
+                <th>Ranked</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((r) => (
+                <tr key={r.id} className={open?.run.id === r.id ? 'runs-row--open' : undefined}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(r.id)}
+                      onChange={() => toggleCompare(r.id)}
+                      aria-label="Select for comparison"
+                    />
+                  </td>
+                  <td>{new Date(r.created_at).toLocaleString()}</td>
+                  <td>{personaLabel(r)}</td>
+                  <td>{r.embedding_provider}: {r.embedding_model}</td>
+                  <td>{r.mode === 'accounts' ? 'Accounts' : 'Leads'}</td>
+                  <td>{r.total_ranked} of {r.total_processed}</td>
+                  <td className="runs-actions">
+                    <button type="button" className="form-link-button" onClick={() => openRun(r.id)}>
+                      Open
+                    </button>
+                    <button type="button" className="form-link-button" onClick={() => removeRun(r.id)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {comparison && (
+        <RunDiff
+          a={comparison.a}
+          b={comparison.b}
+          diff={comparison.diff}
+          onTopNChange={(topN) => compareRuns(comparison.a.id, comparison.b.id, topN)}
+        />
+      )}
+
+      {open && run && (
+        <section className="run-detail">
+          <div className="run-detail-header">
+            <h2 className="ranking-title">Run of {new Date(run.created_at).toLocaleString()}</h2>
+            <button type="button" className="button button-secondary" onClick={rerun} disabled={rerunning}>
+              {rerunning ? 'Re-running…' : 'Re-run with current leads'}
+            </button>
+          </div>
+          <p className="form-hint">
+            {personaLabel(run)} · scoring profile {run.scoring_profile.name}
+            {run.scoring_profile.overridden ? ' (edited)' : ''} · lead text template {run.lead_text_template.name} ·{' '}
+            {run.embedding_provider}: {run.embedding_model} ({run.search_mode}) · {run.leadCount} leads scored
+            {run.rerun_of && (
+              <>
+                {' '}· re-run of{' '}
+                <button type="button" className="form-link-button" onClick={() => openRun(run.rerun_of!)}>
+                  {rerunSource ? new Date(rerunSource.created_at).toLocaleString() : 'an earlier run'}
+                </button>
+              </>
+            )}
+          </p>
+          {run.results_truncated && (
+            <p className="form-hint">
+              Only the top {open.totalRanked} of {run.total_ranked} ranked leads were stored.
+            </p>
+          )}
+          <details className="run-profile">
+            <summary>Profile</summary>
+            <pre>{run.characteristics}</pre>
+          </details>
+          <details className="run-profile">
+            <summary>Compare another profile on these leads</summary>
+            <textarea
+              className="textarea-wrap"
+              value={otherProfile}
+              onChange={(e) => setOtherProfile(e.target.value)}
+              rows={8}
+              aria-label="Profile to rank on this run's leads"
+            />
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={rankOtherProfile}
+              disabled={comparing || !otherProfile.trim()}
+            >
+              {comparing ? 'Ranking…' : 'Rank and compare'}
+            </button>
+          </details>
+
+          {open.accounts && open.accountOptions && (
+            <AccountRanking
+              accounts={open.accounts}
+              options={open.accountOptions}
+              totalAccounts={open.totalAccounts}
+              unassignedLeads={open.unassignedLeads}
+              onLoadMore={open.nextCursor ? loadMore : undefined}
+              loadingMore={loadingMore}
+              onFetchAll={async () => (await fetchAll())?.accounts ?? open.accounts ?? []}
+            />
+          )}
+          {open.rankedLeads && (
+            <LeadRanking
+              results={open.rankedLeads}
+              totalRanked={open.totalRanked}
+              onLoadMore={open.nextCursor ? loadMore : undefined}
+              loadingMore={loadingMore}
+              onFetchAll={async () => (await fetchAll())?.rankedLeads ?? open.rankedLeads ?? []}
+              buyingCommittee={open.buyingCommittee}
+            />
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
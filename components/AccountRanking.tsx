@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, Fragment } from 'react'
+import { rankedAccountsToCsv } from '@/lib/csv'
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import { ACCOUNT_RANK_BY, type AccountOptions, type AccountResult } from '@/lib/accounts'
+import { LEAD_FILTER_RULES, LEAD_FILTER_RULE_IDS, type LeadFilterCounts } from '@/lib/lead-filters'
+import type { ScoreBreakdown } from '@/lib/scoring'
+
+interface AccountContact {
+  lead: Record<string, string>
+  score: number
+  rank: number
+  breakdown?: ScoreBreakdown
+}
+
+interface AccountRankingProps {
+  accounts: AccountResult<AccountContact>[]
+  /** Options the accounts were ranked with (echoed by the rank API). */
+  options: AccountOptions
+  stats?: { embeddingCalls?: number }
+  excludedByRule?: LeadFilterCounts
+  /** Number of accounts in the full ranking when accounts is a page of it. */
+  totalAccounts?: number
+  /** Ranked leads without company or domain (not in any account). */
+  unassignedLeads?: number
+  /** Loads the next page of accounts; shown as "Load more" when set. */
+  onLoadMore?: () => void
+  loadingMore?: boolean
+  /** Fetches all accounts for the export (default: the loaded accounts). */
+  onFetchAll?: () => Promise<AccountResult<AccountContact>[]>
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+/**
+ * Accounts ranked by their contacts (see lib/accounts.ts); each row expands to the account's
+ * contacts in ranking order.
+ */
+export default function AccountRanking({
+  accounts,
+  options,
+  stats,
+  excludedByRule,
+  totalAccounts,
+  unassignedLeads = 0,
+  onLoadMore,
+  loadingMore = false,
+  onFetchAll,
+}: AccountRankingProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const hasCoverage = accounts.some((account) => account.coverage !== null)
+
+  const toggle = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handleRowKeyDown = (key: string) => (e: React.KeyboardEvent<HTMLTableRowElement>) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      toggle(key)
+    }
+  }
+
+  const handleExportCsv = async () => {
+    setExporting(true)
+    setExportError(null)
+    try {
+      const csv = rankedAccountsToCsv(onFetchAll ? await onFetchAll() : accounts)
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `lros-accounts-${new Date().toISOString().slice(0, 10)}.csv`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (accounts.length === 0) {
+    return <div className="error">No accounts found (ranked leads have no company or domain)</div>
+  }
+
+  return (
+    <section className="ranking-section">
+      <div className="ranking-header">
+        <h2 className="ranking-title">Top accounts by fit</h2>
+        <div className="ranking-header-actions">
+          {stats?.embeddingCalls != null && (
+            <span className="ranking-stats" title="Embedding API calls in last run">
+              {stats.embeddingCalls} API call{stats.embeddingCalls !== 1 ? 's' : ''}
+            </span>
+          )}
+          <span className="ranking-meta" title={`Accounts ranked by ${ACCOUNT_RANK_BY[options.rankBy].label.toLowerCase()}`}>
+            {totalAccounts !== undefined && totalAccounts > accounts.length
+              ? `${accounts.length} of ${totalAccounts} accounts shown`
+              : `${accounts.length} account${accounts.length !== 1 ? 's' : ''} ranked`}
+          </span>
+          {unassignedLeads > 0 && (
+            <span className="ranking-meta" title="Ranked leads without a company or domain">
+              {unassignedLeads} lead{unassignedLeads !== 1 ? 's' : ''} without company
+            </span>
+          )}
+          {excludedByRule && LEAD_FILTER_RULE_IDS.some((rule) => excludedByRule[rule]) && (
+            <span className="ranking-meta" title="Leads removed by hard filters before scoring">
+              {LEAD_FILTER_RULE_IDS.filter((rule) => excludedByRule[rule])
+                .map((rule) => `${excludedByRule[rule]} excluded by ${LEAD_FILTER_RULES[rule].label.toLowerCase()}`)
+                .join(' · ')}
+            </span>
+          )}
+          <button type="button" className="button-secondary" onClick={handleExportCsv} disabled={exporting}>
+            Export accounts
+          </button>
+        </div>
+      </div>
+
+      <div className="ranking-table-wrap">
+        <table className="ranking-table">
+          <thead>
+            <tr>
+              <th>Rank</th>
+              <th>Company</th>
+              <th>Contacts</th>
+              <th>Best</th>
+              <th>Top {options.topK} mean</th>
+              {hasCoverage && <th>Coverage</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {accounts.map((account) => {
+              const isExpanded = expanded.has(account.key)
+              return (
+                <Fragment key={account.key}>
+                  <tr
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => toggle(account.key)}
+                    onKeyDown={handleRowKeyDown(account.key)}
+                    className={`ranking-table-row-clickable ${isExpanded ? 'ranking-table-row-expanded' : ''}`}
+                    title={isExpanded ? 'Hide contacts' : 'View contacts'}
+                  >
+                    <td className="ranking-table-rank">{account.rank}</td>
+                    <td>
+                      {account.company}
+                      {account.domain && account.domain !== account.company && (
+                        <span className="ranking-meta"> {account.domain}</span>
+                      )}
+                    </td>
+                    <td>{account.contacts.length}</td>
+                    <td className={options.rankBy === 'best' ? 'ranking-table-score' : undefined}>
+                      {formatPercent(account.bestScore)}
+                    </td>
+                    <td className={options.rankBy === 'topKMean' ? 'ranking-table-score' : undefined}>
+                      {formatPercent(account.topKMean)}
+                    </td>
+                    {hasCoverage && (
+                      <td
+                        className={options.rankBy === 'coverage' ? 'ranking-table-score' : undefined}
+                        title={account.missingRoles.length > 0 ? `Missing: ${account.missingRoles.join(', ')}` : 'All required roles covered'}
+                      >
+                        {account.coveredRoles.length}/{account.coveredRoles.length + account.missingRoles.length}
+                        {account.missingKeyRole && <span className="ranking-breakdown-cut"> Missing key role</span>}
+                      </td>
+                    )}
+                  </tr>
+                  <tr className="ranking-table-detail-row">
+                    <td colSpan={hasCoverage ? 6 : 5} className="ranking-table-detail-cell">
+                      <div
+                        className={`ranking-table-detail-inner ${isExpanded ? 'is-expanded' : ''}`}
+                        aria-hidden={!isExpanded}
+                      >
+                        {account.missingRoles.length > 0 && (
+                          <p className="ranking-segment">Missing roles: {account.missingRoles.join(', ')}</p>
+                        )}
+                        <table className="account-contacts">
+                          <tbody>
+                            {account.contacts.map((contact) => (
+                              <tr key={contact.rank} className={contact.breakdown?.belowMinScore ? 'ranking-table-row-below-min' : undefined}>
+                                <td className="ranking-table-rank">#{contact.rank}</td>
+                                <td>{getLeadName(contact.lead) || '—'}</td>
+                                <td>{getLeadField(contact.lead, 'title') || '—'}</td>
+                                <td className="ranking-table-score">{formatPercent(contact.score)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </td>
+                  </tr>
+                </Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {exportError && <p className="error-inline">{exportError}</p>}
+      {onLoadMore && (
+        <div className="ranking-load-more">
+          <button type="button" className="button-secondary" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
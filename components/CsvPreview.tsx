@@ -0,0 +1,297 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  LEAD_FIELDS,
+  LEAD_FIELD_IDS,
+  MAPPING_PRESETS,
+  applyColumnMapping,
+  detectColumnMapping,
+  type ColumnMapping,
+  type LeadField,
+} from '@/lib/lead-schema'
+import { leadToText, type LeadTextTemplate } from '@/lib/lead-text'
+
+/** What to do with a CSV column: map it to a lead field, keep it as extra text, or drop it. */
+type ColumnChoice = LeadField | 'extra' | 'drop'
+
+interface SavedMapping {
+  id: string
+  name: string
+  mapping: ColumnMapping
+}
+
+/** A saved lead text template (the default template is always available and not listed). */
+export interface LeadTextTemplateOption {
+  id: string
+  name: string
+  template: LeadTextTemplate
+}
+
+interface CsvPreviewProps {
+  fileName: string
+  rows: Record<string, string>[]
+  fields: string[]
+  templates: LeadTextTemplateOption[]
+  /** Selected template id ('' = default). */
+  templateId: string
+  onTemplateChange: (templateId: string) => void
+  disabled?: boolean
+  onConfirm: (mapping: ColumnMapping, keptFields: string[]) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 5
+
+function choicesFromMapping(fields: string[], mapping: ColumnMapping): Record<string, ColumnChoice> {
+  const choices: Record<string, ColumnChoice> = {}
+  fields.forEach((f) => { choices[f] = 'extra' })
+  LEAD_FIELD_IDS.forEach((field) => {
+    const column = mapping[field]
+    if (column && column in choices) choices[column] = field
+  })
+  return choices
+}
+
+function mappingFromChoices(choices: Record<string, ColumnChoice>): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  Object.entries(choices).forEach(([column, choice]) => {
+    if (choice !== 'extra' && choice !== 'drop') mapping[choice] = column
+  })
+  return mapping
+}
+
+/**
+ * Upload preview: first rows of the CSV, the detected column → lead field mapping (editable,
+ * columns can be dropped), and the exact text that will be embedded for a sample row.
+ */
+export default function CsvPreview({
+  fileName,
+  rows,
+  fields,
+  templates,
+  templateId,
+  onTemplateChange,
+  disabled,
+  onConfirm,
+  onCancel,
+}: CsvPreviewProps) {
+  const detected = useMemo(() => detectColumnMapping(fields), [fields])
+  const [choices, setChoices] = useState<Record<string, ColumnChoice>>(() => choicesFromMapping(fields, detected.mapping))
+  const [sampleIndex, setSampleIndex] = useState(0)
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([])
+  const [mappingName, setMappingName] = useState('')
+  const [mappingMessage, setMappingMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Saved mappings need Supabase; without it the preview simply offers none.
+    fetch('/api/column-mappings')
+      .then((res) => (res.ok ? res.json() : { mappings: [] }))
+      .then((data) => setSavedMappings(Array.isArray(data.mappings) ? data.mappings : []))
+      .catch(() => setSavedMappings([]))
+  }, [])
+
+  const mapping = useMemo(() => mappingFromChoices(choices), [choices])
+  const keptFields = useMemo(() => fields.filter((f) => choices[f] !== 'drop'), [fields, choices])
+  const previewRows = rows.slice(0, PREVIEW_ROWS)
+  const sampleText = useMemo(() => {
+    const row = rows[sampleIndex]
+    if (!row) return ''
+    const kept: Record<string, string> = {}
+    keptFields.forEach((f) => { kept[f] = row[f] ?? '' })
+    const template = templates.find((t) => t.id === templateId)?.template
+    return leadToText(applyColumnMapping(kept, mapping), template)
+  }, [rows, sampleIndex, keptFields, mapping, templates, templateId])
+
+  const presetLabel = MAPPING_PRESETS.find((p) => p.id === detected.preset)?.label
+  const missing = (['title', 'company'] as LeadField[]).filter((f) => !mapping[f])
+
+  const setChoice = (column: string, choice: ColumnChoice) => {
+    setChoices((prev) => {
+      const next = { ...prev }
+      // A lead field comes from one column only: unassign it elsewhere.
+      if (choice !== 'extra' && choice !== 'drop') {
+        Object.keys(next).forEach((c) => { if (next[c] === choice) next[c] = 'extra' })
+      }
+      next[column] = choice
+      return next
+    })
+    setMappingMessage(null)
+  }
+
+  const applySaved = (id: string) => {
+    const saved = savedMappings.find((m) => m.id === id)
+    if (!saved) return
+    setChoices(choicesFromMapping(fields, saved.mapping))
+    setMappingMessage(`Applied mapping “${saved.name}”.`)
+  }
+
+  const saveMapping = async () => {
+    const name = mappingName.trim()
+    if (!name) return
+    try {
+      const res = await fetch('/api/column-mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mapping }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`)
+      const saved = data.mapping as SavedMapping
+      setSavedMappings((prev) => [...prev.filter((m) => m.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setMappingName('')
+      setMappingMessage(`Saved mapping “${saved.name}”.`)
+    } catch (err) {
+      setMappingMessage(err instanceof Error ? err.message : 'Failed to save mapping')
+    }
+  }
+
+  return (
+    <div className="csv-preview">
+      <p className="form-hint">
+        <strong>{fileName}</strong>: {rows.length} rows, {fields.length} columns
+        {presetLabel ? ` · detected ${presetLabel} export` : ''}. Check how columns are read before saving.
+      </p>
+
+      <div className="ranking-table-wrap">
+        <table className="ranking-table csv-preview-table">
+          <thead>
+            <tr>
+              <th scope="col">Column</th>
+              <th scope="col">Use as</th>
+              <th scope="col">Sample values</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((column) => (
+              <tr key={column} className={choices[column] === 'drop' ? 'csv-preview-dropped' : undefined}>
+                <td>{column}</td>
+                <td>
+                  <select
+                    className="ranking-top-per-company-select"
+                    value={choices[column]}
+                    onChange={(e) => setChoice(column, e.target.value as ColumnChoice)}
+                    disabled={disabled}
+                    aria-label={`Use column ${column} as`}
+                  >
+                    {LEAD_FIELD_IDS.map((field) => (
+                      <option key={field} value={field}>{LEAD_FIELDS[field].label}</option>
+                    ))}
+                    <option value="extra">Extra (kept as is)</option>
+                    <option value="drop">Drop column</option>
+                  </select>
+                </td>
+                <td className="csv-preview-samples">
+                  {previewRows.map((r) => r[column]).filter((v) => v && v.trim()).slice(0, 3).join(' · ') || '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="ranking-table-wrap">
+        <table className="ranking-table csv-preview-table">
+          <thead>
+            <tr>
+              {keptFields.map((column) => {
+                const choice = choices[column]
+                return (
+                  <th key={column} scope="col">
+                    {choice !== 'extra' && choice !== 'drop' ? LEAD_FIELDS[choice].label : column}
+                  </th>
+                )
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, i) => (
+              <tr key={i}>
+                {keptFields.map((column) => (
+                  <td key={column} className="csv-preview-samples">{row[column] || '—'}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="error-inline">
+          No column mapped to {missing.map((f) => LEAD_FIELDS[f].label).join(' or ')}; ranking works best with both.
+        </p>
+      )}
+
+      <div className="form-label-row">
+        <label htmlFor="csv-preview-sample" className="form-label form-label--inline">Text that will be embedded</label>
+        <select
+          id="csv-preview-sample"
+          className="ranking-top-per-company-select"
+          value={sampleIndex}
+          onChange={(e) => setSampleIndex(Number(e.target.value))}
+        >
+          {previewRows.map((_, i) => (
+            <option key={i} value={i}>Row {i + 1}</option>
+          ))}
+        </select>
+      </div>
+      <pre className="csv-preview-text">{sampleText}</pre>
+      {templates.length > 0 && (
+        <div className="form-label-row">
+          <label htmlFor="csv-preview-template" className="form-label form-label--inline">Lead text template</label>
+          <select
+            id="csv-preview-template"
+            className="ranking-top-per-company-select"
+            value={templateId}
+            onChange={(e) => onTemplateChange(e.target.value)}
+            disabled={disabled}
+          >
+            <option value="">Default</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="form-actions form-actions--inline csv-preview-actions">
+        {savedMappings.length > 0 && (
+          <select
+            className="ranking-top-per-company-select"
+            value=""
+            onChange={(e) => applySaved(e.target.value)}
+            disabled={disabled}
+            aria-label="Apply a saved mapping"
+          >
+            <option value="">Apply saved mapping…</option>
+            {savedMappings.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          className="csv-preview-name"
+          placeholder="Mapping name"
+          value={mappingName}
+          onChange={(e) => setMappingName(e.target.value)}
+          disabled={disabled}
+          aria-label="Name for this mapping"
+        />
+        <button type="button" className="button button-secondary" onClick={saveMapping} disabled={disabled || !mappingName.trim()}>
+          Save mapping
+        </button>
+      </div>
+      {mappingMessage && <p className="form-hint">{mappingMessage}</p>}
+
+      <div className="form-actions form-actions--inline csv-preview-actions">
+        <button type="button" className="button button--secondary-inline" onClick={() => onConfirm(mapping, keptFields)} disabled={disabled}>
+          Save {rows.length} leads
+        </button>
+        <button type="button" className="button button-secondary" onClick={onCancel} disabled={disabled}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
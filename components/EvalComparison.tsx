@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import type { ScoringProfile } from '@/lib/scoring'
+import type { ConfidenceInterval, EvalComparison as EvalComparisonResult, EvalMetricId } from '@/lib/eval-comparison'
+
+interface EvalComparisonProps {
+  /** Current profile text: the baseline the other candidates are compared with. */
+  characteristics: string
+  scoringProfileId: string
+  scoringProfile: ScoringProfile
+  disabled?: boolean
+}
+
+const METRICS: { id: EvalMetricId; label: string; title: string }[] = [
+  { id: 'score', label: 'Spearman', title: 'Rank correlation with the gold ranking (−1 to 1)' },
+  { id: 'recallAt5', label: 'Recall@5', title: 'Share of the gold top 5 in our top 5' },
+  { id: 'mrrTop3', label: 'MRR@3', title: 'Mean reciprocal rank of the gold top 3' },
+  { id: 'kendallTauB', label: 'Kendall tau-b', title: 'Pair agreement with the within-company gold ranks, ties counted (−1 to 1)' },
+  { id: 'ndcgAt10', label: 'NDCG@10', title: 'Our top 10 graded by 1 / company rank (0 to 1)' },
+  { id: 'precisionAt10', label: 'Precision@10', title: 'Share of our top 10 ranked in the top 3 of their company' },
+  { id: 'averagePrecision', label: 'AP', title: 'Average precision of leads ranked in the top 3 of their company' },
+  { id: 'companyTauB', label: 'Company tau-b', title: 'Kendall tau-b within each company, averaged over companies' },
+]
+
+const MAX_CANDIDATES = 6
+
+function formatInterval({ low, high }: ConfidenceInterval): string {
+  return `[${low.toFixed(3)}, ${high.toFixed(3)}]`
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value).toFixed(3)}`
+}
+
+/**
+ * A/B evaluation: the current profile and other candidate profiles scored on the evaluation set
+ * (no LLM), with bootstrap confidence intervals and per-lead ranks (see lib/eval-comparison.ts).
+ */
+export default function EvalComparison({ characteristics, scoringProfileId, scoringProfile, disabled }: EvalComparisonProps) {
+  const [candidates, setCandidates] = useState<string[]>([''])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<EvalComparisonResult | null>(null)
+
+  const updateCandidate = (index: number, text: string) => {
+    setCandidates((prev) => prev.map((c, i) => (i === index ? text : c)))
+  }
+
+  const runComparison = async () => {
+    setLoading(true)
+    setError(null)
+    setResult(null)
+    try {
+      const res = await fetch('/api/eval/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profiles: [
+            { label: 'Current profile', characteristics: characteristics.trim() },
+            ...candidates.map((text, i) => ({ label: `Candidate ${i + 1}`, characteristics: text.trim() })),
+          ],
+          scoringProfileId: scoringProfileId || undefined,
+          scoring: scoringProfile,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Comparison failed')
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const ready = !!characteristics.trim() && candidates.every((c) => c.trim())
+
+  return (
+    <div className="eval-comparison">
+      <p className="form-hint">
+        Compare the current profile with other versions on the evaluation set. Differences whose 95% interval
+        excludes zero are marked as likely real.
+      </p>
+      {candidates.map((text, i) => (
+        <div key={i} className="eval-comparison-candidate">
+          <div className="form-label-row">
+            <label htmlFor={`eval-candidate-${i}`} className="form-label form-label--inline">Candidate {i + 1}</label>
+            <button type="button" className="form-link-button" onClick={() => updateCandidate(i, characteristics)} disabled={disabled}>
+              Copy current profile
+            </button>
+            {candidates.length > 1 && (
+              <button
+                type="button"
+                className="form-link-button"
+                onClick={() => setCandidates((prev) => prev.filter((_, j) => j !== i))}
+                disabled={disabled}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <textarea
+            id={`eval-candidate-${i}`}
+            className="textarea-wrap"
+            value={text}
+            onChange={(e) => updateCandidate(i, e.target.value)}
+            rows={5}
+            placeholder="Target: … Avoid: … Prefer: …"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+      <div className="form-actions form-actions--inline">
+        {candidates.length < MAX_CANDIDATES - 1 && (
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={() => setCandidates((prev) => [...prev, ''])}
+            disabled={disabled}
+          >
+            Add candidate
+          </button>
+        )}
+        <button type="button" className="button button-secondary" onClick={runComparison} disabled={disabled || loading || !ready}>
+          {loading ? 'Evaluating…' : 'Compare on evaluation set'}
+        </button>
+      </div>
+      {error && <p className="error-inline">{error}</p>}
+      {result && (
+        <>
+          <div className="ranking-table-wrap">
+            <table className="ranking-table eval-comparison-table">
+              <thead>
+                <tr>
+                  <th>Profile</th>
+                  {METRICS.map((m) => (
+                    <th key={m.id} title={m.title}>{m.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.candidates.map((c) => (
+                  <tr key={c.label}>
+                    <td>{c.label}</td>
+                    {METRICS.map(({ id }) => {
+                      const vs = c.vsBaseline?.[id]
+                      return (
+                        <td key={id}>
+                          <strong>{c.metrics[id].toFixed(3)}</strong>{' '}
+                          <span className="form-hint">{formatInterval(c.intervals[id])}</span>
+                          {vs && (
+                            <div className={vs.significant ? 'eval-comparison-significant' : 'form-hint'}>
+                              {formatSigned(vs.difference)} {formatInterval(vs.interval)}
+                              {vs.significant ? ' · likely real' : ' · could be noise'}
+                            </div>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="form-hint">
+            {Math.round(result.confidence * 100)}% intervals from {result.bootstrapSamples} bootstrap samples of the{' '}
+            {result.leads.length} evaluation leads; differences are against the current profile.
+          </p>
+          <details className="run-profile">
+            <summary>Ranks per lead</summary>
+            <div className="ranking-table-wrap">
+              <table className="ranking-table">
+                <thead>
+                  <tr>
+                    <th>Gold rank</th>
+                    <th>Name</th>
+                    <th>Title</th>
+                    <th>Company</th>
+                    {result.candidates.map((c) => (
+                      <th key={c.label}>{c.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...result.leads]
+                    .sort((a, b) => a.goldRank - b.goldRank)
+                    .map((lead) => (
+                      <tr key={lead.goldRank}>
+                        <td>{lead.goldRank}</td>
+                        <td>{lead.name || '–'}</td>
+                        <td>{lead.title || '–'}</td>
+                        <td>{lead.company || '–'}</td>
+                        {lead.ranks.map((rank, i) => (
+                          <td key={i}>{rank}</td>
+                        ))}
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,17 @@
 
 import { useState, useMemo, Fragment } from 'react'
 import { rankedLeadsToCsv, rankedLeadsToCsvTopNPerCompany } from '@/lib/csv'
+import {
+  LEAD_FIELDS,
+  getColumnLeadField,
+  getLeadField,
+  getLeadFieldLabel,
+  getLeadName,
+  type LeadField,
+} from '@/lib/lead-schema'
+import { LEAD_FILTER_RULES, LEAD_FILTER_RULE_IDS, type LeadFilterCounts } from '@/lib/lead-filters'
+import type { ScoreBreakdown } from '@/lib/scoring'
+import type { BuyingCommittee } from '@/lib/buying-committee'
 
 interface RankedLead {
   lead: Record<string, string>
@@ -9,36 +20,42 @@ interface RankedLead {
   rank: number
   explanation?: string
   similarity?: number
+  /** Company-size segment of the profile the lead was scored against. */
+  segment?: string
+  /** Target clause the lead matched best (per-clause matching). */
+  matchedClause?: string
+  breakdown?: ScoreBreakdown
 }
 
 interface LeadRankingProps {
   results: RankedLead[]
   stats?: { embeddingCalls?: number }
+  /** Leads removed by hard filters, per rule. */
+  excludedByRule?: LeadFilterCounts
+  /** Length of the full ranking when results is a page of it. */
+  totalRanked?: number
+  /** Loads the next page of results; shown as "Load more" when set. */
+  onLoadMore?: () => void
+  loadingMore?: boolean
+  /** Fetches the complete ranking for exports (default: the loaded results). */
+  onFetchAll?: () => Promise<RankedLead[]>
+  /** Requests explanations for the leads with these ranks; enables the explain buttons. */
+  onExplain?: (ranks: number[]) => void
+  /** Ranks whose explanation is being generated. */
+  explainingRanks?: number[]
+  /** Explanation errors by rank. */
+  explainErrors?: Record<number, string>
+  /** Profile's buying committee; adds committee coverage to the per-company export. */
+  buyingCommittee?: BuyingCommittee
 }
 
 /**
  * Formats the field name for more readable display.
  */
 function formatFieldName(key: string): string {
-  const fieldMap: Record<string, string> = {
-    'lead_first_name': 'First Name',
-    'lead_last_name': 'Last Name',
-    'lead_job_title': 'Job Title',
-    'account_name': 'Company',
-    'account_domain': 'Domain',
-    'account_employee_range': 'Employee Range',
-    'account_industry': 'Industry',
-    'Full Name': 'Full Name',
-    'Title': 'Job Title',
-    'Company': 'Company',
-    'LI': 'LinkedIn',
-    'Employee Range': 'Employee Range',
-    'Rank': 'Original Rank',
-  }
-
-  if (fieldMap[key]) {
-    return fieldMap[key]
-  }
+  if (key === 'Rank') return 'Original Rank'
+  const label = getLeadFieldLabel(key)
+  if (label) return label
 
   // Format names from snake_case or camelCase
   return key
@@ -49,79 +66,81 @@ function formatFieldName(key: string): string {
     .join(' ')
 }
 
+const DOMINANT_LABELS: Record<ScoreBreakdown['dominant'], string> = {
+  target: 'Target match (no Avoid / Prefer adjustment)',
+  avoid: 'Avoid penalty',
+  prefer: 'Prefer bonus',
+}
+
+function formatPercent(value: number, signed = false): string {
+  const text = `${(Math.abs(value) * 100).toFixed(1)}%`
+  if (!signed) return text
+  return value < 0 ? `−${text}` : `+${text}`
+}
+
 /**
- * Gets the value of a field using different possible field names.
+ * Shows how a lead's score was computed: similarities, base score, Avoid penalty, Prefer bonus.
  */
-function getFieldValue(lead: Record<string, string>, possibleFields: string[]): string {
-  for (const field of possibleFields) {
-    const value = lead[field] || lead[field.toLowerCase()] || lead[field.toUpperCase()]
-    if (value && value.trim()) {
-      return value
-    }
-  }
-  return ''
+function ScoreBreakdownView({ breakdown }: { breakdown: ScoreBreakdown }) {
+  return (
+    <div className="ranking-breakdown">
+      <strong className="ranking-explanation-title">Score breakdown</strong>
+      <dl className="ranking-breakdown-list">
+        <dt>Target similarity</dt>
+        <dd>{breakdown.targetSimilarity.toFixed(3)} → base {formatPercent(breakdown.baseScore)}</dd>
+        {breakdown.avoidSimilarity !== null && (
+          <>
+            <dt>Avoid similarity</dt>
+            <dd>{breakdown.avoidSimilarity.toFixed(3)} → penalty {formatPercent(-breakdown.avoidPenalty, true)}</dd>
+          </>
+        )}
+        {breakdown.preferSimilarity !== null && (
+          <>
+            <dt>Prefer similarity</dt>
+            <dd>{breakdown.preferSimilarity.toFixed(3)} → bonus {formatPercent(breakdown.preferBonus, true)}</dd>
+          </>
+        )}
+        <dt>Score</dt>
+        <dd>
+          {formatPercent(breakdown.score)} (minimum {formatPercent(breakdown.minScore)})
+          {breakdown.belowMinScore && <span className="ranking-breakdown-cut"> Below minimum score</span>}
+        </dd>
+        <dt>Dominant factor</dt>
+        <dd>
+          {DOMINANT_LABELS[breakdown.dominant]}
+          {breakdown.dominantClause && <> — &ldquo;{breakdown.dominantClause}&rdquo;</>}
+        </dd>
+      </dl>
+    </div>
+  )
 }
 
+/** Fields shown first in the detail view, in this order. */
+const IMPORTANT_FIELDS: LeadField[] = [
+  'title', 'company', 'industry', 'employee_range', 'domain', 'seniority', 'department', 'location', 'linkedin', 'email',
+]
+
 /**
  * Gets the important fields in priority order.
  */
 function getImportantFields(lead: Record<string, string>): Array<{ key: string; value: string; label: string }> {
   const fields: Array<{ key: string; value: string; label: string }> = []
 
-  // Full Name
-  const fullName = getFieldValue(lead, ['Full Name', 'full_name'])
-  const firstName = getFieldValue(lead, ['lead_first_name'])
-  const lastName = getFieldValue(lead, ['lead_last_name'])
-  if (fullName) {
-    fields.push({ key: 'Full Name', value: fullName, label: 'Full Name' })
-  } else if (firstName || lastName) {
-    fields.push({ 
-      key: 'name', 
-      value: `${firstName} ${lastName}`.trim(), 
-      label: 'Full Name' 
-    })
-  }
-
-  // Job Title
-  const title = getFieldValue(lead, ['lead_job_title', 'Title', 'title'])
-  if (title) {
-    fields.push({ key: 'title', value: title, label: 'Job Title' })
-  }
-
-  // Company
-  const company = getFieldValue(lead, ['account_name', 'Company', 'company'])
-  if (company) {
-    fields.push({ key: 'company', value: company, label: 'Company' })
-  }
-
-  // Industry
-  const industry = getFieldValue(lead, ['account_industry', 'Industry', 'industry'])
-  if (industry) {
-    fields.push({ key: 'industry', value: industry, label: 'Industry' })
-  }
-
-  // Employee Range
-  const employeeRange = getFieldValue(lead, ['account_employee_range', 'Employee Range', 'employee_range'])
-  if (employeeRange) {
-    fields.push({ key: 'employee_range', value: employeeRange, label: 'Employee Range' })
+  const name = getLeadName(lead)
+  if (name) {
+    fields.push({ key: 'full_name', value: name, label: 'Full Name' })
   }
 
-  // Domain
-  const domain = getFieldValue(lead, ['account_domain', 'domain'])
-  if (domain) {
-    fields.push({ key: 'domain', value: domain, label: 'Domain' })
-  }
-
-  // LinkedIn
-  const linkedin = getFieldValue(lead, ['LI', 'linkedin', 'LinkedIn'])
-  if (linkedin) {
-    fields.push({ key: 'linkedin', value: linkedin, label: 'LinkedIn' })
-  }
+  IMPORTANT_FIELDS.forEach((field) => {
+    const value = getLeadField(lead, field)
+    if (value) {
+      fields.push({ key: field, value, label: LEAD_FIELDS[field].label })
+    }
+  })
 
   // Add any other fields not already shown
-  const shownKeys = new Set(fields.map(f => f.key.toLowerCase()))
   Object.entries(lead).forEach(([key, value]) => {
-    if (value && value.trim() && !shownKeys.has(key.toLowerCase())) {
+    if (value && value.trim() && !getColumnLeadField(key)) {
       fields.push({ key, value, label: formatFieldName(key) })
     }
   })
@@ -131,9 +150,8 @@ function getImportantFields(lead: Record<string, string>): Array<{ key: string;
 
 /** Name + title for the main line (e.g. "Jane Doe · VP Sales") */
 function getLeadNameTitle(lead: Record<string, string>): string {
-  const name = getFieldValue(lead, ['Full Name', 'full_name']) ||
-    `${getFieldValue(lead, ['lead_first_name'])} ${getFieldValue(lead, ['lead_last_name'])}`.trim()
-  const title = getFieldValue(lead, ['lead_job_title', 'Title', 'title'])
+  const name = getLeadName(lead)
+  const title = getLeadField(lead, 'title')
   if (name && title) return `${name} · ${title}`
   if (name) return name
   if (title) return title
@@ -142,33 +160,51 @@ function getLeadNameTitle(lead: Record<string, string>): string {
 
 /** Company (and optional extra) for the subline */
 function getLeadSubline(lead: Record<string, string>): string {
-  return getFieldValue(lead, ['account_name', 'Company', 'company']) ||
-    getFieldValue(lead, ['account_industry', 'Industry', 'industry']) ||
+  return getLeadField(lead, 'company') ||
+    getLeadField(lead, 'industry') ||
     ''
 }
 
-function getLeadName(lead: Record<string, string>): string {
-  const fullName = getFieldValue(lead, ['Full Name', 'full_name'])
-  if (fullName) return fullName
-  const first = getFieldValue(lead, ['lead_first_name'])
-  const last = getFieldValue(lead, ['lead_last_name'])
-  return `${first} ${last}`.trim() || '—'
+function getLeadDisplayName(lead: Record<string, string>): string {
+  return getLeadName(lead) || '—'
 }
 
 function getLeadLinkedIn(lead: Record<string, string>): string {
-  return getFieldValue(lead, ['LI', 'linkedin', 'LinkedIn']) || ''
+  return getLeadField(lead, 'linkedin')
 }
 
 const TOP_N_OPTIONS = [3, 5, 10] as const
 
+/** Leads explained by "Explain top N" (the explain API's per-request limit). */
+const EXPLAIN_TOP_N = 10
+
 type SortKey = 'rank' | 'name' | 'title' | 'company' | 'score'
 type SortDir = 'asc' | 'desc'
 
-export default function LeadRanking({ results, stats }: LeadRankingProps) {
+export default function LeadRanking({
+  results,
+  stats,
+  excludedByRule,
+  totalRanked,
+  onLoadMore,
+  loadingMore = false,
+  onFetchAll,
+  onExplain,
+  explainingRanks = [],
+  explainErrors = {},
+  buyingCommittee,
+}: LeadRankingProps) {
   const [expanded, setExpanded] = useState<Set<number>>(new Set())
   const [topNPerCompany, setTopNPerCompany] = useState<number>(3)
   const [sortKey, setSortKey] = useState<SortKey>('rank')
   const [sortDir, setSortDir] = useState<SortDir>('asc')
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const topUnexplained = useMemo(
+    () => [...results].sort((a, b) => a.rank - b.rank).slice(0, EXPLAIN_TOP_N).filter((r) => !r.explanation).map((r) => r.rank),
+    [results]
+  )
 
   const sortedResults = useMemo(() => {
     const arr = [...results]
@@ -179,13 +215,13 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
           cmp = a.rank - b.rank
           break
         case 'name':
-          cmp = getLeadName(a.lead).localeCompare(getLeadName(b.lead))
+          cmp = getLeadDisplayName(a.lead).localeCompare(getLeadDisplayName(b.lead))
           break
         case 'title':
-          cmp = (getFieldValue(a.lead, ['lead_job_title', 'Title', 'title']) || '').localeCompare(getFieldValue(b.lead, ['lead_job_title', 'Title', 'title']) || '')
+          cmp = getLeadField(a.lead, 'title').localeCompare(getLeadField(b.lead, 'title'))
           break
         case 'company':
-          cmp = (getFieldValue(a.lead, ['account_name', 'Company', 'company']) || '').localeCompare(getFieldValue(b.lead, ['account_name', 'Company', 'company']) || '')
+          cmp = getLeadField(a.lead, 'company').localeCompare(getLeadField(b.lead, 'company'))
           break
         case 'score':
           cmp = a.score - b.score
@@ -227,15 +263,30 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
     }
   }
 
-  const handleExportCsv = () => {
-    const csv = rankedLeadsToCsv(results)
-    downloadCsv(csv, `lros-ranking-${new Date().toISOString().slice(0, 10)}.csv`)
+  /** Exports use the complete ranking, not only the loaded pages. */
+  const withAllResults = async (exportResults: (all: RankedLead[]) => void) => {
+    setExporting(true)
+    setExportError(null)
+    try {
+      exportResults(onFetchAll ? await onFetchAll() : results)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
   }
 
-  const handleExportTopNPerCompany = () => {
-    const csv = rankedLeadsToCsvTopNPerCompany(results, topNPerCompany)
-    downloadCsv(csv, `lros-top-${topNPerCompany}-per-company-${new Date().toISOString().slice(0, 10)}.csv`)
-  }
+  const handleExportCsv = () =>
+    withAllResults((all) => {
+      const csv = rankedLeadsToCsv(all)
+      downloadCsv(csv, `lros-ranking-${new Date().toISOString().slice(0, 10)}.csv`)
+    })
+
+  const handleExportTopNPerCompany = () =>
+    withAllResults((all) => {
+      const csv = rankedLeadsToCsvTopNPerCompany(all, topNPerCompany, buyingCommittee)
+      downloadCsv(csv, `lros-top-${topNPerCompany}-per-company-${new Date().toISOString().slice(0, 10)}.csv`)
+    })
 
   function downloadCsv(csv: string, filename: string) {
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
@@ -261,7 +312,18 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
               {stats.embeddingCalls} API call{stats.embeddingCalls !== 1 ? 's' : ''}
             </span>
           )}
-          <span className="ranking-meta">{results.length} lead{results.length !== 1 ? 's' : ''} ranked</span>
+          <span className="ranking-meta">
+            {totalRanked !== undefined && totalRanked > results.length
+              ? `${results.length} of ${totalRanked} leads shown`
+              : `${results.length} lead${results.length !== 1 ? 's' : ''} ranked`}
+          </span>
+          {excludedByRule && LEAD_FILTER_RULE_IDS.some((rule) => excludedByRule[rule]) && (
+            <span className="ranking-meta" title="Leads removed by hard filters before scoring">
+              {LEAD_FILTER_RULE_IDS.filter((rule) => excludedByRule[rule])
+                .map((rule) => `${excludedByRule[rule]} excluded by ${LEAD_FILTER_RULES[rule].label.toLowerCase()}`)
+                .join(' · ')}
+            </span>
+          )}
           <div className="ranking-top-per-company">
             <label htmlFor="ranking-top-n-select" className="ranking-top-per-company-label">
               Top per company
@@ -278,13 +340,25 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
               ))}
             </select>
           </div>
-          <button type="button" className="button-secondary" onClick={handleExportCsv}>
+          {onExplain && (
+            <button
+              type="button"
+              className="button-secondary"
+              onClick={() => onExplain(topUnexplained)}
+              disabled={explainingRanks.length > 0 || topUnexplained.length === 0}
+              title={`Generate a short explanation of why each of the top ${EXPLAIN_TOP_N} leads matches the profile`}
+            >
+              {explainingRanks.length > 0 ? 'Explaining…' : `Explain top ${EXPLAIN_TOP_N}`}
+            </button>
+          )}
+          <button type="button" className="button-secondary" onClick={handleExportCsv} disabled={exporting}>
             Export full list
           </button>
           <button
             type="button"
             className="button-secondary"
             onClick={handleExportTopNPerCompany}
+            disabled={exporting}
             title={`Export up to ${topNPerCompany} lead${topNPerCompany !== 1 ? 's' : ''} per company`}
           >
             Export top per company
@@ -318,19 +392,19 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
               const importantFields = getImportantFields(item.lead)
               const isExpanded = expanded.has(idx)
               return (
-                <Fragment key={`${item.rank}-${idx}-${getLeadName(item.lead)}`}>
+                <Fragment key={`${item.rank}-${idx}-${getLeadDisplayName(item.lead)}`}>
                   <tr
                     role="button"
                     tabIndex={0}
                     onClick={handleRowClick(idx)}
                     onKeyDown={handleRowKeyDown(idx)}
-                    className={`ranking-table-row-clickable ${isExpanded ? 'ranking-table-row-expanded' : ''}`}
+                    className={`ranking-table-row-clickable ${isExpanded ? 'ranking-table-row-expanded' : ''} ${item.breakdown?.belowMinScore ? 'ranking-table-row-below-min' : ''}`}
                     title={isExpanded ? 'Hide card' : 'View candidate card'}
                   >
                     <td className="ranking-table-rank">{item.rank}</td>
-                    <td>{getLeadName(item.lead)}</td>
-                    <td>{getFieldValue(item.lead, ['lead_job_title', 'Title', 'title']) || '—'}</td>
-                    <td>{getFieldValue(item.lead, ['account_name', 'Company', 'company']) || '—'}</td>
+                    <td>{getLeadDisplayName(item.lead)}</td>
+                    <td>{getLeadField(item.lead, 'title') || '—'}</td>
+                    <td>{getLeadField(item.lead, 'company') || '—'}</td>
                     <td className="ranking-table-score">{(item.score * 100).toFixed(1)}%</td>
                   </tr>
                   <tr className="ranking-table-detail-row">
@@ -341,12 +415,36 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
                       >
                         <div className="ranking-card-body ranking-card-body--inline">
                           <div className="ranking-card-body-inner">
-                            {item.explanation && (
+                            {(item.explanation || onExplain) && (
                               <div className="ranking-explanation">
                                 <strong className="ranking-explanation-title">Why this match</strong>
-                                <p className="ranking-explanation-text">{item.explanation}</p>
+                                {item.explanation ? (
+                                  <p className="ranking-explanation-text">{item.explanation}</p>
+                                ) : explainingRanks.includes(item.rank) ? (
+                                  <p className="ranking-explanation-text ranking-explanation-loading" aria-live="polite">
+                                    Generating explanation…
+                                  </p>
+                                ) : (
+                                  <>
+                                    {explainErrors[item.rank] && <p className="error-inline">{explainErrors[item.rank]}</p>}
+                                    <button type="button" className="button-secondary" onClick={() => onExplain?.([item.rank])}>
+                                      Explain this match
+                                    </button>
+                                  </>
+                                )}
                               </div>
                             )}
+                            {item.segment && (
+                              <p className="ranking-segment">
+                                Scored against segment <strong>{item.segment}</strong>
+                              </p>
+                            )}
+                            {item.matchedClause && (
+                              <p className="ranking-segment">
+                                Best matching Target clause: <strong>{item.matchedClause}</strong>
+                              </p>
+                            )}
+                            {item.breakdown && <ScoreBreakdownView breakdown={item.breakdown} />}
                             <div className="ranking-fields">
                               {importantFields.map((field) => (
                                 <div key={field.key} className="ranking-field">
@@ -370,6 +468,14 @@ export default function LeadRanking({ results, stats }: LeadRankingProps) {
           </tbody>
         </table>
       </div>
+      {exportError && <p className="error-inline">{exportError}</p>}
+      {onLoadMore && (
+        <div className="ranking-load-more">
+          <button type="button" className="button-secondary" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
     </section>
   )
 }
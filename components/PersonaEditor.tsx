@@ -0,0 +1,196 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { countDiffChanges, diffLines } from '@/lib/text-diff'
+import type { PersonaVersion, SavedPersona } from '@/lib/personas'
+
+interface PersonaEditorProps {
+  /** Selected saved persona ('' = unsaved profile). */
+  personaId: string
+  /** Version the profile text was loaded from (null = latest). */
+  personaVersion: number | null
+  /** Current profile text (the characteristics textarea). */
+  characteristics: string
+  onChange: (personaId: string, personaVersion: number | null, characteristics: string) => void
+  /** Changes when a version was saved elsewhere (e.g. by the optimizer), to reload the history. */
+  refreshKey?: number
+  disabled?: boolean
+}
+
+const SOURCE_LABELS: Record<PersonaVersion['source'], string> = {
+  manual: 'Edited',
+  optimizer: 'Optimizer',
+}
+
+/**
+ * Saved personas: pick one to load its profile text, save edits as a new version, browse the
+ * version history and diff any version against the current text.
+ */
+export default function PersonaEditor({
+  personaId,
+  personaVersion,
+  characteristics,
+  onChange,
+  refreshKey = 0,
+  disabled,
+}: PersonaEditorProps) {
+  const [personas, setPersonas] = useState<SavedPersona[]>([])
+  const [versions, setVersions] = useState<PersonaVersion[]>([])
+  const [personaName, setPersonaName] = useState('')
+  const [diffVersion, setDiffVersion] = useState<number | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Saved personas need Supabase; without it the profile is only kept in the text area.
+    fetch('/api/personas')
+      .then((res) => (res.ok ? res.json() : { personas: [] }))
+      .then((data) => setPersonas(Array.isArray(data.personas) ? data.personas : []))
+      .catch(() => setPersonas([]))
+  }, [refreshKey])
+
+  useEffect(() => {
+    if (!personaId) {
+      setVersions([])
+      return
+    }
+    fetch(`/api/personas?id=${encodeURIComponent(personaId)}`)
+      .then((res) => (res.ok ? res.json() : { versions: [] }))
+      .then((data) => setVersions(Array.isArray(data.versions) ? data.versions : []))
+      .catch(() => setVersions([]))
+  }, [personaId, refreshKey])
+
+  const selected = personas.find((p) => p.id === personaId)
+  const loadedVersion = versions.find((v) => v.version === (personaVersion ?? selected?.current_version))
+  const modified = !!loadedVersion && loadedVersion.characteristics.trim() !== characteristics.trim()
+  const diffBase = versions.find((v) => v.version === diffVersion)
+  const diff = diffBase ? diffLines(diffBase.characteristics, characteristics) : null
+
+  const selectPersona = (id: string) => {
+    const persona = personas.find((p) => p.id === id)
+    onChange(id, null, persona ? persona.characteristics : characteristics)
+    setPersonaName(persona?.name ?? '')
+    setDiffVersion(null)
+    setMessage(null)
+  }
+
+  const loadVersion = (version: PersonaVersion) => {
+    onChange(personaId, version.version, version.characteristics)
+    setDiffVersion(null)
+    setMessage(`Loaded version ${version.version}. Save to make it the latest version.`)
+  }
+
+  const savePersona = async () => {
+    const name = (personaName || selected?.name || '').trim()
+    if (!name || !characteristics.trim()) return
+    try {
+      const res = await fetch('/api/personas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, characteristics, source: 'manual' }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`)
+      const persona = data.persona as SavedPersona
+      const version = data.version as PersonaVersion
+      setPersonas((prev) => [...prev.filter((p) => p.id !== persona.id), persona].sort((a, b) => a.name.localeCompare(b.name)))
+      setVersions((prev) => (data.created ? [version, ...prev.filter((v) => v.version !== version.version)] : prev))
+      setPersonaName(persona.name)
+      onChange(persona.id, null, characteristics)
+      setMessage(data.created ? `Saved “${persona.name}” version ${version.version}.` : 'No changes since the latest version.')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save persona')
+    }
+  }
+
+  return (
+    <div className="persona-editor">
+      <div className="form-label-row">
+        <label htmlFor="persona" className="form-label form-label--inline">Persona</label>
+        <select
+          id="persona"
+          className="ranking-top-per-company-select"
+          value={personaId}
+          onChange={(e) => selectPersona(e.target.value)}
+          disabled={disabled}
+        >
+          <option value="">Unsaved</option>
+          {personas.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {loadedVersion && (
+          <span className="form-hint">
+            v{loadedVersion.version}{modified ? ' (modified)' : ''}
+          </span>
+        )}
+        {versions.length > 0 && (
+          <button type="button" className="form-link-button" onClick={() => setShowHistory((v) => !v)}>
+            {showHistory ? 'Hide history' : `History (${versions.length})`}
+          </button>
+        )}
+      </div>
+      {showHistory && versions.length > 0 && (
+        <ul className="persona-versions">
+          {versions.map((v) => (
+            <li key={v.id} className="persona-version">
+              <strong>v{v.version}</strong>
+              <span>{SOURCE_LABELS[v.source] ?? v.source}</span>
+              {v.eval_score !== null && <span title="Spearman correlation on the evaluation set">Spearman {v.eval_score.toFixed(3)}</span>}
+              <span>{new Date(v.created_at).toLocaleString()}</span>
+              {v.note && <span>{v.note}</span>}
+              <button type="button" className="form-link-button" onClick={() => loadVersion(v)} disabled={disabled}>
+                Load
+              </button>
+              <button
+                type="button"
+                className="form-link-button"
+                onClick={() => setDiffVersion(diffVersion === v.version ? null : v.version)}
+              >
+                {diffVersion === v.version ? 'Hide diff' : 'Diff with current text'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {diff && diffBase && (
+        <>
+          <p className="form-hint">
+            v{diffBase.version} → current text: {countDiffChanges(diff).added} line(s) added, {countDiffChanges(diff).removed} removed
+          </p>
+          <div className="persona-diff">
+            {diff.map((line, i) => (
+              <div
+                key={i}
+                className={line.type === 'added' ? 'persona-diff-added' : line.type === 'removed' ? 'persona-diff-removed' : undefined}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      <div className="form-actions form-actions--inline csv-preview-actions">
+        <input
+          type="text"
+          className="csv-preview-name"
+          placeholder="Persona name"
+          value={personaName}
+          onChange={(e) => setPersonaName(e.target.value)}
+          disabled={disabled}
+          aria-label="Name for this persona"
+        />
+        <button
+          type="button"
+          className="button button-secondary"
+          onClick={savePersona}
+          disabled={disabled || !(personaName || selected?.name || '').trim() || !characteristics.trim()}
+        >
+          {selected && (!personaName.trim() || personaName.trim() === selected.name) ? 'Save new version' : 'Save persona'}
+        </button>
+      </div>
+      {message && <p className="form-hint">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import type { RankingDiff, RankingDiffStatus } from '@/lib/ranking-diff'
+
+/** A compared run as returned by GET /api/rank/runs/diff. */
+export interface DiffRunInfo {
+  id: string
+  created_at: string
+  persona_name: string | null
+  persona_version: number | null
+  total_ranked: number
+  results_truncated: boolean
+}
+
+interface RunDiffProps {
+  a: DiffRunInfo
+  b: DiffRunInfo
+  diff: RankingDiff
+  /** Changes the top N and reloads the comparison. */
+  onTopNChange?: (topN: number) => void
+}
+
+const STATUS_LABELS: Record<RankingDiffStatus, string> = {
+  entered: 'Entered',
+  left: 'Left',
+  up: 'Up',
+  down: 'Down',
+  same: 'Same',
+}
+
+const TOP_N_OPTIONS = [10, 25, 50, 100, 250]
+
+function runLabel(run: DiffRunInfo): string {
+  const persona = run.persona_name ? `${run.persona_name} v${run.persona_version}` : 'Unsaved profile'
+  return `${persona}, ${new Date(run.created_at).toLocaleString()}`
+}
+
+function formatSigned(value: number, digits = 0): string {
+  return `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value).toFixed(digits)}`
+}
+
+/**
+ * Two rankings compared (see lib/ranking-diff.ts): leads entering and leaving the top N, rank and
+ * score deltas, and the rank correlation of the two orders.
+ */
+export default function RunDiff({ a, b, diff, onTopNChange }: RunDiffProps) {
+  return (
+    <section className="run-diff">
+      <div className="ranking-header">
+        <h2 className="ranking-title">Comparison</h2>
+        {onTopNChange && (
+          <div className="ranking-top-per-company">
+            <label htmlFor="run-diff-top-n" className="ranking-top-per-company-label">Top</label>
+            <select
+              id="run-diff-top-n"
+              className="ranking-top-per-company-select"
+              value={diff.topN}
+              onChange={(e) => onTopNChange(Number(e.target.value))}
+            >
+              {Array.from(new Set([...TOP_N_OPTIONS, diff.topN])).sort((x, y) => x - y).map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      <p className="form-hint">
+        Before: {runLabel(a)}. After: {runLabel(b)}.
+      </p>
+      <p className="optimize-score">
+        <strong>{diff.entered}</strong> entered and <strong>{diff.left}</strong> left the top {diff.topN}.{' '}
+        Spearman correlation{' '}
+        <strong>{diff.spearman !== null ? diff.spearman.toFixed(3) : '–'}</strong> over {diff.commonLeads} leads ranked in both.
+      </p>
+      {(a.results_truncated || b.results_truncated) && (
+        <p className="form-hint">
+          Only the stored top leads of a run are compared; leads beyond them count as not ranked.
+        </p>
+      )}
+      <div className="ranking-table-wrap">
+        <table className="ranking-table run-diff-table">
+          <thead>
+            <tr>
+              <th>Change</th>
+              <th>Name</th>
+              <th>Title</th>
+              <th>Company</th>
+              <th>Rank before</th>
+              <th>Rank after</th>
+              <th>Δ rank</th>
+              <th>Score before</th>
+              <th>Score after</th>
+              <th>Δ score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.leads.map((row, i) => (
+              <tr key={i} className={`run-diff-row--${row.status}`}>
+                <td>{STATUS_LABELS[row.status]}</td>
+                <td>{getLeadName(row.lead) || '–'}</td>
+                <td>{getLeadField(row.lead, 'title') || '–'}</td>
+                <td>{getLeadField(row.lead, 'company') || '–'}</td>
+                <td>{row.rankBefore ?? '–'}</td>
+                <td>{row.rankAfter ?? '–'}</td>
+                <td>{row.rankDelta !== null ? formatSigned(row.rankDelta) : '–'}</td>
+                <td>{row.scoreBefore !== null ? `${(row.scoreBefore * 100).toFixed(1)}%` : '–'}</td>
+                <td>{row.scoreAfter !== null ? `${(row.scoreAfter * 100).toFixed(1)}%` : '–'}</td>
+                <td>{row.scoreDelta !== null ? `${formatSigned(row.scoreDelta * 100, 1)} pts` : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
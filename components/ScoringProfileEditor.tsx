@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PARAMS,
+  SCORING_PARAM_IDS,
+  sameScoringProfile,
+  sanitizeScoringProfile,
+  type ScoringParam,
+  type ScoringProfile,
+} from '@/lib/scoring'
+
+interface SavedProfile {
+  id: string
+  name: string
+  profile: ScoringProfile
+}
+
+interface ScoringProfileEditorProps {
+  /** Selected saved profile ('' = default). */
+  profileId: string
+  profile: ScoringProfile
+  onChange: (profileId: string, profile: ScoringProfile) => void
+  disabled?: boolean
+}
+
+/**
+ * Scoring weights used for ranking: pick a saved profile, tweak its values, save under a name.
+ */
+export default function ScoringProfileEditor({ profileId, profile, onChange, disabled }: ScoringProfileEditorProps) {
+  const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([])
+  const [profileName, setProfileName] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Saved profiles need Supabase; without it only the default profile can be edited.
+    fetch('/api/scoring-profiles')
+      .then((res) => (res.ok ? res.json() : { profiles: [] }))
+      .then((data) => setSavedProfiles(Array.isArray(data.profiles) ? data.profiles : []))
+      .catch(() => setSavedProfiles([]))
+  }, [])
+
+  const selected = savedProfiles.find((p) => p.id === profileId)
+  const baseProfile = selected ? sanitizeScoringProfile(selected.profile) ?? DEFAULT_SCORING_PROFILE : DEFAULT_SCORING_PROFILE
+  const modified = !sameScoringProfile(profile, baseProfile)
+
+  const selectProfile = (id: string) => {
+    const saved = savedProfiles.find((p) => p.id === id)
+    onChange(id, saved ? sanitizeScoringProfile(saved.profile) ?? DEFAULT_SCORING_PROFILE : DEFAULT_SCORING_PROFILE)
+    setMessage(null)
+  }
+
+  const setParam = (param: ScoringParam, raw: string) => {
+    const next = sanitizeScoringProfile({ [param]: raw }, profile)
+    if (next) onChange(profileId, next)
+  }
+
+  const saveProfile = async () => {
+    const name = profileName.trim()
+    if (!name) return
+    try {
+      const res = await fetch('/api/scoring-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, profile }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`)
+      const saved = data.profile as SavedProfile
+      setSavedProfiles((prev) => [...prev.filter((p) => p.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setProfileName('')
+      onChange(saved.id, saved.profile)
+      setMessage(`Saved scoring profile “${saved.name}”.`)
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save scoring profile')
+    }
+  }
+
+  return (
+    <div className="scoring-profile">
+      <div className="form-label-row">
+        <label htmlFor="scoring-profile" className="form-label form-label--inline">Scoring profile</label>
+        <select
+          id="scoring-profile"
+          className="ranking-top-per-company-select"
+          value={profileId}
+          onChange={(e) => selectProfile(e.target.value)}
+          disabled={disabled}
+        >
+          <option value="">Default</option>
+          {savedProfiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {modified && <span className="form-hint">(modified)</span>}
+      </div>
+      <div className="scoring-profile-params">
+        {SCORING_PARAM_IDS.map((param) => {
+          const { label, min, max, step } = SCORING_PARAMS[param]
+          return (
+            <label key={param} className="scoring-profile-param">
+              <span>{label}</span>
+              <input
+                type="number"
+                className="csv-preview-name"
+                min={min}
+                max={max}
+                step={step}
+                value={profile[param]}
+                onChange={(e) => setParam(param, e.target.value)}
+                disabled={disabled}
+              />
+            </label>
+          )
+        })}
+      </div>
+      <div className="form-actions form-actions--inline csv-preview-actions">
+        <input
+          type="text"
+          className="csv-preview-name"
+          placeholder="Profile name"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          disabled={disabled}
+          aria-label="Name for this scoring profile"
+        />
+        <button type="button" className="button button-secondary" onClick={saveProfile} disabled={disabled || !profileName.trim()}>
+          Save profile
+        </button>
+        {modified && (
+          <button type="button" className="form-link-button" onClick={() => onChange(profileId, baseProfile)} disabled={disabled}>
+            Reset
+          </button>
+        )}
+      </div>
+      {message && <p className="form-hint">{message}</p>}
+    </div>
+  )
+}
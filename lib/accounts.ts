@@ -0,0 +1,186 @@
+import { getLeadField } from '@/lib/lead-schema'
+import {
+  getCommitteeCoverage,
+  getCommitteeRoles,
+  hasCommitteeRoles,
+  type BuyingCommittee,
+} from '@/lib/buying-committee'
+
+/**
+ * Account-level ranking: ranked leads grouped by company, each company scored from its contacts.
+ * SDRs pick accounts to work, then the contacts inside them.
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+/**
+ * How accounts are ranked: best contact, mean of the top-k contacts, or coverage of required roles.
+ * Coverage needs requiredRoles or a profile Committee section; parseAccountMode rejects it otherwise.
+ */
+export type AccountRankBy = 'best' | 'topKMean' | 'coverage'
+
+export const ACCOUNT_RANK_BY: Record<AccountRankBy, { label: string }> = {
+  best: { label: 'Best contact' },
+  topKMean: { label: 'Mean of top contacts' },
+  coverage: { label: 'Role coverage' },
+}
+
+export const ACCOUNT_RANK_BY_IDS = Object.keys(ACCOUNT_RANK_BY) as AccountRankBy[]
+
+export interface AccountOptions {
+  rankBy: AccountRankBy
+  /** Contacts averaged by topKMean (accounts with fewer contacts average what they have). */
+  topK: number
+  /**
+   * Roles an account should have a contact for (see titleMatchesRole in lib/buying-committee.ts).
+   * When empty, the profile's buying committee is used.
+   */
+  requiredRoles: string[]
+}
+
+export const DEFAULT_ACCOUNT_OPTIONS: AccountOptions = { rankBy: 'topKMean', topK: 3, requiredRoles: [] }
+
+const MAX_TOP_K = 20
+
+/** Minimal shape of a ranked lead (RankedLeadResult or the UI's copy of it). */
+export interface AccountContact {
+  lead: Record<string, string>
+  score: number
+  rank: number
+}
+
+export interface AccountResult<T extends AccountContact = AccountContact> {
+  /** Grouping key: normalized company name, or the domain when the name is missing. */
+  key: string
+  company: string
+  domain: string
+  rank: number
+  /** Value accounts are ranked by (see AccountOptions.rankBy). */
+  score: number
+  bestScore: number
+  topKMean: number
+  /** Share of required (or committee) roles with at least one contact; null without roles. */
+  coverage: number | null
+  coveredRoles: string[]
+  missingRoles: string[]
+  /** True when a required or committee role has no contact. */
+  missingKeyRole: boolean
+  /** The account's contacts in ranking order. */
+  contacts: T[]
+}
+
+const LEGAL_SUFFIX_RE = /\b(inc|llc|ltd|limited|gmbh|corp|corporation|co|sa|sas|bv|plc|ag)\b\.?/g
+
+function normalizeCompany(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .replace(LEGAL_SUFFIX_RE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function normalizeDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0]
+}
+
+/** Company grouping key of a lead; null when it has neither a company nor a domain. */
+export function getAccountKey(lead: Record<string, string>): string | null {
+  const company = normalizeCompany(getLeadField(lead, 'company'))
+  if (company) return `company:${company}`
+  const domain = normalizeDomain(getLeadField(lead, 'domain'))
+  return domain ? `domain:${domain}` : null
+}
+
+/** Validates account options received from a client; missing values use the defaults. Null if not an object. */
+export function sanitizeAccountOptions(value: unknown): AccountOptions | null {
+  if (value === undefined || value === null) return { ...DEFAULT_ACCOUNT_OPTIONS }
+  if (typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const rankBy = ACCOUNT_RANK_BY_IDS.includes(raw.rankBy as AccountRankBy)
+    ? (raw.rankBy as AccountRankBy)
+    : DEFAULT_ACCOUNT_OPTIONS.rankBy
+  const topK = typeof raw.topK === 'number' && Number.isFinite(raw.topK)
+    ? Math.min(MAX_TOP_K, Math.max(1, Math.round(raw.topK)))
+    : DEFAULT_ACCOUNT_OPTIONS.topK
+  const roles = Array.isArray(raw.requiredRoles) ? raw.requiredRoles : typeof raw.requiredRoles === 'string' ? raw.requiredRoles.split(/[,;\n]/) : []
+  const requiredRoles = Array.from(
+    new Set(roles.filter((r): r is string => typeof r === 'string').map((r) => r.trim()).filter(Boolean))
+  )
+  return { rankBy, topK, requiredRoles }
+}
+
+/**
+ * Groups ranked leads by company and ranks the companies. Ties (e.g. equal coverage) are broken by
+ * mean of the top contacts, then by best contact. Leads without company or domain are not assigned
+ * to any account (counted in unassigned). Coverage is of options.requiredRoles, or of the committee
+ * roles for the account's company size when none are given.
+ */
+export function rankAccounts<T extends AccountContact>(
+  rankedLeads: T[],
+  options: AccountOptions = DEFAULT_ACCOUNT_OPTIONS,
+  committee?: BuyingCommittee
+): { accounts: AccountResult<T>[]; unassigned: number } {
+  const byKey = new Map<string, T[]>()
+  let unassigned = 0
+  for (const item of [...rankedLeads].sort((a, b) => a.rank - b.rank)) {
+    const key = getAccountKey(item.lead)
+    if (!key) {
+      unassigned++
+      continue
+    }
+    const contacts = byKey.get(key)
+    if (contacts) contacts.push(item)
+    else byKey.set(key, [item])
+  }
+
+  const accounts = Array.from(byKey.entries()).map(([key, contacts]) => {
+    const top = contacts.slice(0, options.topK)
+    const topKMean = top.reduce((sum, c) => sum + c.score, 0) / top.length
+    const leads = contacts.map((c) => c.lead)
+    const roles = options.requiredRoles.length > 0 || !committee ? options.requiredRoles : getCommitteeRoles(committee, leads)
+    const { coverage, coveredRoles, missingRoles } = getCommitteeCoverage(roles, leads)
+    const bestScore = contacts[0].score
+    const first = contacts.find((c) => getLeadField(c.lead, 'company')) ?? contacts[0]
+    return {
+      key,
+      company: getLeadField(first.lead, 'company') || normalizeDomain(getLeadField(first.lead, 'domain')),
+      domain: normalizeDomain(contacts.map((c) => getLeadField(c.lead, 'domain')).find(Boolean) ?? ''),
+      rank: 0,
+      score: options.rankBy === 'best' ? bestScore : options.rankBy === 'coverage' ? coverage ?? 0 : topKMean,
+      bestScore,
+      topKMean,
+      coverage,
+      coveredRoles,
+      missingRoles,
+      missingKeyRole: missingRoles.length > 0,
+      contacts,
+    }
+  })
+
+  accounts.sort((a, b) => b.score - a.score || b.topKMean - a.topKMean || b.bestScore - a.bestScore)
+  accounts.forEach((account, i) => {
+    account.rank = i + 1
+  })
+  return { accounts, unassigned }
+}
+
+/**
+ * Reads the rank APIs' mode ('leads' or 'accounts') and accounts options. options is undefined in
+ * leads mode; ranking by coverage needs required roles or a profile committee.
+ */
+export function parseAccountMode(
+  mode: unknown,
+  accounts: unknown,
+  committee?: BuyingCommittee
+): { options: AccountOptions | undefined } | { error: string } {
+  if (mode === undefined || mode === null || mode === '' || mode === 'leads') return { options: undefined }
+  if (mode !== 'accounts') return { error: "mode must be 'leads' or 'accounts'." }
+  const options = sanitizeAccountOptions(accounts)
+  if (!options) {
+    return { error: 'accounts must be an object (e.g. { "rankBy": "coverage", "requiredRoles": ["VP Sales", "Head of SDR"] }).' }
+  }
+  if (options.rankBy === 'coverage' && options.requiredRoles.length === 0 && !hasCommitteeRoles(committee)) {
+    return { error: 'Please provide required roles (accounts.requiredRoles) or a Committee section in the profile to rank accounts by role coverage.' }
+  }
+  return { options }
+}
@@ -0,0 +1,120 @@
+import { getLeadField } from '@/lib/lead-schema'
+import { containsWord, extractProfileFilters } from '@/lib/lead-filters'
+import { findLeadSegment, splitProfileSegments, type EmployeeSegment } from '@/lib/profile-segments'
+
+/**
+ * Buying committee: the roles an account should have a contact for, read from the profile.
+ * A "Committee:" section lists them explicitly (globally or per "Segment <range>:" block), e.g.
+ *
+ *   Segment 51-200:
+ *   Target: VP of Sales, Head of Sales, RevOps Manager
+ *   Committee: Head of Sales, RevOps
+ *
+ * Without one there is no committee: Target lists every title worth contacting, not the roles an
+ * account needs, so coverage is not computed. The Committee section is not embedded. Safe to import from client components (no server-only dependencies).
+ */
+export interface BuyingCommittee {
+  /** Roles for companies of unknown or unmatched size. */
+  roles: string[]
+  segments: (EmployeeSegment & { roles: string[] })[]
+}
+
+export interface CommitteeCoverage {
+  roles: string[]
+  coveredRoles: string[]
+  missingRoles: string[]
+  /** Share of roles with at least one contact; null when there are no roles. */
+  coverage: number | null
+}
+
+const COMMITTEE_SECTION_RE =
+  /\bCommittee\s*:\s*([\s\S]*?)(?=\b(?:Target|Avoid|Prefer|Filters|Committee)\s*:|(?:^|\n)[ \t]*Segment\b[^:\n]*\d[^:\n]*:|$)/gi
+
+/** Role words left out of matching ("Head of Sales" matches "Head, Sales"). */
+const ROLE_STOPWORDS = new Set(['of', 'the', 'and', 'for', '&', 'a', 'an'])
+
+/** Spelled-out titles and their usual abbreviation, so either form matches the other. */
+const ROLE_ABBREVIATIONS: [RegExp, string][] = [
+  [/\bvice president\b/g, 'vp'],
+  [/\brevenue operations\b/g, 'revops'],
+  [/\bsales development\b/g, 'sdr'],
+  [/\bchief executive officer\b/g, 'ceo'],
+  [/\bchief revenue officer\b/g, 'cro'],
+  [/\bchief financial officer\b/g, 'cfo'],
+]
+
+/** The Committee sections of a text, as written (header included). */
+export function getCommitteeSections(text: string): string[] {
+  return Array.from(text.matchAll(COMMITTEE_SECTION_RE)).map((m) => m[0].trim())
+}
+
+/** The profile text without its Committee sections (what gets embedded). */
+export function stripCommitteeSections(text: string): string {
+  return text.replace(COMMITTEE_SECTION_RE, '').trim()
+}
+
+function splitRoles(section: string): string[] {
+  return section
+    .split(/[\n,;]|\.\s+/)
+    .map((r) => r.replace(/^\s*[-*]\s*/, '').replace(/\*\*/g, '').replace(/[.:]+$/, '').trim())
+    .filter(Boolean)
+}
+
+/** Committee roles of one block (from its Committee sections). */
+function blockRoles(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(COMMITTEE_SECTION_RE)).flatMap((m) => splitRoles(m[1]))))
+}
+
+/**
+ * Reads the buying committee of a profile. Segment blocks without roles use the global roles.
+ */
+export function parseBuyingCommittee(characteristics: string): BuyingCommittee {
+  const { globalText, segments } = splitProfileSegments(extractProfileFilters(characteristics).text)
+  const roles = blockRoles(globalText)
+  return {
+    roles,
+    segments: segments.map(({ name, minEmployees, maxEmployees, text }) => {
+      const own = blockRoles(text)
+      return { name, minEmployees, maxEmployees, roles: own.length > 0 ? own : roles }
+    }),
+  }
+}
+
+export function hasCommitteeRoles(committee: BuyingCommittee | null | undefined): committee is BuyingCommittee {
+  return !!committee && (committee.roles.length > 0 || committee.segments.some((s) => s.roles.length > 0))
+}
+
+function normalizeRoleText(text: string): string {
+  return ROLE_ABBREVIATIONS.reduce((s, [re, abbr]) => s.replace(re, abbr), text.toLowerCase())
+}
+
+/** True when every significant word of the role is a whole word of the title ("VP of Sales" ~ "Vice President, Sales"). */
+export function titleMatchesRole(title: string, role: string): boolean {
+  const words = normalizeRoleText(role)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !ROLE_STOPWORDS.has(w))
+  if (words.length === 0) return false
+  const normalizedTitle = normalizeRoleText(title)
+  return words.every((w) => containsWord(normalizedTitle, w))
+}
+
+/** Committee roles for a company: those of the segment matching its size (from the first contact with a known size). */
+export function getCommitteeRoles(committee: BuyingCommittee, leads: Record<string, string>[]): string[] {
+  for (const lead of leads) {
+    const index = findLeadSegment(committee.segments, lead)
+    if (index >= 0) return committee.segments[index].roles
+  }
+  return committee.roles
+}
+
+/** Which roles of a company's committee are held by at least one of its contacts. */
+export function getCommitteeCoverage(roles: string[], leads: Record<string, string>[]): CommitteeCoverage {
+  const titles = leads.map((lead) => getLeadField(lead, 'title')).filter(Boolean)
+  const coveredRoles = roles.filter((role) => titles.some((title) => titleMatchesRole(title, role)))
+  return {
+    roles,
+    coveredRoles,
+    missingRoles: roles.filter((role) => !coveredRoles.includes(role)),
+    coverage: roles.length > 0 ? coveredRoles.length / roles.length : null,
+  }
+}
@@ -0,0 +1,176 @@
+import Papa from 'papaparse'
+import type { ColumnMapping } from '@/lib/lead-schema'
+
+/**
+ * Browser-side chunked upload to /api/leads/ingest. The CSV is parsed in the browser, split into
+ * chunks of INGEST_CHUNK_ROWS and sent one request per chunk, so any file size works within the
+ * server's per-request row limit. Progress is reported per chunk; a failed import keeps its state
+ * so it can be resumed from the first chunk that did not make it.
+ */
+
+/** Rows per request; below the route's INGEST_MAX_ROWS so each chunk finishes well within serverless limits. */
+export const INGEST_CHUNK_ROWS = 200
+
+/** Extra attempts per chunk before giving up (network blips, cold starts). */
+const CHUNK_RETRIES = 2
+
+export interface ChunkedIngestState {
+  importId: string
+  /** Column order of the original file, so every chunk has the same header. */
+  fields: string[]
+  chunks: Record<string, string>[][]
+  totalRows: number
+  /** Index of the next chunk to send; everything before it is stored. */
+  nextChunk: number
+  clear: boolean
+  /** Column mapping chosen in the upload preview; sent with every chunk (omitted = server auto-detects). */
+  mapping?: ColumnMapping
+  /** Saved lead text template to embed with (omitted = default template). */
+  templateId?: string
+}
+
+export interface ChunkedIngestProgress {
+  chunk: number
+  chunkCount: number
+  rowsDone: number
+  totalRows: number
+}
+
+export interface ChunkedIngestResult {
+  importId: string
+  ingested: number
+  inserted: number
+  updated: number
+  /** Unchanged leads. */
+  skipped: number
+  /** Rows of a lead that appeared earlier in the file. */
+  duplicates: number
+  cleared: number
+}
+
+/** Thrown when a chunk keeps failing; `state` can be passed back to runChunkedIngest to resume. */
+export class ChunkedIngestError extends Error {
+  constructor(message: string, public state: ChunkedIngestState) {
+    super(message)
+    this.name = 'ChunkedIngestError'
+  }
+}
+
+/** Parse a CSV file in the browser (header row + data rows). */
+export function parseCsvFile(file: File): Promise<{ rows: Record<string, string>[]; fields: string[] }> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (result) => {
+        if (result.errors.length > 0) {
+          reject(new Error('Error parsing CSV: ' + result.errors[0].message))
+          return
+        }
+        resolve({ rows: result.data, fields: result.meta.fields ?? [] })
+      },
+      error: (err) => reject(err),
+    })
+  })
+}
+
+/** `fields` are the columns to upload (columns dropped in the preview are left out of every chunk). */
+export function prepareChunkedIngest(
+  rows: Record<string, string>[],
+  fields: string[],
+  clear: boolean,
+  mapping?: ColumnMapping,
+  templateId?: string
+): ChunkedIngestState {
+  const chunks: Record<string, string>[][] = []
+  for (let i = 0; i < rows.length; i += INGEST_CHUNK_ROWS) {
+    chunks.push(rows.slice(i, i + INGEST_CHUNK_ROWS))
+  }
+  return { importId: crypto.randomUUID(), fields, chunks, totalRows: rows.length, nextChunk: 0, clear, mapping, templateId }
+}
+
+async function postJson(res: Response): Promise<Record<string, unknown>> {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error((data as { error?: string }).error || `Request failed (${res.status})`)
+  return data
+}
+
+async function sendChunk(state: ChunkedIngestState, index: number): Promise<void> {
+  const csv = Papa.unparse({ fields: state.fields, data: state.chunks[index] })
+  const formData = new FormData()
+  formData.append('csv', new Blob([csv], { type: 'text/csv' }), `chunk-${index}.csv`)
+  formData.append('importId', state.importId)
+  formData.append('chunkIndex', String(index))
+  formData.append('chunkCount', String(state.chunks.length))
+  if (state.mapping) formData.append('mapping', JSON.stringify(state.mapping))
+  if (state.templateId) formData.append('templateId', state.templateId)
+  await postJson(await fetch('/api/leads/ingest', { method: 'POST', body: formData }))
+}
+
+/**
+ * Sends every remaining chunk (from state.nextChunk), then finalizes the import. Old leads are
+ * cleared (when state.clear) only by the finalize step, i.e. after all chunks are stored.
+ */
+export async function runChunkedIngest(
+  state: ChunkedIngestState,
+  onProgress?: (progress: ChunkedIngestProgress) => void
+): Promise<ChunkedIngestResult> {
+  const chunkCount = state.chunks.length
+  const rowsBefore = (index: number) => state.chunks.slice(0, index).reduce((n, c) => n + c.length, 0)
+
+  for (let i = state.nextChunk; i < chunkCount; i++) {
+    onProgress?.({ chunk: i + 1, chunkCount, rowsDone: rowsBefore(i), totalRows: state.totalRows })
+    let lastErr: unknown
+    for (let attempt = 0; attempt <= CHUNK_RETRIES; attempt++) {
+      try {
+        await sendChunk(state, i)
+        lastErr = null
+        break
+      } catch (err) {
+        lastErr = err
+        if (attempt < CHUNK_RETRIES) await new Promise((r) => setTimeout(r, 1000 * (attempt + 1)))
+      }
+    }
+    if (lastErr) {
+      const msg = lastErr instanceof Error ? lastErr.message : 'Unknown error'
+      throw new ChunkedIngestError(`Chunk ${i + 1} of ${chunkCount} failed: ${msg}`, { ...state, nextChunk: i })
+    }
+  }
+  onProgress?.({ chunk: chunkCount, chunkCount, rowsDone: state.totalRows, totalRows: state.totalRows })
+
+  let res: Response
+  try {
+    res = await fetch('/api/leads/ingest/finalize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ importId: state.importId, clear: state.clear }),
+    })
+  } catch {
+    throw new ChunkedIngestError('Finalizing the import failed: network error.', { ...state, nextChunk: chunkCount })
+  }
+  const data = (await res.json().catch(() => ({}))) as {
+    error?: string
+    missingChunks?: number[]
+    ingested?: number
+    inserted?: number
+    updated?: number
+    skipped?: number
+    duplicates?: number
+    cleared?: number
+  }
+  if (!res.ok) {
+    // Resume from the first chunk the server does not have.
+    const missing = Array.isArray(data.missingChunks) ? data.missingChunks : []
+    const nextChunk = missing.length > 0 ? Math.min(...missing) : chunkCount
+    throw new ChunkedIngestError(`Finalizing the import failed: ${data.error || `HTTP ${res.status}`}`, { ...state, nextChunk })
+  }
+  return {
+    importId: state.importId,
+    ingested: Number(data.ingested ?? state.totalRows),
+    inserted: Number(data.inserted ?? data.ingested ?? state.totalRows),
+    updated: Number(data.updated ?? 0),
+    skipped: Number(data.skipped ?? 0),
+    duplicates: Number(data.duplicates ?? 0),
+    cleared: Number(data.cleared ?? 0),
+  }
+}
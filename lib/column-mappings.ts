@@ -0,0 +1,87 @@
+import type { getSupabase } from '@/lib/supabase'
+import { COLUMN_MAPPINGS_TABLE } from '@/lib/supabase'
+import { detectColumnMapping, sanitizeColumnMapping, type ColumnMapping } from '@/lib/lead-schema'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+export interface SavedColumnMapping {
+  id: string
+  name: string
+  mapping: ColumnMapping
+  created_at: string
+  updated_at: string
+}
+
+export interface ResolvedColumnMapping {
+  mapping: ColumnMapping
+  /** Where the mapping came from: a saved mapping, one sent with the request, or auto-detection. */
+  source: 'saved' | 'request' | 'detected'
+  /** Detected export format (apollo, sales_navigator, hubspot) when auto-detected. */
+  preset: string | null
+  name?: string
+}
+
+export async function listColumnMappings(supabase: SupabaseClient): Promise<SavedColumnMapping[]> {
+  const { data, error } = await supabase.from(COLUMN_MAPPINGS_TABLE).select('*').order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []) as SavedColumnMapping[]
+}
+
+export async function getColumnMapping(supabase: SupabaseClient, id: string): Promise<SavedColumnMapping | null> {
+  const { data, error } = await supabase.from(COLUMN_MAPPINGS_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return (data as SavedColumnMapping | null) ?? null
+}
+
+/** Creates a mapping, or replaces the one with the same name. */
+export async function saveColumnMapping(
+  supabase: SupabaseClient,
+  name: string,
+  mapping: ColumnMapping
+): Promise<SavedColumnMapping> {
+  const { data, error } = await supabase
+    .from(COLUMN_MAPPINGS_TABLE)
+    .upsert({ name, mapping, updated_at: new Date().toISOString() }, { onConflict: 'name' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as SavedColumnMapping
+}
+
+export async function deleteColumnMapping(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from(COLUMN_MAPPINGS_TABLE).delete().eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Picks the mapping for an uploaded CSV from multipart form fields: "mappingId" (saved mapping),
+ * else "mapping" (JSON object, lead field -> column), else auto-detection from the header.
+ * Throws with a user-facing message when the requested mapping is invalid or not found.
+ */
+export async function resolveColumnMapping(
+  formData: FormData,
+  headers: string[],
+  getClient: () => SupabaseClient
+): Promise<ResolvedColumnMapping> {
+  const mappingId = formData.get('mappingId')
+  if (typeof mappingId === 'string' && mappingId) {
+    const saved = await getColumnMapping(getClient(), mappingId)
+    if (!saved) throw new Error(`Column mapping ${mappingId} not found.`)
+    return { mapping: sanitizeColumnMapping(saved.mapping) ?? {}, source: 'saved', preset: null, name: saved.name }
+  }
+
+  const mappingField = formData.get('mapping')
+  if (typeof mappingField === 'string' && mappingField) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(mappingField)
+    } catch {
+      throw new Error('Column mapping must be a JSON object (lead field -> CSV column).')
+    }
+    const mapping = sanitizeColumnMapping(parsed)
+    if (!mapping) throw new Error('Column mapping must be a JSON object (lead field -> CSV column).')
+    return { mapping, source: 'request', preset: null }
+  }
+
+  return { ...detectColumnMapping(headers), source: 'detected' }
+}
@@ -1,3 +1,12 @@
+import { getLeadField } from '@/lib/lead-schema'
+import {
+  getCommitteeCoverage,
+  getCommitteeRoles,
+  hasCommitteeRoles,
+  type BuyingCommittee,
+  type CommitteeCoverage,
+} from '@/lib/buying-committee'
+
 /**
  * Escapes a value for RFC 4180 CSV (wrap in quotes if contains comma, newline, or quote).
  */
@@ -25,16 +34,6 @@ export function buildCsv(rows: Record<string, string | number>[]): string {
   return [headerLine, ...dataLines].join('\r\n')
 }
 
-const COMPANY_FIELDS = ['account_name', 'Company', 'company']
-
-function getCompany(lead: Record<string, string>): string {
-  for (const field of COMPANY_FIELDS) {
-    const v = lead[field] ?? lead[field.toLowerCase()] ?? lead[field.toUpperCase()]
-    if (v && String(v).trim()) return String(v).trim()
-  }
-  return ''
-}
-
 /**
  * From ranked results, keeps only the top N leads per company (by global rank).
  * Returns a flat list with CompanyRank (1..N within company) for CSV.
@@ -45,7 +44,7 @@ export function topNPerCompany(
 ): { rank: number; score: number; lead: Record<string, string>; companyRank: number }[] {
   const byCompany = new Map<string, { rank: number; score: number; lead: Record<string, string> }[]>()
   for (const r of results) {
-    const company = getCompany(r.lead) || '(No company)'
+    const company = getLeadField(r.lead, 'company') || '(No company)'
     if (!byCompany.has(company)) byCompany.set(company, [])
     byCompany.get(company)!.push(r)
   }
@@ -75,18 +74,71 @@ export function rankedLeadsToCsv(
 }
 
 /**
- * Exports top N leads per company to CSV. Adds "Rank in company" column (1..N).
+ * Exports top N leads per company to CSV. Adds "Rank in company" column (1..N). With a buying
+ * committee, adds the company's committee coverage ("2/3", over all its ranked contacts) and its
+ * missing roles.
  */
 export function rankedLeadsToCsvTopNPerCompany(
   results: { rank: number; score: number; lead: Record<string, string> }[],
-  n: number
+  n: number,
+  committee?: BuyingCommittee
 ): string {
+  const coverageByCompany = new Map<string, CommitteeCoverage>()
+  if (hasCommitteeRoles(committee)) {
+    const leadsByCompany = new Map<string, Record<string, string>[]>()
+    for (const r of results) {
+      const company = getLeadField(r.lead, 'company') || '(No company)'
+      if (!leadsByCompany.has(company)) leadsByCompany.set(company, [])
+      leadsByCompany.get(company)!.push(r.lead)
+    }
+    Array.from(leadsByCompany.entries()).forEach(([company, leads]) => {
+      coverageByCompany.set(company, getCommitteeCoverage(getCommitteeRoles(committee, leads), leads))
+    })
+  }
   const filtered = topNPerCompany(results, n)
-  const rows = filtered.map((r) => ({
-    'Rank in company': String(r.companyRank),
-    Rank: String(r.rank),
-    'Score %': (r.score * 100).toFixed(1),
-    ...r.lead,
+  const rows = filtered.map((r) => {
+    const coverage = coverageByCompany.get(getLeadField(r.lead, 'company') || '(No company)')
+    return {
+      'Rank in company': String(r.companyRank),
+      Rank: String(r.rank),
+      'Score %': (r.score * 100).toFixed(1),
+      ...(coverage && {
+        'Committee coverage': coverage.roles.length > 0 ? `${coverage.coveredRoles.length}/${coverage.roles.length}` : '',
+        'Missing roles': coverage.missingRoles.join('; '),
+      }),
+      ...r.lead,
+    }
+  })
+  return buildCsv(rows)
+}
+
+/**
+ * Exports ranked accounts to CSV: one row per account (Account rank, Company, Domain, Score %,
+ * Best %, Top-k mean %, Coverage %, Contacts, Missing roles).
+ */
+export function rankedAccountsToCsv(
+  accounts: {
+    rank: number
+    company: string
+    domain: string
+    score: number
+    bestScore: number
+    topKMean: number
+    coverage: number | null
+    missingRoles: string[]
+    contacts: unknown[]
+  }[]
+): string {
+  const rows = accounts.map((a) => ({
+    'Account rank': String(a.rank),
+    Company: a.company,
+    Domain: a.domain,
+    'Score %': (a.score * 100).toFixed(1),
+    'Best %': (a.bestScore * 100).toFixed(1),
+    'Top-k mean %': (a.topKMean * 100).toFixed(1),
+    'Coverage %': a.coverage === null ? '' : (a.coverage * 100).toFixed(0),
+    Contacts: String(a.contacts.length),
+    'Missing roles': a.missingRoles.join('; '),
   }))
   return buildCsv(rows)
 }
@@ -16,13 +16,275 @@ const MIGRATION_STATEMENTS = [
   `DROP POLICY IF EXISTS "Service role can do anything" ON public.leads`,
   `CREATE POLICY "Service role full access" ON public.leads FOR ALL TO service_role USING (true) WITH CHECK (true)`,
   `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding jsonb`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_provider text`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_model text`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_dim integer`,
+  `CREATE INDEX IF NOT EXISTS leads_embedding_model_idx ON public.leads (embedding_provider, embedding_model)`,
+  `ALTER TABLE IF EXISTS public.eval_lead_embeddings ADD COLUMN IF NOT EXISTS embedding_provider text`,
+  `ALTER TABLE IF EXISTS public.eval_lead_embeddings ADD COLUMN IF NOT EXISTS embedding_model text`,
+  `ALTER TABLE IF EXISTS public.eval_lead_embeddings ADD COLUMN IF NOT EXISTS embedding_dim integer`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS import_id uuid`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS import_chunk integer`,
+  `CREATE INDEX IF NOT EXISTS leads_import_idx ON public.leads (import_id, import_chunk)`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS lead_key text`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS leads_lead_key_key ON public.leads (lead_key)`,
+  `CREATE TABLE IF NOT EXISTS public.lead_imports (
+    id uuid PRIMARY KEY,
+    chunk_count integer NOT NULL,
+    chunks jsonb NOT NULL DEFAULT '{}'::jsonb,
+    status text NOT NULL DEFAULT 'uploading',
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `ALTER TABLE public.lead_imports ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on lead_imports" ON public.lead_imports`,
+  `CREATE POLICY "Service role full access on lead_imports" ON public.lead_imports FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_template text`,
+  `ALTER TABLE IF EXISTS public.eval_lead_embeddings ADD COLUMN IF NOT EXISTS embedding_template text`,
+  `CREATE TABLE IF NOT EXISTS public.lead_text_templates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    template jsonb NOT NULL,
+    version text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `ALTER TABLE public.lead_text_templates ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on lead_text_templates" ON public.lead_text_templates`,
+  `CREATE POLICY "Service role full access on lead_text_templates" ON public.lead_text_templates FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `CREATE TABLE IF NOT EXISTS public.scoring_profiles (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    profile jsonb NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on scoring_profiles" ON public.scoring_profiles`,
+  `CREATE POLICY "Service role full access on scoring_profiles" ON public.scoring_profiles FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `CREATE TABLE IF NOT EXISTS public.lead_explanations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_hash text NOT NULL,
+    profile_hash text NOT NULL,
+    provider text NOT NULL,
+    explanation text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (lead_hash, profile_hash, provider)
+  )`,
+  `ALTER TABLE public.lead_explanations ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on lead_explanations" ON public.lead_explanations`,
+  `CREATE POLICY "Service role full access on lead_explanations" ON public.lead_explanations FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `CREATE TABLE IF NOT EXISTS public.personas (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    characteristics text NOT NULL,
+    current_version integer NOT NULL DEFAULT 1,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `CREATE TABLE IF NOT EXISTS public.persona_versions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    persona_id uuid NOT NULL REFERENCES public.personas (id) ON DELETE CASCADE,
+    version integer NOT NULL,
+    characteristics text NOT NULL,
+    source text NOT NULL DEFAULT 'manual',
+    eval_score double precision,
+    eval_metrics jsonb,
+    note text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (persona_id, version)
+  )`,
+  `ALTER TABLE public.personas ENABLE ROW LEVEL SECURITY`,
+  `ALTER TABLE public.persona_versions ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on personas" ON public.personas`,
+  `CREATE POLICY "Service role full access on personas" ON public.personas FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `DROP POLICY IF EXISTS "Service role full access on persona_versions" ON public.persona_versions`,
+  `CREATE POLICY "Service role full access on persona_versions" ON public.persona_versions FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `CREATE TABLE IF NOT EXISTS public.rank_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    persona_id uuid REFERENCES public.personas (id) ON DELETE SET NULL,
+    persona_name text,
+    persona_version integer,
+    characteristics text NOT NULL,
+    mode text NOT NULL DEFAULT 'leads',
+    request jsonb NOT NULL,
+    scoring_profile jsonb NOT NULL,
+    lead_text_template jsonb NOT NULL,
+    embedding_provider text NOT NULL,
+    embedding_model text NOT NULL,
+    search_mode text NOT NULL,
+    lead_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+    total_processed integer NOT NULL DEFAULT 0,
+    total_ranked integer NOT NULL DEFAULT 0,
+    results jsonb NOT NULL DEFAULT '[]'::jsonb,
+    results_truncated boolean NOT NULL DEFAULT false,
+    rerun_of uuid REFERENCES public.rank_runs (id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS rank_runs_created_at_idx ON public.rank_runs (created_at DESC)`,
+  `ALTER TABLE public.rank_runs ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on rank_runs" ON public.rank_runs`,
+  `CREATE POLICY "Service role full access on rank_runs" ON public.rank_runs FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `ALTER TABLE public.lead_explanations ADD COLUMN IF NOT EXISTS score_hash text NOT NULL DEFAULT ''`,
+  `ALTER TABLE public.lead_explanations DROP CONSTRAINT IF EXISTS lead_explanations_lead_hash_profile_hash_provider_key`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS lead_explanations_key_idx ON public.lead_explanations (lead_hash, profile_hash, provider, score_hash)`,
+  `CREATE TABLE IF NOT EXISTS public.lead_embedding_cache (
+    lead_id uuid NOT NULL REFERENCES public.leads (id) ON DELETE CASCADE,
+    embedding_provider text NOT NULL,
+    embedding_model text NOT NULL,
+    embedding_dim integer NOT NULL,
+    embedding_template text NOT NULL,
+    data_hash text NOT NULL,
+    embedding jsonb NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (lead_id, embedding_provider, embedding_model, embedding_dim, embedding_template)
+  )`,
+  `ALTER TABLE public.lead_embedding_cache ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on lead_embedding_cache" ON public.lead_embedding_cache`,
+  `CREATE POLICY "Service role full access on lead_embedding_cache" ON public.lead_embedding_cache FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS import_pending boolean NOT NULL DEFAULT false`,
+  `CREATE INDEX IF NOT EXISTS leads_import_pending_idx ON public.leads (import_id) WHERE import_pending`,
+  `CREATE TABLE IF NOT EXISTS public.column_mappings (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    mapping jsonb NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `ALTER TABLE public.column_mappings ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on column_mappings" ON public.column_mappings`,
+  `CREATE POLICY "Service role full access on column_mappings" ON public.column_mappings FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+  `CREATE TABLE IF NOT EXISTS public.lead_reembed_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    status text NOT NULL DEFAULT 'running',
+    embedding_provider text NOT NULL,
+    embedding_model text NOT NULL,
+    only_stale boolean NOT NULL DEFAULT true,
+    cursor_id uuid,
+    processed integer NOT NULL DEFAULT 0,
+    total integer NOT NULL DEFAULT 0,
+    error text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  )`,
+  `ALTER TABLE public.lead_reembed_jobs ADD COLUMN IF NOT EXISTS embedding_template text`,
+  `ALTER TABLE public.lead_reembed_jobs ADD COLUMN IF NOT EXISTS lead_text_template jsonb`,
+  `CREATE INDEX IF NOT EXISTS lead_reembed_jobs_status_idx ON public.lead_reembed_jobs (status, created_at DESC)`,
+  `ALTER TABLE public.lead_reembed_jobs ENABLE ROW LEVEL SECURITY`,
+  `DROP POLICY IF EXISTS "Service role full access on lead_reembed_jobs" ON public.lead_reembed_jobs`,
+  `CREATE POLICY "Service role full access on lead_reembed_jobs" ON public.lead_reembed_jobs FOR ALL TO service_role USING (true) WITH CHECK (true)`,
+]
+
+/**
+ * Optional pgvector support (same as supabase/migrations/006_pgvector.sql, with match_leads
+ * replaced by match_lead_scores from 017_pgvector_match_lead_scores.sql). Run best-effort:
+ * if the vector extension is not available, ranking falls back to scoring in Node.
+ */
+const PGVECTOR_STATEMENTS = [
+  `CREATE EXTENSION IF NOT EXISTS vector`,
+  `ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_vec vector`,
+  `CREATE OR REPLACE FUNCTION public.leads_sync_embedding_vec() RETURNS trigger LANGUAGE plpgsql AS $$
+  BEGIN
+    IF new.embedding IS NULL OR jsonb_typeof(new.embedding) <> 'array' OR jsonb_array_length(new.embedding) = 0 THEN
+      new.embedding_vec := NULL;
+    ELSE
+      new.embedding_vec := (new.embedding::text)::vector;
+    END IF;
+    RETURN new;
+  END;
+  $$`,
+  `DROP TRIGGER IF EXISTS leads_sync_embedding_vec ON public.leads`,
+  `CREATE TRIGGER leads_sync_embedding_vec BEFORE INSERT OR UPDATE OF embedding ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.leads_sync_embedding_vec()`,
+  `UPDATE public.leads SET embedding_vec = (embedding::text)::vector
+    WHERE embedding_vec IS NULL AND embedding IS NOT NULL
+      AND jsonb_typeof(embedding) = 'array' AND jsonb_array_length(embedding) > 0`,
+  // match_leads (006, then 015 with filter_template) is replaced by match_lead_scores (017).
+  `DROP FUNCTION IF EXISTS public.match_leads(vector, vector, vector, double precision, double precision, double precision, integer, text, text)`,
+  `DROP FUNCTION IF EXISTS public.match_leads(vector, vector, vector, double precision, double precision, double precision, integer, text, text, text)`,
+  `CREATE OR REPLACE FUNCTION public.lead_section_similarity(lead vector, whole vector, clauses vector[], aggregation text)
+  RETURNS double precision LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+      WHEN aggregation IS NULL OR coalesce(cardinality(clauses), 0) = 0 THEN 1 - (lead <=> whole)
+      WHEN aggregation = 'max' THEN (SELECT max(1 - (lead <=> c)) FROM unnest(clauses) c)
+      ELSE (
+        SELECT sum(w.sim * exp((w.sim - w.best) / 0.05)) / sum(exp((w.sim - w.best) / 0.05))
+        FROM (
+          SELECT s.sim, max(s.sim) OVER () AS best
+          FROM (SELECT 1 - (lead <=> c) AS sim FROM unnest(clauses) c) s
+        ) w
+      )
+    END;
+  $$`,
+  `CREATE OR REPLACE FUNCTION public.match_lead_scores(
+    queries jsonb,
+    aggregation text DEFAULT NULL,
+    avoid_weight double precision DEFAULT 0.45,
+    prefer_weight double precision DEFAULT 0.2,
+    avoid_threshold double precision DEFAULT 0.25,
+    match_count integer DEFAULT 1000,
+    filter_provider text DEFAULT NULL,
+    filter_model text DEFAULT NULL,
+    filter_template text DEFAULT NULL
+  )
+  RETURNS TABLE (id uuid, score double precision)
+  LANGUAGE sql STABLE AS $$
+    WITH q AS (
+      SELECT
+        (e->>'target')::vector AS target,
+        (e->>'avoid')::vector AS avoid,
+        (e->>'prefer')::vector AS prefer,
+        array(SELECT c::text::vector FROM jsonb_array_elements(coalesce(e->'targetClauses', '[]')) c) AS target_clauses,
+        array(SELECT c::text::vector FROM jsonb_array_elements(coalesce(e->'avoidClauses', '[]')) c) AS avoid_clauses,
+        array(SELECT c::text::vector FROM jsonb_array_elements(coalesce(e->'preferClauses', '[]')) c) AS prefer_clauses
+      FROM jsonb_array_elements(queries) e
+    )
+    SELECT m.id, max(m.score) AS score
+    FROM q
+    CROSS JOIN LATERAL (
+      SELECT s.id,
+        greatest(0, least(1,
+          (s.sim_target + 1) / 2
+          - CASE WHEN q.avoid IS NULL THEN 0 ELSE avoid_weight * greatest(0, s.sim_avoid - avoid_threshold) END
+          + CASE WHEN q.prefer IS NULL THEN 0 ELSE prefer_weight * s.sim_prefer END
+        )) AS score
+      FROM (
+        SELECT l.id,
+          public.lead_section_similarity(l.embedding_vec, q.target, q.target_clauses, aggregation) AS sim_target,
+          CASE WHEN q.avoid IS NULL THEN 0
+            ELSE public.lead_section_similarity(l.embedding_vec, q.avoid, q.avoid_clauses, aggregation) END AS sim_avoid,
+          CASE WHEN q.prefer IS NULL THEN 0
+            ELSE public.lead_section_similarity(l.embedding_vec, q.prefer, q.prefer_clauses, aggregation) END AS sim_prefer
+        FROM public.leads l
+        WHERE l.embedding_vec IS NOT NULL
+          AND vector_dims(l.embedding_vec) = vector_dims(q.target)
+          AND (filter_provider IS NULL OR l.embedding_provider = filter_provider)
+          AND (filter_model IS NULL OR l.embedding_model = filter_model)
+          AND (filter_template IS NULL OR coalesce(l.embedding_template, 'default') = filter_template)
+      ) s
+      ORDER BY score DESC
+      LIMIT match_count
+    ) m
+    GROUP BY m.id
+    ORDER BY score DESC;
+  $$`,
 ]
 
 let ensured = false
 
-/** Call this when Supabase returns an error; if it's "table not found", returns a message for the user. */
+/**
+ * Call this when Supabase returns an error; if it's "table not found" (or a column added by a newer
+ * migration is missing), returns a message for the user.
+ */
 export function getTableMissingMessage(supabaseErrorMessage: string): string | null {
   const lower = supabaseErrorMessage.toLowerCase()
+  if (lower.includes('column') && (lower.includes('does not exist') || lower.includes('could not find'))) {
+    return (
+      'The database schema is out of date (missing column). ' +
+      'Set DATABASE_URL in .env.local and restart the server so the app can migrate it automatically, ' +
+      'or run the newer files in supabase/migrations/ in Supabase → SQL Editor.'
+    )
+  }
   if (
     lower.includes('could not find the table') ||
     (lower.includes('relation') && lower.includes('does not exist')) ||
@@ -38,6 +300,24 @@ export function getTableMissingMessage(supabaseErrorMessage: string): string | n
   return null
 }
 
+/**
+ * Maps a Supabase error message to a user-facing error and HTTP status
+ * (missing table/column, network problem, or "<failurePrefix>: <message>").
+ */
+export function getSupabaseErrorResponse(supabaseErrorMessage: string, failurePrefix: string): { error: string; status: number } {
+  const tableMissing = getTableMissingMessage(supabaseErrorMessage)
+  if (tableMissing) {
+    return { error: tableMissing, status: 503 }
+  }
+  const isNetwork = /fetch failed|ECONNREFUSED|ETIMEDOUT|ENOTFOUND/i.test(supabaseErrorMessage)
+  return isNetwork
+    ? {
+        error: `Cannot reach Supabase: ${supabaseErrorMessage}. Check NEXT_PUBLIC_SUPABASE_URL (https://xxx.supabase.co) and that the server can access the internet.`,
+        status: 503,
+      }
+    : { error: `${failurePrefix}: ${supabaseErrorMessage}`, status: 500 }
+}
+
 export async function ensureLeadsTable(): Promise<void> {
   const databaseUrl = process.env.DATABASE_URL
   if (!databaseUrl) {
@@ -55,6 +335,13 @@ export async function ensureLeadsTable(): Promise<void> {
       for (const sql of MIGRATION_STATEMENTS) {
         await client.query(sql)
       }
+      try {
+        for (const sql of PGVECTOR_STATEMENTS) {
+          await client.query(sql)
+        }
+      } catch (vecErr) {
+        console.warn('pgvector not available; /api/rank/db will score leads in Node:', vecErr instanceof Error ? vecErr.message : vecErr)
+      }
       ensured = true
       return
     } catch (err: unknown) {
@@ -0,0 +1,400 @@
+import { NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { GoogleGenAI } from '@google/genai'
+import { embedLocal, embedLocalBatch, LOCAL_EMBED_DIM, LOCAL_EMBED_MODEL } from '@/lib/local-embeddings'
+import { DEFAULT_LEAD_TEXT_TEMPLATE_VERSION } from '@/lib/lead-text'
+
+/** How a provider wants to be paced. */
+export interface RateLimitPolicy {
+  /** Retries on 429 / quota errors before giving up (0 = fail immediately). */
+  maxRetries: number
+  /** Pause between consecutive batch requests, in ms. */
+  batchDelayMs: number
+}
+
+/**
+ * An embedding backend. Register new ones with registerEmbeddingProvider(); the active one is
+ * picked by AI_PROVIDER, so ranking and the API routes never need to know which is in use.
+ */
+export interface EmbeddingProvider {
+  /** Value of AI_PROVIDER that selects this provider (lowercase). */
+  name: string
+  /** Model identifier, stored alongside embeddings. */
+  modelId: string
+  /** Vector length, or null when it depends on a configurable model. Vectors of another length are rejected. */
+  dimension: number | null
+  /** Max texts per embedBatch call; generateEmbeddingBatch splits larger inputs. */
+  maxBatchSize: number
+  rateLimit: RateLimitPolicy
+  /** True when the required env (API key, token) is present. */
+  isConfigured(): boolean
+  /** Shown to the user when isConfigured() is false. */
+  missingConfigMessage: string
+  embed(text: string): Promise<number[]>
+  /** Embeds at most maxBatchSize texts, in order. */
+  embedBatch(texts: string[]): Promise<number[][]>
+}
+
+/** Identifies the vector space an embedding belongs to. Stored next to every persisted embedding. */
+export interface EmbeddingTag {
+  provider: string
+  model: string
+  /** Null when the provider does not know it up front; use the stored vector length instead. */
+  dimension: number | null
+  /** Lead text template version the embedded text was rendered with (see lib/lead-text.ts). */
+  template: string
+}
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'huggingface'
+
+const registry = new Map<string, EmbeddingProvider>()
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  registry.set(provider.name.toLowerCase(), provider)
+}
+
+export function getEmbeddingProvider(name: string): EmbeddingProvider | undefined {
+  return registry.get(name.toLowerCase())
+}
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * The provider selected by AI_PROVIDER (default: huggingface). Throws on an unknown name.
+ */
+export function getActiveEmbeddingProvider(): EmbeddingProvider {
+  const name = (process.env.AI_PROVIDER || DEFAULT_EMBEDDING_PROVIDER).toLowerCase()
+  const provider = registry.get(name)
+  if (!provider) {
+    const known = Array.from(registry.keys()).join(', ')
+    throw new Error(`Unknown AI_PROVIDER "${name}". Use one of: ${known}.`)
+  }
+  return provider
+}
+
+/** Tag for embeddings produced right now by the active provider, from text rendered with `templateVersion`. */
+export function getActiveEmbeddingTag(templateVersion: string = DEFAULT_LEAD_TEXT_TEMPLATE_VERSION): EmbeddingTag {
+  const provider = getActiveEmbeddingProvider()
+  return { provider: provider.name, model: provider.modelId, dimension: provider.dimension, template: templateVersion }
+}
+
+/**
+ * True when a stored embedding was produced by the same provider and model as `active`
+ * (and, when both are known, has the same dimension) from text rendered with the same template.
+ * A missing stored template means the default one (rows stored before templates existed).
+ */
+export function embeddingTagMatches(
+  stored: { provider?: string | null; model?: string | null; dimension?: number | null; template?: string | null },
+  active: EmbeddingTag
+): boolean {
+  if (stored.provider !== active.provider || stored.model !== active.model) return false
+  if ((stored.template ?? DEFAULT_LEAD_TEXT_TEMPLATE_VERSION) !== active.template) return false
+  if (stored.dimension != null && active.dimension != null && stored.dimension !== active.dimension) return false
+  return true
+}
+
+/**
+ * Readiness check for API routes: is the active provider known and configured?
+ */
+export function getEmbeddingProviderStatus(): { ready: boolean; provider: string; error?: string } {
+  let provider: EmbeddingProvider
+  try {
+    provider = getActiveEmbeddingProvider()
+  } catch (err) {
+    const name = (process.env.AI_PROVIDER || DEFAULT_EMBEDDING_PROVIDER).toLowerCase()
+    return { ready: false, provider: name, error: err instanceof Error ? err.message : String(err) }
+  }
+  if (!provider.isConfigured()) {
+    return { ready: false, provider: provider.name, error: provider.missingConfigMessage }
+  }
+  return { ready: true, provider: provider.name }
+}
+
+/** Error response (500) for API routes when the active provider is not ready; null when it is. */
+export function getEmbeddingProviderErrorResponse(): NextResponse | null {
+  const status = getEmbeddingProviderStatus()
+  return status.ready ? null : NextResponse.json({ error: status.error }, { status: 500 })
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting helpers (shared by all providers)
+// ---------------------------------------------------------------------------
+
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000
+const MAX_RATE_LIMIT_WAIT_MS = 120_000
+
+/** Parse "Please retry in 58.015976945s" from Gemini 429 error message. Returns ms. */
+function parseRetryAfterMs(error: unknown): number {
+  const msg = error instanceof Error ? error.message : String(error)
+  const match = msg.match(/[Rr]etry in ([\d.]+)s/)
+  if (match) {
+    const sec = parseFloat(match[1])
+    const ms = Math.ceil(sec * 1000)
+    return Math.min(MAX_RATE_LIMIT_WAIT_MS, Math.max(5_000, ms))
+  }
+  return DEFAULT_RATE_LIMIT_WAIT_MS
+}
+
+function isRateLimitError(error: unknown): boolean {
+  const msg = error instanceof Error ? error.message : String(error)
+  return msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED') || msg.includes('quota')
+}
+
+/** User-friendly message when quota is exceeded (e.g. daily 1000 limit). */
+export function getQuotaErrorMessage(error: unknown): string | null {
+  const msg = error instanceof Error ? error.message : String(error)
+  if (msg.includes('PerDay') || msg.includes('1000') && msg.includes('quota')) {
+    return 'Daily embedding limit reached (1000/day on free tier). Try again tomorrow or reduce the number of leads in the CSV.'
+  }
+  return null
+}
+
+/**
+ * Runs fn, retrying with the provider's policy when the API returns 429 (quota limit).
+ */
+export async function withRateLimitRetry<T>(provider: EmbeddingProvider, fn: () => Promise<T>): Promise<T> {
+  const maxRetries = provider.rateLimit.maxRetries
+  let lastErr: unknown
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      lastErr = err
+      if (attempt < maxRetries && isRateLimitError(err)) {
+        const waitMs = parseRetryAfterMs(err)
+        console.log(`Embedding rate limit (429). Waiting ${waitMs / 1000}s before retry (attempt ${attempt + 1}/${maxRetries})...`)
+        await new Promise((r) => setTimeout(r, waitMs))
+        continue
+      }
+      throw err
+    }
+  }
+  throw lastErr
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI
+// ---------------------------------------------------------------------------
+
+let _openai: OpenAI | null = null
+let _gemini: GoogleGenAI | null = null
+
+export function getOpenAI(): OpenAI {
+  if (!_openai) {
+    const apiKey = process.env.OPENAI_API_KEY
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured. Please set the environment variable.')
+    }
+    _openai = new OpenAI({ apiKey })
+  }
+  return _openai
+}
+
+export function getGemini(): GoogleGenAI {
+  if (!_gemini) {
+    const apiKey = process.env.GEMINI_API_KEY
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not configured. Please set the environment variable.')
+    }
+    _gemini = new GoogleGenAI({ apiKey })
+  }
+  return _gemini
+}
+
+const OPENAI_EMBED_MODEL = 'text-embedding-3-small'
+
+const openaiProvider: EmbeddingProvider = {
+  name: 'openai',
+  modelId: OPENAI_EMBED_MODEL,
+  dimension: 1536,
+  maxBatchSize: 2048,
+  rateLimit: { maxRetries: 0, batchDelayMs: 0 },
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  missingConfigMessage:
+    'Set OPENAI_API_KEY, or use AI_PROVIDER=gemini / AI_PROVIDER=huggingface with the matching API key (or AI_PROVIDER=local for offline embeddings).',
+  async embed(text) {
+    const response = await getOpenAI().embeddings.create({ model: OPENAI_EMBED_MODEL, input: text })
+    return response.data[0].embedding
+  },
+  async embedBatch(texts) {
+    if (texts.length === 0) return []
+    const response = await getOpenAI().embeddings.create({ model: OPENAI_EMBED_MODEL, input: texts })
+    return response.data.map((d) => d.embedding)
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Google Gemini
+// ---------------------------------------------------------------------------
+
+const GEMINI_EMBED_MODEL = 'gemini-embedding-001'
+
+const geminiProvider: EmbeddingProvider = {
+  name: 'gemini',
+  modelId: GEMINI_EMBED_MODEL,
+  dimension: 3072,
+  // Each batch = 1 request; stays under the 100 requests/min free tier.
+  maxBatchSize: 50,
+  // Delay between batches to avoid exceeding quota (100/min and 1000/day).
+  rateLimit: { maxRetries: 5, batchDelayMs: 2500 },
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  missingConfigMessage: 'GEMINI_API_KEY is not configured. Set AI_PROVIDER=gemini and add GEMINI_API_KEY to .env.local.',
+  async embed(text) {
+    const response = await getGemini().models.embedContent({
+      model: GEMINI_EMBED_MODEL,
+      contents: text,
+      config: { taskType: 'SEMANTIC_SIMILARITY' },
+    })
+    const values = response.embeddings?.[0]?.values
+    if (!values || values.length === 0) {
+      throw new Error('Gemini returned no embedding')
+    }
+    return values
+  },
+  async embedBatch(texts) {
+    if (texts.length === 0) return []
+    const response = await getGemini().models.embedContent({
+      model: GEMINI_EMBED_MODEL,
+      contents: texts,
+      config: { taskType: 'SEMANTIC_SIMILARITY' },
+    })
+    const embeddings = (response.embeddings ?? []).map((e) => e.values ?? [])
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Gemini returned ${embeddings.length} embeddings, expected ${texts.length}`)
+    }
+    return embeddings
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Hugging Face Inference API (router)
+// ---------------------------------------------------------------------------
+
+const DEFAULT_HF_EMBED_MODEL = 'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2'
+const HF_EMBED_MODEL = process.env.HF_EMBED_MODEL || DEFAULT_HF_EMBED_MODEL
+/** Direct Inference API URL to avoid SDK provider resolution (which can timeout). */
+const HF_INFERENCE_URL = process.env.HF_INFERENCE_URL || 'https://router.huggingface.co'
+const HF_FETCH_TIMEOUT_MS = 90_000
+
+function getHuggingFaceToken(): string {
+  const token = process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN
+  if (!token) {
+    throw new Error('HUGGINGFACE_TOKEN (or HF_TOKEN) is not configured. Get a token at https://huggingface.co/settings/tokens')
+  }
+  return token
+}
+
+/** Recursively get the first array of numbers (embedding vector) at any depth. */
+function extractEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && typeof value[0] === 'number') return value as number[]
+    if (value.length > 0) return extractEmbedding(value[0])
+  }
+  return null
+}
+
+/** Normalize HF feature-extraction output to a single embedding (number[]). */
+function normalizeHfEmbedding(out: unknown): number[] {
+  if (!out || !Array.isArray(out)) throw new Error('Hugging Face returned no embedding')
+  // Single input can return: [[...]], [...], or [[[...]]] (token-level)
+  const emb = extractEmbedding(out) ?? extractEmbedding(out[0])
+  if (emb?.length) return emb
+  throw new Error('Hugging Face returned unexpected embedding format')
+}
+
+/** Normalize HF feature-extraction output to array of embeddings. */
+function normalizeHfEmbeddingBatch(out: unknown, expectedLen: number): number[][] {
+  if (!Array.isArray(out)) {
+    throw new Error(`Hugging Face returned invalid response, expected ${expectedLen} embeddings`)
+  }
+  const result: number[][] = []
+  for (let i = 0; i < out.length; i++) {
+    const emb = extractEmbedding(out[i])
+    if (emb?.length) result.push(emb)
+    else result.push([])
+  }
+  if (result.length !== expectedLen) {
+    throw new Error(`Hugging Face returned ${result.length} embeddings, expected ${expectedLen}`)
+  }
+  return result
+}
+
+/**
+ * Hugging Face Inference API via direct fetch.
+ * Router (router.huggingface.co) uses path: /hf-inference/models/{model}/pipeline/feature-extraction
+ */
+async function hfFetchEmbeddings(inputs: string | string[]): Promise<unknown> {
+  const token = getHuggingFaceToken()
+  const base = HF_INFERENCE_URL.replace(/\/$/, '')
+  const modelPath = encodeURIComponent(HF_EMBED_MODEL)
+  const url = `${base}/hf-inference/models/${modelPath}/pipeline/feature-extraction`
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), HF_FETCH_TIMEOUT_MS)
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs }),
+      signal: controller.signal,
+    })
+    clearTimeout(timeoutId)
+    if (!res.ok) {
+      const text = await res.text()
+      throw new Error(`Hugging Face API ${res.status}: ${text || res.statusText}`)
+    }
+    return await res.json()
+  } catch (err) {
+    clearTimeout(timeoutId)
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error('Hugging Face request timed out. Try again or set HF_INFERENCE_URL / use another provider.')
+    }
+    throw err
+  }
+}
+
+const huggingFaceProvider: EmbeddingProvider = {
+  name: 'huggingface',
+  modelId: HF_EMBED_MODEL,
+  dimension: HF_EMBED_MODEL === DEFAULT_HF_EMBED_MODEL ? 384 : null,
+  maxBatchSize: 32,
+  rateLimit: { maxRetries: 0, batchDelayMs: 0 },
+  isConfigured: () => !!(process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN),
+  missingConfigMessage: 'HUGGINGFACE_TOKEN (or HF_TOKEN) is not configured. Get a token at https://huggingface.co/settings/tokens',
+  async embed(text) {
+    return normalizeHfEmbedding(await hfFetchEmbeddings(text))
+  },
+  async embedBatch(texts) {
+    if (texts.length === 0) return []
+    return normalizeHfEmbeddingBatch(await hfFetchEmbeddings(texts), texts.length)
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Local (in-process, offline)
+// ---------------------------------------------------------------------------
+
+const localProvider: EmbeddingProvider = {
+  name: 'local',
+  modelId: LOCAL_EMBED_MODEL,
+  dimension: LOCAL_EMBED_DIM,
+  maxBatchSize: 1000,
+  rateLimit: { maxRetries: 0, batchDelayMs: 0 },
+  isConfigured: () => true,
+  missingConfigMessage: '',
+  async embed(text) {
+    return embedLocal(text)
+  },
+  async embedBatch(texts) {
+    return embedLocalBatch(texts)
+  },
+}
+
+registerEmbeddingProvider(openaiProvider)
+registerEmbeddingProvider(geminiProvider)
+registerEmbeddingProvider(huggingFaceProvider)
+registerEmbeddingProvider(localProvider)
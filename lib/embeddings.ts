@@ -1,134 +1,58 @@
-import OpenAI from 'openai'
-import { GoogleGenAI } from '@google/genai'
-
-const PROVIDER = (process.env.AI_PROVIDER || 'huggingface').toLowerCase()
-
-const HF_EMBED_MODEL = process.env.HF_EMBED_MODEL || 'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2'
-const HF_EMBED_BATCH_SIZE = 32
-/** Direct Inference API URL to avoid SDK provider resolution (which can timeout). */
-const HF_INFERENCE_URL = process.env.HF_INFERENCE_URL || 'https://router.huggingface.co'
-const HF_FETCH_TIMEOUT_MS = 90_000
-
-function getHuggingFaceToken(): string {
-  const token = process.env.HUGGINGFACE_TOKEN || process.env.HF_TOKEN
-  if (!token) {
-    throw new Error('HUGGINGFACE_TOKEN (or HF_TOKEN) is not configured. Get a token at https://huggingface.co/settings/tokens')
-  }
-  return token
-}
-
-let _openai: OpenAI | null = null
-let _gemini: GoogleGenAI | null = null
-
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured. Please set the environment variable.')
-    }
-    _openai = new OpenAI({ apiKey })
-  }
-  return _openai
-}
-
-function getGemini(): GoogleGenAI {
-  if (!_gemini) {
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is not configured. Please set the environment variable.')
-    }
-    _gemini = new GoogleGenAI({ apiKey })
-  }
-  return _gemini
-}
-
-
-/**
- * Converts a lead into structured text for embeddings (role and company first for better matching).
- */
-export function leadToText(lead: Record<string, string>): string {
-  const getFieldValue = (possibleFields: string[]): string => {
-    for (const field of possibleFields) {
-      const value = lead[field] || lead[field.toLowerCase()] || lead[field.toUpperCase()]
-      if (value && value.trim()) {
-        return value
-      }
-    }
-    return ''
-  }
-
-  const parts: string[] = []
-  const title = getFieldValue(['lead_job_title', 'Title', 'title'])
-  const company = getFieldValue(['account_name', 'Company', 'company'])
-  const industry = getFieldValue(['account_industry', 'Industry', 'industry'])
-  const employeeRange = getFieldValue(['account_employee_range', 'Employee Range', 'employee_range'])
-
-  if (title) parts.push(`Role: ${title}`)
-  if (company) parts.push(`Company: ${company}`)
-  if (industry) parts.push(`Industry: ${industry}`)
-  if (employeeRange) parts.push(`Company size: ${employeeRange}`)
-
-  const fullName = getFieldValue(['Full Name', 'full_name'])
-  const firstName = getFieldValue(['lead_first_name'])
-  const lastName = getFieldValue(['lead_last_name'])
-  if (fullName) {
-    parts.push(`Name: ${fullName}`)
-  } else if (firstName || lastName) {
-    parts.push(`Name: ${firstName} ${lastName}`.trim())
-  }
-
-  const domain = getFieldValue(['account_domain', 'domain'])
-  if (domain) parts.push(`Domain: ${domain}`)
-
-  const shownKeys = new Set([
-    'Full Name', 'full_name', 'lead_first_name', 'lead_last_name',
-    'lead_job_title', 'Title', 'title',
-    'account_name', 'Company', 'company',
-    'account_industry', 'Industry', 'industry',
-    'account_employee_range', 'Employee Range', 'employee_range',
-    'account_domain', 'domain', 'LI', 'linkedin', 'LinkedIn', 'Rank'
-  ])
-
-  Object.entries(lead).forEach(([key, value]) => {
-    if (value && value.trim() && !shownKeys.has(key) && !shownKeys.has(key.toLowerCase())) {
-      parts.push(`${key}: ${value}`)
-    }
-  })
-
-  return parts.length ? `Lead. ${parts.join('. ')}` : 'Lead.'
-}
-
-/** Weight applied to the *excess* avoid similarity (above threshold). Keeps Target as main signal. */
-export const AVOID_PENALTY_WEIGHT = 0.45
-
-/** Weight for Prefer bonus. Kept moderate so Target order is preserved. */
-export const PREFER_BONUS_WEIGHT = 0.2
-
-/** Only penalize when similarity to Avoid is above this (avoids over-penalizing from long Avoid text). */
-const AVOID_SIMILARITY_THRESHOLD = 0.25
+import {
+  getActiveEmbeddingProvider,
+  getQuotaErrorMessage,
+  withRateLimitRetry,
+  type EmbeddingProvider,
+} from '@/lib/embedding-providers'
+import { DEFAULT_SCORING_PROFILE, type ScoreComponents, type ScoringWeights } from '@/lib/scoring'
+import { extractProfileFilters } from '@/lib/lead-filters'
+import { splitProfileSegments, type EmployeeSegment } from '@/lib/profile-segments'
+import { stripCommitteeSections } from '@/lib/buying-committee'
+import { THROXY_EXAMPLE_PROFILE } from '@/lib/exampleProfile'
 
 /**
  * Computes a normalized lead score in [0, 1]. Target is the primary signal; Avoid and Prefer
  * modify it without overwhelming. We only penalize Avoid when the lead clearly matches (above
  * threshold), so that long optimizer-generated Avoid text does not pull down good Target matches.
+ * Weights come from a scoring profile (lib/scoring.ts); default: DEFAULT_SCORING_PROFILE.
  */
 export function computeLeadScore(
   simTarget: number,
   simAvoid: number,
   simPrefer: number,
   hasAvoid: boolean,
-  hasPrefer: boolean
+  hasPrefer: boolean,
+  weights: ScoringWeights = DEFAULT_SCORING_PROFILE
 ): number {
+  return computeLeadScoreComponents(simTarget, simAvoid, simPrefer, hasAvoid, hasPrefer, weights).score
+}
+
+/** computeLeadScore with its parts: base score, avoid penalty, prefer bonus and which one dominated. */
+export function computeLeadScoreComponents(
+  simTarget: number,
+  simAvoid: number,
+  simPrefer: number,
+  hasAvoid: boolean,
+  hasPrefer: boolean,
+  weights: ScoringWeights = DEFAULT_SCORING_PROFILE
+): ScoreComponents {
   const base = (simTarget + 1) / 2
-  if (!hasAvoid && !hasPrefer) {
-    return Math.max(0, Math.min(1, base))
-  }
   const penalty = hasAvoid
-    ? AVOID_PENALTY_WEIGHT * Math.max(0, simAvoid - AVOID_SIMILARITY_THRESHOLD)
+    ? weights.avoidPenaltyWeight * Math.max(0, simAvoid - weights.avoidSimilarityThreshold)
     : 0
-  const bonus = hasPrefer ? PREFER_BONUS_WEIGHT * simPrefer : 0
-  const score = base - penalty + bonus
-  return Math.max(0, Math.min(1, score))
+  const bonus = hasPrefer ? weights.preferBonusWeight * simPrefer : 0
+  const score = Math.max(0, Math.min(1, base - penalty + bonus))
+  const dominant = penalty === 0 && bonus === 0 ? 'target' : penalty >= Math.abs(bonus) ? 'avoid' : 'prefer'
+  return {
+    targetSimilarity: simTarget,
+    avoidSimilarity: hasAvoid ? simAvoid : null,
+    preferSimilarity: hasPrefer ? simPrefer : null,
+    baseScore: base,
+    avoidPenalty: penalty,
+    preferBonus: bonus,
+    score,
+    dominant,
+  }
 }
 
 /**
@@ -145,255 +69,227 @@ function stripMarkdown(text: string): string {
 }
 
 /**
- * Splits the profile text into "target", "avoid" and "prefer".
- * Accepts multi-line sections. Strips residual markdown from text.
+ * How per-clause similarities are combined into one section similarity (multi-vector profiles):
+ * 'max' takes the best clause; 'softmax' is a softmax-weighted mean, between the mean and the max.
  */
-export function parseProfileForEmbedding(characteristics: string): {
+export type ClauseAggregation = 'max' | 'softmax'
+
+export const CLAUSE_AGGREGATIONS: ClauseAggregation[] = ['max', 'softmax']
+
+/** Target / Avoid / Prefer texts to embed (with their "Target profile:"-style prefixes). */
+export interface ProfileTexts {
   targetText: string
   avoidText: string | null
   preferText: string | null
-} {
-  const trimmed = characteristics.trim()
-
-  const extractSection = (fromLabel: string): string => {
-    const re = new RegExp(`\\b${fromLabel}\\s*:\\s*([\\s\\S]*?)(?=\\b(Target|Avoid|Prefer)\\s*:|$)`, 'i')
-    const m = trimmed.match(re)
-    if (!m || !m[1]) return ''
-    return stripMarkdown(m[1].trim())
-  }
+  /** Individual clauses of each section (only with splitClauses), without the prefixes. */
+  targetClauses?: string[]
+  avoidClauses?: string[]
+  preferClauses?: string[]
+}
 
-  const hasStructuredSections =
-    trimmed.search(/\bTarget\s*:/i) >= 0 ||
-    trimmed.search(/\bAvoid\s*:/i) >= 0 ||
-    trimmed.search(/\bPrefer\s*:/i) >= 0
+const SECTION_PREFIXES = {
+  target: 'Target profile: ',
+  avoid: 'Profiles to avoid: ',
+  prefer: 'Profiles we prefer: ',
+} as const
 
-  const targetRaw = extractSection('Target')
-  const avoidRaw = trimmed.search(/\bAvoid\s*:/i) >= 0 ? extractSection('Avoid') : null
-  const preferRaw = trimmed.search(/\bPrefer\s*:/i) >= 0 ? extractSection('Prefer') : null
+/** Text embedded for one clause of a section, e.g. "Target profile: Founder". */
+export function clauseEmbeddingText(section: keyof typeof SECTION_PREFIXES, clause: string): string {
+  return `${SECTION_PREFIXES[section]}${clause}`
+}
 
-  if (!hasStructuredSections && trimmed.length > 0) {
-    return {
-      targetText: `Target profile: ${stripMarkdown(trimmed)}`,
-      avoidText: null,
-      preferText: null,
-    }
+/** Max words per comma-separated item for a line to be read as a list ("Founder, CEO, VP Sales"). */
+const MAX_LIST_ITEM_WORDS = 6
+
+/** Words ending in a period that do not end a sentence ("Acme Inc. Heads of Sales"). */
+const ABBREVIATIONS = new Set(['inc', 'ltd', 'co', 'corp', 'llc', 'vs', 'etc', 'approx', 'mr', 'ms', 'mrs', 'dr', 'st', 'jr', 'sr', 'no'])
+
+/** Sentence end: period, ! or ? followed by whitespace and a capital, digit or opening quote/parenthesis. */
+const SENTENCE_END_RE = /[.!?]\s+(?=[A-Z0-9"“(])/g
+
+/** Splits a line into sentences, keeping abbreviations ("e.g.", "U.S.", "Inc.") and decimals ("3.5") whole. */
+function splitSentences(line: string): string[] {
+  const sentences: string[] = []
+  let start = 0
+  for (const match of Array.from(line.matchAll(SENTENCE_END_RE))) {
+    const end = match.index! + 1
+    const word = line.slice(start, end - 1).match(/(\S+)$/)?.[1] ?? ''
+    if (line[end - 1] === '.' && (ABBREVIATIONS.has(word.toLowerCase()) || /^([A-Za-z]\.)+[A-Za-z]$/.test(word))) continue
+    sentences.push(line.slice(start, end))
+    start = end
   }
+  sentences.push(line.slice(start))
+  return sentences
+}
 
-  return {
-    targetText: targetRaw ? `Target profile: ${targetRaw}` : targetRaw || '',
-    avoidText: avoidRaw ? `Profiles to avoid: ${avoidRaw}` : null,
-    preferText: preferRaw ? `Profiles we prefer: ${preferRaw}` : null,
-  }
+/** Comma-separated items when every one is short enough to be a list entry; null otherwise. */
+function splitListItems(text: string): string[] | null {
+  const items = text.split(',').map((c) => c.trim()).filter(Boolean)
+  return items.length > 1 && items.every((item) => item.split(/\s+/).length <= MAX_LIST_ITEM_WORDS) ? items : null
 }
 
 /**
- * Generates an embedding for the given text (OpenAI).
+ * Splits a section into clauses: one per line, bullet, semicolon or sentence (abbreviations and
+ * decimals do not end a sentence). A "Label: a, b, c" sentence is split into "Label: a", "Label: b"…
+ * and a section that is a single comma-separated list of short items is split on the commas.
  */
-async function generateEmbeddingOpenAI(text: string): Promise<number[]> {
-  const response = await getOpenAI().embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text,
+export function splitSectionClauses(section: string): string[] {
+  const clauses = section
+    .split(/\n|;|•/)
+    .flatMap(splitSentences)
+    .map((c) => c.trim().replace(/^[-*]\s+/, '').replace(/[.,]+$/, '').trim())
+    .filter(Boolean)
+  if (clauses.length === 1 && !/^[^,]+:/.test(clauses[0])) return splitListItems(clauses[0]) ?? clauses
+  return clauses.flatMap((clause) => {
+    const labelled = clause.match(/^([^:,]+):\s*(.+)$/)
+    const items = labelled ? splitListItems(labelled[2]) : null
+    return items ? items.map((item) => `${labelled![1].trim()}: ${item}`) : [clause]
   })
-  return response.data[0].embedding
 }
 
-/** Recursively get the first array of numbers (embedding vector) at any depth. */
-function extractEmbedding(value: unknown): number[] | null {
-  if (Array.isArray(value)) {
-    if (value.length > 0 && typeof value[0] === 'number') return value as number[]
-    if (value.length > 0) return extractEmbedding(value[0])
-  }
-  return null
-}
+/** A company-size segment of the profile with its own texts (see lib/profile-segments.ts). */
+export interface ProfileSegmentTexts extends EmployeeSegment, ProfileTexts {}
 
-/** Normalize HF feature-extraction output to a single embedding (number[]). */
-function normalizeHfEmbedding(out: unknown): number[] {
-  if (!out || !Array.isArray(out)) throw new Error('Hugging Face returned no embedding')
-  // Single input can return: [[...]], [...], or [[[...]]] (token-level)
-  const emb = extractEmbedding(out) ?? extractEmbedding(out[0])
-  if (emb?.length) return emb
-  throw new Error('Hugging Face returned unexpected embedding format')
-}
+/** Raw Target / Avoid / Prefer of one block; free text without labels is all Target. */
+function parseSections(text: string): { target: string; avoid: string | null; prefer: string | null } {
+  const trimmed = text.trim()
 
-/** Normalize HF feature-extraction output to array of embeddings. */
-function normalizeHfEmbeddingBatch(out: unknown, expectedLen: number): number[][] {
-  if (!Array.isArray(out)) {
-    throw new Error(`Hugging Face returned invalid response, expected ${expectedLen} embeddings`)
+  const extractSection = (fromLabel: string): string => {
+    const re = new RegExp(`\\b${fromLabel}\\s*:\\s*([\\s\\S]*?)(?=\\b(Target|Avoid|Prefer)\\s*:|$)`, 'i')
+    const m = trimmed.match(re)
+    if (!m || !m[1]) return ''
+    return stripMarkdown(m[1].trim())
   }
-  const result: number[][] = []
-  for (let i = 0; i < out.length; i++) {
-    const emb = extractEmbedding(out[i])
-    if (emb?.length) result.push(emb)
-    else result.push([])
+
+  const hasStructuredSections =
+    trimmed.search(/\bTarget\s*:/i) >= 0 ||
+    trimmed.search(/\bAvoid\s*:/i) >= 0 ||
+    trimmed.search(/\bPrefer\s*:/i) >= 0
+
+  if (!hasStructuredSections) {
+    return { target: trimmed.length > 0 ? stripMarkdown(trimmed) : '', avoid: null, prefer: null }
   }
-  if (result.length !== expectedLen) {
-    throw new Error(`Hugging Face returned ${result.length} embeddings, expected ${expectedLen}`)
+  return {
+    target: extractSection('Target'),
+    avoid: trimmed.search(/\bAvoid\s*:/i) >= 0 ? extractSection('Avoid') || null : null,
+    prefer: trimmed.search(/\bPrefer\s*:/i) >= 0 ? extractSection('Prefer') || null : null,
   }
-  return result
 }
 
-/**
- * Hugging Face Inference API via direct fetch.
- * Router (router.huggingface.co) uses path: /hf-inference/models/{model}/pipeline/feature-extraction
- */
-async function hfFetchEmbeddings(inputs: string | string[]): Promise<unknown> {
-  const token = getHuggingFaceToken()
-  const base = HF_INFERENCE_URL.replace(/\/$/, '')
-  const modelPath = encodeURIComponent(HF_EMBED_MODEL)
-  const url = `${base}/hf-inference/models/${modelPath}/pipeline/feature-extraction`
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), HF_FETCH_TIMEOUT_MS)
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ inputs }),
-      signal: controller.signal,
-    })
-    clearTimeout(timeoutId)
-    if (!res.ok) {
-      const text = await res.text()
-      throw new Error(`Hugging Face API ${res.status}: ${text || res.statusText}`)
-    }
-    return await res.json()
-  } catch (err) {
-    clearTimeout(timeoutId)
-    if (err instanceof Error && err.name === 'AbortError') {
-      throw new Error('Hugging Face request timed out. Try again or set HF_INFERENCE_URL / use another provider.')
-    }
-    throw err
+function toProfileTexts(
+  sections: { target: string; avoid: string | null; prefer: string | null },
+  splitClauses: boolean
+): ProfileTexts {
+  const texts: ProfileTexts = {
+    targetText: sections.target ? clauseEmbeddingText('target', sections.target) : '',
+    avoidText: sections.avoid ? clauseEmbeddingText('avoid', sections.avoid) : null,
+    preferText: sections.prefer ? clauseEmbeddingText('prefer', sections.prefer) : null,
+  }
+  if (!splitClauses) return texts
+  return {
+    ...texts,
+    targetClauses: sections.target ? splitSectionClauses(sections.target) : [],
+    ...(sections.avoid ? { avoidClauses: splitSectionClauses(sections.avoid) } : {}),
+    ...(sections.prefer ? { preferClauses: splitSectionClauses(sections.prefer) } : {}),
   }
-}
-
-async function generateEmbeddingHuggingFace(text: string): Promise<number[]> {
-  const result = await hfFetchEmbeddings(text)
-  return normalizeHfEmbedding(result)
 }
 
 /**
- * Generates an embedding for the given text (Google Gemini). Retries on 429.
+ * Splits the profile into global Target / Avoid / Prefer texts and per company-size segment texts.
+ * Segments without their own Avoid / Prefer inherit the global ones. Without a global Target, the
+ * global texts are all segments' sections joined (used for leads of unknown size).
+ * With splitClauses, each section's clauses are returned too (multi-vector profiles).
  */
-async function generateEmbeddingGemini(text: string): Promise<number[]> {
-  let lastErr: unknown
-  for (let attempt = 0; attempt <= MAX_EMBED_RETRIES; attempt++) {
-    try {
-      const response = await getGemini().models.embedContent({
-        model: 'gemini-embedding-001',
-        contents: text,
-        config: { taskType: 'SEMANTIC_SIMILARITY' },
-      })
-      const values = response.embeddings?.[0]?.values
-      if (!values || values.length === 0) {
-        throw new Error('Gemini returned no embedding')
-      }
-      return values
-    } catch (err) {
-      lastErr = err
-      if (attempt < MAX_EMBED_RETRIES && isRateLimitError(err)) {
-        const waitMs = parseRetryAfterMs(err)
-        console.log(`Embedding rate limit (429). Waiting ${waitMs / 1000}s before retry (attempt ${attempt + 1}/${MAX_EMBED_RETRIES})...`)
-        await new Promise((r) => setTimeout(r, waitMs))
-        continue
-      }
-      throw err
+export function parseProfileSegmentsForEmbedding(
+  characteristics: string,
+  options?: { splitClauses?: boolean }
+): {
+  global: ProfileTexts
+  segments: ProfileSegmentTexts[]
+} {
+  const splitClauses = options?.splitClauses ?? false
+  const { globalText, segments: segmentBlocks } = splitProfileSegments(
+    stripCommitteeSections(extractProfileFilters(characteristics).text)
+  )
+  const global = parseSections(globalText)
+  const segmentSections = segmentBlocks.map((block) => ({ block, sections: parseSections(block.text) }))
+  const segments = segmentSections.map(({ block, sections }) => ({
+    name: block.name,
+    minEmployees: block.minEmployees,
+    maxEmployees: block.maxEmployees,
+    ...toProfileTexts({
+      target: sections.target || global.target,
+      avoid: sections.avoid ?? global.avoid,
+      prefer: sections.prefer ?? global.prefer,
+    }, splitClauses),
+  }))
+  if (!global.target && segmentSections.length > 0) {
+    const join = (values: (string | null)[]) => values.filter((v): v is string => !!v).join(' ') || null
+    return {
+      global: toProfileTexts({
+        target: join(segmentSections.map((s) => s.sections.target)) ?? '',
+        avoid: global.avoid ?? join(segmentSections.map((s) => s.sections.avoid)),
+        prefer: global.prefer ?? join(segmentSections.map((s) => s.sections.prefer)),
+      }, splitClauses),
+      segments,
     }
   }
-  throw lastErr
+  return { global: toProfileTexts(global, splitClauses), segments }
 }
 
-/** Batch size for Gemini to stay under 100 requests/min (each batch = 1 request) */
-const GEMINI_EMBED_BATCH_SIZE = 50
-
-const MAX_EMBED_RETRIES = 5
-const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000
-const MAX_RATE_LIMIT_WAIT_MS = 120_000
-
-/** Parse "Please retry in 58.015976945s" from Gemini 429 error message. Returns ms. */
-function parseRetryAfterMs(error: unknown): number {
-  const msg = error instanceof Error ? error.message : String(error)
-  const match = msg.match(/[Rr]etry in ([\d.]+)s/)
-  if (match) {
-    const sec = parseFloat(match[1])
-    const ms = Math.ceil(sec * 1000)
-    return Math.min(MAX_RATE_LIMIT_WAIT_MS, Math.max(5_000, ms))
-  }
-  return DEFAULT_RATE_LIMIT_WAIT_MS
-}
-
-function isRateLimitError(error: unknown): boolean {
-  const msg = error instanceof Error ? error.message : String(error)
-  return msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED') || msg.includes('quota')
-}
-
-/** User-friendly message when quota is exceeded (e.g. daily 1000 limit). */
-function getQuotaErrorMessage(error: unknown): string | null {
-  const msg = error instanceof Error ? error.message : String(error)
-  if (msg.includes('PerDay') || msg.includes('1000') && msg.includes('quota')) {
-    return 'Daily embedding limit reached (1000/day on free tier). Try again tomorrow or reduce the number of leads in the CSV.'
-  }
-  return null
+// The example profile is the reference input of multi-vector ranking: warn in development when the
+// clause splitter reads its Target as a single clause (multiVector would then score like one vector).
+if (
+  process.env.NODE_ENV === 'development' &&
+  (parseProfileSegmentsForEmbedding(THROXY_EXAMPLE_PROFILE, { splitClauses: true }).global.targetClauses?.length ?? 0) < 2
+) {
+  console.warn('The example profile yields a single Target clause: check splitSectionClauses.')
 }
 
 /**
- * Generates embeddings for multiple texts in a single call (Gemini).
- * Retries with backoff when the API returns 429 (quota limit).
+ * Splits the profile text into "target", "avoid" and "prefer".
+ * Accepts multi-line sections. Strips residual markdown from text. A "Filters:" section holds hard
+ * rules (see lib/lead-filters.ts) and "Committee:" sections list account roles (see
+ * lib/buying-committee.ts); both are left out of the embedded text. With "Segment <range>:" blocks
+ * this returns the global texts (see parseProfileSegmentsForEmbedding). With splitClauses,
+ * targetClauses / avoidClauses / preferClauses hold the individual clauses of each section.
  */
-async function generateEmbeddingBatchGemini(texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return []
-  let lastErr: unknown
-  for (let attempt = 0; attempt <= MAX_EMBED_RETRIES; attempt++) {
-    try {
-      const response = await getGemini().models.embedContent({
-        model: 'gemini-embedding-001',
-        contents: texts,
-        config: { taskType: 'SEMANTIC_SIMILARITY' },
-      })
-      const embeddings = (response.embeddings ?? []).map((e) => e.values ?? [])
-      if (embeddings.length !== texts.length) {
-        throw new Error(`Gemini returned ${embeddings.length} embeddings, expected ${texts.length}`)
-      }
-      return embeddings
-    } catch (err) {
-      lastErr = err
-      if (attempt < MAX_EMBED_RETRIES && isRateLimitError(err)) {
-        const waitMs = parseRetryAfterMs(err)
-        console.log(`Embedding rate limit (429). Waiting ${waitMs / 1000}s before retry (attempt ${attempt + 1}/${MAX_EMBED_RETRIES})...`)
-        await new Promise((r) => setTimeout(r, waitMs))
-        continue
-      }
-      throw err
-    }
-  }
-  throw lastErr
+export function parseProfileForEmbedding(
+  characteristics: string,
+  options?: { splitClauses?: boolean }
+): ProfileTexts {
+  return parseProfileSegmentsForEmbedding(characteristics, options).global
 }
 
 /**
- * Generates embeddings for multiple texts (OpenAI supports native batching).
+ * Distinct texts embedded for a profile (global and segment sections, plus each clause with
+ * splitClauses); one embedding call each.
  */
-async function generateEmbeddingBatchOpenAI(texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return []
-  const response = await getOpenAI().embeddings.create({
-    model: 'text-embedding-3-small',
-    input: texts,
-  })
-  return response.data.map((d) => d.embedding)
+export function getProfileEmbeddingTexts(characteristics: string, options?: { splitClauses?: boolean }): string[] {
+  const { global, segments } = parseProfileSegmentsForEmbedding(characteristics, options)
+  const texts = [global, ...segments].flatMap((t) => [
+    t.targetText,
+    t.avoidText,
+    t.preferText,
+    ...(t.targetClauses ?? []).map((c) => clauseEmbeddingText('target', c)),
+    ...(t.avoidClauses ?? []).map((c) => clauseEmbeddingText('avoid', c)),
+    ...(t.preferClauses ?? []).map((c) => clauseEmbeddingText('prefer', c)),
+  ])
+  return Array.from(new Set(texts.filter((t): t is string => !!t && !!t.trim())))
 }
 
 /**
- * Generates embeddings in batches (Hugging Face Inference API direct).
+ * Throws when the provider declares a dimension and returned vectors of another length: stored
+ * embeddings are tagged and checked for staleness by that dimension (see lib/lead-embeddings.ts).
  */
-async function generateEmbeddingBatchHuggingFace(texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return []
-  const results: number[][] = []
-  for (let i = 0; i < texts.length; i += HF_EMBED_BATCH_SIZE) {
-    const batch = texts.slice(i, i + HF_EMBED_BATCH_SIZE)
-    const result = await hfFetchEmbeddings(batch)
-    results.push(...normalizeHfEmbeddingBatch(result, batch.length))
+function assertEmbeddingDimension(provider: EmbeddingProvider, embeddings: number[][]): void {
+  if (provider.dimension == null) return
+  const wrong = embeddings.find((e) => e.length !== provider.dimension)
+  if (wrong) {
+    throw new Error(
+      `${provider.name} (${provider.modelId}) returned ${wrong.length}-dimensional embeddings, expected ${provider.dimension}`
+    )
   }
-  return results
 }
 
 /**
@@ -401,13 +297,10 @@ async function generateEmbeddingBatchHuggingFace(texts: string[]): Promise<numbe
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    if (PROVIDER === 'gemini') {
-      return await generateEmbeddingGemini(text)
-    }
-    if (PROVIDER === 'huggingface') {
-      return await generateEmbeddingHuggingFace(text)
-    }
-    return await generateEmbeddingOpenAI(text)
+    const provider = getActiveEmbeddingProvider()
+    const embedding = await withRateLimitRetry(provider, () => provider.embed(text))
+    assertEmbeddingDimension(provider, [embedding])
+    return embedding
   } catch (error) {
     console.error('Error generating embedding:', error)
     const friendly = getQuotaErrorMessage(error)
@@ -416,29 +309,25 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 }
 
 /**
- * Generates embeddings in batches. With Gemini, reduces request count to stay
- * within the 100 req/min free tier limit.
+ * Generates embeddings in batches of the provider's maxBatchSize, pausing between batches
+ * per its rate-limit policy (e.g. Gemini's 100 req/min free tier).
  */
 export async function generateEmbeddingBatch(texts: string[]): Promise<number[][]> {
   if (texts.length === 0) return []
   try {
-    if (PROVIDER === 'huggingface') {
-      return await generateEmbeddingBatchHuggingFace(texts)
-    }
-    if (PROVIDER === 'gemini') {
-      const results: number[][] = []
-      for (let i = 0; i < texts.length; i += GEMINI_EMBED_BATCH_SIZE) {
-        const batch = texts.slice(i, i + GEMINI_EMBED_BATCH_SIZE)
-        const batchResults = await generateEmbeddingBatchGemini(batch)
-        results.push(...batchResults)
-        // Delay between batches to avoid exceeding quota (100/min and 1000/day)
-        if (i + GEMINI_EMBED_BATCH_SIZE < texts.length) {
-          await new Promise((r) => setTimeout(r, 2500))
-        }
+    const provider = getActiveEmbeddingProvider()
+    const batchSize = Math.max(1, provider.maxBatchSize)
+    const results: number[][] = []
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize)
+      const batchResults = await withRateLimitRetry(provider, () => provider.embedBatch(batch))
+      assertEmbeddingDimension(provider, batchResults)
+      results.push(...batchResults)
+      if (provider.rateLimit.batchDelayMs > 0 && i + batchSize < texts.length) {
+        await new Promise((r) => setTimeout(r, provider.rateLimit.batchDelayMs))
       }
-      return results
     }
-    return await generateEmbeddingBatchOpenAI(texts)
+    return results
   } catch (error) {
     console.error('Error generating embedding batch:', error)
     const friendly = getQuotaErrorMessage(error)
@@ -473,86 +362,3 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 
   return dotProduct / (normA * normB)
 }
-
-const EXPLANATION_SYSTEM = 'You are an expert assistant in lead analysis. Your task is to explain concisely and clearly why a lead is relevant based on the desired characteristics. Respond in English, 2-3 sentences maximum.'
-
-/**
- * Generates an explanation using LLM (OpenAI).
- */
-async function generateExplanationOpenAI(
-  lead: Record<string, string>,
-  characteristics: string,
-  similarityScore: number
-): Promise<string> {
-  const leadText = leadToText(lead)
-  const response = await getOpenAI().chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      { role: 'system', content: EXPLANATION_SYSTEM },
-      {
-        role: 'user',
-        content: `Desired lead characteristics: "${characteristics}"
-
-Lead information:
-${leadText}
-
-Similarity score: ${(similarityScore * 100).toFixed(1)}%
-
-Explain briefly why this lead is relevant to the desired characteristics.`,
-      },
-    ],
-    temperature: 0.7,
-    max_tokens: 150,
-  })
-  return response.choices[0]?.message?.content || 'Could not generate explanation'
-}
-
-/**
- * Generates an explanation using LLM (Google Gemini).
- */
-async function generateExplanationGemini(
-  lead: Record<string, string>,
-  characteristics: string,
-  similarityScore: number
-): Promise<string> {
-  const leadText = leadToText(lead)
-  const userContent = `Desired lead characteristics: "${characteristics}"
-
-Lead information:
-${leadText}
-
-Similarity score: ${(similarityScore * 100).toFixed(1)}%
-
-Explain briefly why this lead is relevant to the desired characteristics.`
-
-  const response = await getGemini().models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: userContent,
-    config: {
-      systemInstruction: EXPLANATION_SYSTEM,
-      temperature: 0.7,
-      maxOutputTokens: 150,
-    },
-  })
-  const text = response.text
-  return (text && text.trim()) ? text : 'Could not generate explanation'
-}
-
-/**
- * Generates an explanation using LLM for why a lead is relevant.
- */
-export async function generateExplanation(
-  lead: Record<string, string>,
-  characteristics: string,
-  similarityScore: number
-): Promise<string> {
-  try {
-    if (PROVIDER === 'gemini') {
-      return await generateExplanationGemini(lead, characteristics, similarityScore)
-    }
-    return await generateExplanationOpenAI(lead, characteristics, similarityScore)
-  } catch (error) {
-    console.error('Error generating explanation:', error)
-    return 'Failed to generate explanation'
-  }
-}
@@ -0,0 +1,164 @@
+import type { EvalLead } from '@/lib/eval-set'
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import { computeEvalSimilarities, scoreEvalSimilarities, type EvalResult } from '@/lib/prompt-optimizer'
+import { averageRanks, computeEvalMetrics, EVAL_OBJECTIVE_IDS, type EvalMetrics } from '@/lib/eval-metrics'
+import { DEFAULT_SCORING_PROFILE, type ScoringWeights } from '@/lib/scoring'
+
+/**
+ * Side-by-side evaluation of candidate profiles on the eval set, without an LLM. Each profile is
+ * embedded once and scored like evaluatePromptOnEvalSet; a paired bootstrap over the eval leads
+ * gives confidence intervals for each metric and for each candidate's difference from the first.
+ */
+export interface EvalCandidate {
+  label: string
+  characteristics: string
+}
+
+export type EvalMetricId = keyof EvalMetrics
+
+export const EVAL_METRIC_IDS: EvalMetricId[] = EVAL_OBJECTIVE_IDS
+
+/** Percentile interval of a bootstrapped value. */
+export interface ConfidenceInterval {
+  low: number
+  high: number
+}
+
+export interface EvalCandidateResult {
+  label: string
+  characteristics: string
+  metrics: EvalMetrics
+  /** Interval of each metric over the bootstrap samples. */
+  intervals: Record<EvalMetricId, ConfidenceInterval>
+  /**
+   * Difference from the first candidate (this minus baseline) with its interval; significant when
+   * the interval excludes 0. Absent for the baseline itself.
+   */
+  vsBaseline?: Record<EvalMetricId, { difference: number; interval: ConfidenceInterval; significant: boolean }>
+}
+
+/** One eval lead with its gold rank and its rank under each candidate (same order as candidates). */
+export interface EvalComparisonLead {
+  name: string
+  title: string
+  company: string
+  goldRank: number
+  ranks: number[]
+}
+
+export interface EvalComparison {
+  candidates: EvalCandidateResult[]
+  leads: EvalComparisonLead[]
+  bootstrapSamples: number
+  /** Confidence level of the intervals (e.g. 0.95). */
+  confidence: number
+}
+
+export const DEFAULT_BOOTSTRAP_SAMPLES = 1000
+export const MAX_BOOTSTRAP_SAMPLES = 10000
+const CONFIDENCE = 0.95
+/** Fixed seed, so evaluating the same profiles twice gives the same intervals. */
+const BOOTSTRAP_SEED = 20240601
+
+/** Small seeded PRNG (mulberry32); returns values in [0, 1). */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+function interval(values: number[]): ConfidenceInterval {
+  const sorted = [...values].sort((a, b) => a - b)
+  const tail = (1 - CONFIDENCE) / 2
+  return { low: percentile(sorted, tail), high: percentile(sorted, 1 - tail) }
+}
+
+/**
+ * Paired bootstrap: each sample draws eval leads with replacement, re-ranks them within the sample by
+ * each candidate's rank (the gold order comes from the leads' company ranks) and computes every
+ * candidate's metrics on the same sample. Copies of a drawn lead share their average rank, so they are
+ * ties rather than extra agreeing pairs. Returns samples[candidate][metric] = values.
+ */
+function bootstrapMetrics(
+  results: EvalResult[],
+  evalLeads: EvalLead[],
+  samples: number
+): Record<EvalMetricId, number[]>[] {
+  const n = results[0]?.goldRanks.length ?? 0
+  const random = seededRandom(BOOTSTRAP_SEED)
+  const out = results.map(
+    () => Object.fromEntries(EVAL_METRIC_IDS.map((id) => [id, []])) as unknown as Record<EvalMetricId, number[]>
+  )
+  for (let s = 0; s < samples; s++) {
+    const indices = Array.from({ length: n }, () => Math.floor(random() * n))
+    const gold = indices.map((i) => evalLeads[i])
+    results.forEach((result, c) => {
+      const metrics = computeEvalMetrics(averageRanks(indices.map((i) => result.ourRanks[i])), gold)
+      for (const id of EVAL_METRIC_IDS) out[c][id].push(metrics[id])
+    })
+  }
+  return out
+}
+
+/**
+ * Evaluates each candidate on the eval set with `weights` and compares them. The first candidate is
+ * the baseline the others are compared with.
+ */
+export async function compareProfilesOnEvalSet(options: {
+  candidates: EvalCandidate[]
+  evalLeads: EvalLead[]
+  leadEmbeddings: number[][]
+  weights?: ScoringWeights
+  bootstrapSamples?: number
+}): Promise<EvalComparison> {
+  const { candidates, evalLeads, leadEmbeddings, weights = DEFAULT_SCORING_PROFILE } = options
+  const bootstrapSamples = options.bootstrapSamples ?? DEFAULT_BOOTSTRAP_SAMPLES
+  const results: EvalResult[] = []
+  for (const candidate of candidates) {
+    const similarities = await computeEvalSimilarities(candidate.characteristics, evalLeads, leadEmbeddings)
+    results.push(scoreEvalSimilarities(evalLeads, similarities, weights))
+  }
+
+  const samples = bootstrapMetrics(results, evalLeads, bootstrapSamples)
+  const candidateResults = candidates.map((candidate, c): EvalCandidateResult => {
+    const { ourRanks, goldRanks, ...metrics } = results[c]
+    const intervals = Object.fromEntries(
+      EVAL_METRIC_IDS.map((id) => [id, interval(samples[c][id])])
+    ) as Record<EvalMetricId, ConfidenceInterval>
+    if (c === 0) return { ...candidate, metrics, intervals }
+    const vsBaseline = Object.fromEntries(
+      EVAL_METRIC_IDS.map((id) => {
+        const diff = interval(samples[c][id].map((value, s) => value - samples[0][id][s]))
+        return [
+          id,
+          { difference: metrics[id] - results[0][id], interval: diff, significant: diff.low > 0 || diff.high < 0 },
+        ]
+      })
+    ) as NonNullable<EvalCandidateResult['vsBaseline']>
+    return { ...candidate, metrics, intervals, vsBaseline }
+  })
+
+  return {
+    candidates: candidateResults,
+    leads: evalLeads.map(({ lead, goldRank }, i) => ({
+      name: getLeadName(lead),
+      title: getLeadField(lead, 'title'),
+      company: getLeadField(lead, 'company'),
+      goldRank,
+      ranks: results.map((r) => r.ourRanks[i]),
+    })),
+    bootstrapSamples,
+    confidence: CONFIDENCE,
+  }
+}
@@ -1,10 +1,13 @@
 import { getSupabase, EVAL_EMBEDDINGS_TABLE } from '@/lib/supabase'
 import type { EvalLead } from '@/lib/eval-set'
+import { getActiveEmbeddingTag, embeddingTagMatches } from '@/lib/embedding-providers'
+import { embeddingTagColumns } from '@/lib/lead-embeddings'
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import { generateEmbeddingBatch } from '@/lib/embeddings'
+import { leadToText } from '@/lib/lead-text'
 
 function leadKey(lead: Record<string, string>): string {
-  const fullName = (lead['Full Name'] ?? '').trim()
-  const company = (lead['Company'] ?? '').trim()
-  return `${fullName}|${company}`
+  return `${getLeadName(lead)}|${getLeadField(lead, 'company')}`
 }
 
 export interface EvalEmbeddingsLoadResult {
@@ -16,7 +19,8 @@ export interface EvalEmbeddingsLoadResult {
 
 /**
  * Load precomputed eval lead embeddings from Supabase.
- * Returns embeddings in the same order as evalLeads if every row exists; otherwise embeddings is null.
+ * Returns embeddings in the same order as evalLeads if every row exists and was produced by the
+ * active provider/model; otherwise embeddings is null (caller re-embeds and stores).
  */
 export async function loadEvalEmbeddingsFromSupabase(
   evalLeads: EvalLead[]
@@ -25,19 +29,26 @@ export async function loadEvalEmbeddingsFromSupabase(
     const supabase = getSupabase()
     const { data: rows, error } = await supabase
       .from(EVAL_EMBEDDINGS_TABLE)
-      .select('full_name, company, embedding')
+      .select('full_name, company, embedding, embedding_provider, embedding_model, embedding_dim, embedding_template')
     if (error) {
-      // Table might not exist yet
-      if (error.code === '42P01' || error.message?.toLowerCase().includes('does not exist')) {
+      // Table (or the embedding tag columns) might not exist yet
+      if (error.code === '42P01' || error.code === '42703' || error.message?.toLowerCase().includes('does not exist')) {
         return { embeddings: null, fromCache: false }
       }
       throw error
     }
+    const tag = getActiveEmbeddingTag()
     const byKey = new Map<string, number[]>()
     for (const row of rows ?? []) {
       const key = `${(row.full_name ?? '').trim()}|${(row.company ?? '').trim()}`
       const emb = row.embedding
-      if (Array.isArray(emb) && emb.length > 0) {
+      const stored = {
+        provider: row.embedding_provider,
+        model: row.embedding_model,
+        dimension: row.embedding_dim,
+        template: row.embedding_template,
+      }
+      if (Array.isArray(emb) && emb.length > 0 && embeddingTagMatches(stored, tag)) {
         byKey.set(key, emb as number[])
       }
     }
@@ -58,7 +69,7 @@ export async function loadEvalEmbeddingsFromSupabase(
 }
 
 /**
- * Store eval lead embeddings in Supabase (upsert by full_name + company).
+ * Store eval lead embeddings in Supabase (upsert by full_name + company), tagged with the active model.
  * Call after computing embeddings so the next prompt-optimize run can use the cache.
  */
 export async function storeEvalEmbeddingsInSupabase(
@@ -69,11 +80,13 @@ export async function storeEvalEmbeddingsInSupabase(
     throw new Error('evalLeads and embeddings length mismatch')
   }
   const supabase = getSupabase()
+  const tag = getActiveEmbeddingTag()
   const rows = evalLeads.map(({ lead, goldRank }, i) => ({
-    full_name: (lead['Full Name'] ?? '').trim(),
-    company: (lead['Company'] ?? '').trim(),
+    full_name: getLeadName(lead),
+    company: getLeadField(lead, 'company'),
     gold_rank: goldRank,
     embedding: embeddings[i] ?? [],
+    ...embeddingTagColumns(tag, embeddings[i] ?? null),
     updated_at: new Date().toISOString(),
   }))
   const { error } = await supabase
@@ -81,3 +94,46 @@ export async function storeEvalEmbeddingsInSupabase(
     .upsert(rows, { onConflict: 'full_name,company' })
   if (error) throw error
 }
+
+const EMBED_CHUNK_SIZE = 12
+
+/**
+ * Eval lead embeddings from the Supabase cache, or computed (in small chunks, one by one on
+ * timeouts) and stored for next time. Same order as evalLeads.
+ */
+export async function getEvalLeadEmbeddings(evalLeads: EvalLead[]): Promise<number[][]> {
+  const cached = await loadEvalEmbeddingsFromSupabase(evalLeads)
+  if (cached.fromCache && cached.embeddings !== null) return cached.embeddings
+
+  const leadTexts = evalLeads.map((e) => leadToText(e.lead))
+  const leadEmbeddings: number[][] = []
+  for (let i = 0; i < leadTexts.length; i += EMBED_CHUNK_SIZE) {
+    const chunk = leadTexts.slice(i, i + EMBED_CHUNK_SIZE)
+    let chunkEmbeddings: number[][]
+    try {
+      chunkEmbeddings = await generateEmbeddingBatch(chunk)
+    } catch (chunkErr) {
+      const isTimeout = /timeout|ETIMEDOUT|terminated/i.test(chunkErr instanceof Error ? chunkErr.message : String(chunkErr))
+      if (isTimeout && chunk.length > 1) {
+        chunkEmbeddings = []
+        for (const text of chunk) {
+          const one = await generateEmbeddingBatch([text])
+          chunkEmbeddings.push(...one)
+        }
+      } else {
+        throw chunkErr
+      }
+    }
+    leadEmbeddings.push(...chunkEmbeddings)
+  }
+  if (leadEmbeddings.length !== evalLeads.length) {
+    throw new Error('Failed to compute embeddings for all evaluation leads.')
+  }
+  try {
+    await storeEvalEmbeddingsInSupabase(evalLeads, leadEmbeddings)
+  } catch (storeErr) {
+    // Supabase not configured or table missing; evaluation still succeeds
+    console.warn('Eval embeddings not stored (cache disabled):', storeErr)
+  }
+  return leadEmbeddings
+}
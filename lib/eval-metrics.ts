@@ -0,0 +1,245 @@
+/**
+ * Ranking metrics for the evaluation set: how well our order (ourRanks, 1 = best) matches the gold
+ * ranking. The eval CSV ranks contacts within each company, with ties and "-" (unranked) rows, so the
+ * gold order is the company rank across all leads (equal ranks tied, unranked leads tied last) and the
+ * metrics are tie-aware: correlations on shared ranks, gold top-k sets that include ties at the cut,
+ * graded relevance (1 / company rank) and a per-company Kendall tau-b.
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+/** Gold information of an eval lead (see EvalLead in lib/eval-set.ts). */
+export interface EvalGold {
+  company: string
+  /** Rank within the company in the eval CSV (ties share a rank); null for "-" (unranked) rows. */
+  companyRank: number | null
+}
+
+export interface EvalMetrics {
+  /** Spearman correlation with the gold order, ties sharing their average rank (main metric, -1 to 1). */
+  score: number
+  /** Fraction of our top-5 slots holding gold top-5 leads (leads tied at the cut all count as gold top-5). */
+  recallAt5: number
+  /** Mean reciprocal rank of the gold top-3 leads, ties at the cut included (higher = better). */
+  mrrTop3: number
+  /** Kendall tau-b between our order and the gold order (ties counted as ties, -1 to 1). */
+  kendallTauB: number
+  /** NDCG of our top 10 with graded relevance 1 / company rank (0 to 1). */
+  ndcgAt10: number
+  /** Share of our top 10 that are relevant (company rank ≤ RELEVANT_COMPANY_RANK). */
+  precisionAt10: number
+  /** Average precision of relevant leads over our whole order (0 to 1). */
+  averagePrecision: number
+  /** Kendall tau-b within each company (our order vs company ranks), averaged over companies. */
+  companyTauB: number
+}
+
+export type EvalObjective = keyof EvalMetrics
+
+/** Metrics the optimizer can maximize, with labels for the UI. */
+export const EVAL_OBJECTIVES: Record<EvalObjective, { label: string }> = {
+  score: { label: 'Spearman' },
+  recallAt5: { label: 'Recall@5' },
+  mrrTop3: { label: 'MRR@3' },
+  kendallTauB: { label: 'Kendall tau-b' },
+  ndcgAt10: { label: 'NDCG@10' },
+  precisionAt10: { label: 'Precision@10' },
+  averagePrecision: { label: 'Average precision' },
+  companyTauB: { label: 'Per-company tau-b' },
+}
+
+export const EVAL_OBJECTIVE_IDS = Object.keys(EVAL_OBJECTIVES) as EvalObjective[]
+
+/** Cut-off of NDCG@k and precision@k. */
+export const EVAL_TOP_K = 10
+
+/** Leads ranked this high within their company count as relevant for precision and average precision. */
+export const RELEVANT_COMPANY_RANK = 3
+
+/** Ranks 1..n of values (ascending); tied values share the mean of their ranks. */
+export function averageRanks(values: number[]): number[] {
+  const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value)
+  const ranks = new Array<number>(values.length)
+  for (let start = 0; start < order.length; ) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+    const rank = (start + end) / 2 + 1
+    for (let j = start; j <= end; j++) ranks[order[j].i] = rank
+    start = end + 1
+  }
+  return ranks
+}
+
+function pearson(x: number[], y: number[]): number {
+  const n = x.length
+  const meanX = x.reduce((a, b) => a + b, 0) / n
+  const meanY = y.reduce((a, b) => a + b, 0) / n
+  let cov = 0
+  let varX = 0
+  let varY = 0
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - meanX) * (y[i] - meanY)
+    varX += (x[i] - meanX) ** 2
+    varY += (y[i] - meanY) ** 2
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0
+}
+
+/**
+ * Spearman rank correlation between two rank arrays. Higher = better agreement.
+ * Returns value in [-1, 1]. 1 = perfect agreement. Ties get their average rank (Pearson on the
+ * ranks), which equals the classic formula when there are none.
+ */
+export function spearmanCorrelation(ourRanks: number[], goldRanks: number[]): number {
+  const n = ourRanks.length
+  if (n !== goldRanks.length || n < 2) return 0
+  return pearson(averageRanks(ourRanks), averageRanks(goldRanks))
+}
+
+/** Indices of the k best ranks, plus every index tied with the k-th. */
+function topKIndices(ranks: number[], k: number): number[] {
+  const sorted = ranks.map((r, i) => ({ r, i })).sort((a, b) => a.r - b.r)
+  const cut = sorted[k - 1].r
+  return sorted.filter((x) => x.r <= cut).map((x) => x.i)
+}
+
+/**
+ * Recall@k: fraction of our top-k that are gold top-k (leads tied with the gold k-th included).
+ * 1 = all of our top-k are gold top-k.
+ */
+export function recallAtK(ourRanks: number[], goldRanks: number[], k: number): number {
+  const n = ourRanks.length
+  if (n < k || k < 1) return 0
+  const goldTopK = new Set(topKIndices(goldRanks, k))
+  const ourTopK = ourRanks
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => a.r - b.r)
+    .slice(0, k)
+    .map((x) => x.i)
+  return ourTopK.filter((i) => goldTopK.has(i)).length / k
+}
+
+/**
+ * Mean reciprocal rank of gold top-k: average of 1/ourRank for each gold top-k lead (leads tied with
+ * the gold k-th included). Higher is better.
+ */
+export function mrrGoldTopK(ourRanks: number[], goldRanks: number[], k: number): number {
+  const n = ourRanks.length
+  if (n < k || k < 1) return 0
+  const goldTopKIndices = topKIndices(goldRanks, k)
+  let sum = 0
+  for (const i of goldTopKIndices) sum += 1 / ourRanks[i]
+  return sum / goldTopKIndices.length
+}
+
+/**
+ * Kendall tau-b between two orderings (lower value = better in both). Pairs tied in either are
+ * neither concordant nor discordant and the denominator is corrected for ties; 0 when undefined.
+ */
+export function kendallTauB(x: number[], y: number[]): number {
+  const n = x.length
+  if (n !== y.length || n < 2) return 0
+  let concordant = 0
+  let discordant = 0
+  let tiesX = 0
+  let tiesY = 0
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = Math.sign(x[i] - x[j])
+      const dy = Math.sign(y[i] - y[j])
+      if (dx === 0) tiesX++
+      if (dy === 0) tiesY++
+      if (dx !== 0 && dy !== 0) {
+        if (dx === dy) concordant++
+        else discordant++
+      }
+    }
+  }
+  const pairs = (n * (n - 1)) / 2
+  const denominator = Math.sqrt((pairs - tiesX) * (pairs - tiesY))
+  return denominator > 0 ? (concordant - discordant) / denominator : 0
+}
+
+/** Gold order value of an eval lead (lower = better): its company rank, unranked leads tied last. */
+export function goldOrderValue(gold: EvalGold): number {
+  return gold.companyRank ?? Number.MAX_SAFE_INTEGER
+}
+
+/** Graded relevance of an eval lead: 1 / company rank (a company's top contact is 1), 0 when unranked. */
+export function goldRelevance(gold: EvalGold): number {
+  return gold.companyRank !== null && gold.companyRank > 0 ? 1 / gold.companyRank : 0
+}
+
+export function isRelevant(gold: EvalGold): boolean {
+  return gold.companyRank !== null && gold.companyRank <= RELEVANT_COMPANY_RANK
+}
+
+/** Lead indices in our order (best first). */
+function ourOrder(ourRanks: number[]): number[] {
+  return ourRanks.map((r, i) => ({ r, i })).sort((a, b) => a.r - b.r).map((x) => x.i)
+}
+
+/** Normalized discounted cumulative gain of our top k; 0 when no lead has a gain. */
+export function ndcgAtK(ourRanks: number[], gains: number[], k: number): number {
+  const dcg = (values: number[]) => values.slice(0, k).reduce((sum, gain, i) => sum + gain / Math.log2(i + 2), 0)
+  const ideal = dcg([...gains].sort((a, b) => b - a))
+  return ideal > 0 ? dcg(ourOrder(ourRanks).map((i) => gains[i])) / ideal : 0
+}
+
+/** Share of our top k that are relevant. */
+export function precisionAtK(ourRanks: number[], relevant: boolean[], k: number): number {
+  const top = ourOrder(ourRanks).slice(0, k)
+  return top.length > 0 ? top.filter((i) => relevant[i]).length / top.length : 0
+}
+
+/** Mean of precision@i at the position i of each relevant lead in our order; 0 without relevant leads. */
+export function averagePrecision(ourRanks: number[], relevant: boolean[]): number {
+  const total = relevant.filter(Boolean).length
+  if (total === 0) return 0
+  let hits = 0
+  let sum = 0
+  ourOrder(ourRanks).forEach((i, position) => {
+    if (!relevant[i]) return
+    hits++
+    sum += hits / (position + 1)
+  })
+  return sum / total
+}
+
+/**
+ * Kendall tau-b of our order against company ranks within each company (unranked leads tie last),
+ * averaged over the companies where it is defined (at least two leads that are not all tied).
+ */
+export function companyKendallTauB(ourRanks: number[], gold: EvalGold[]): number {
+  const byCompany = new Map<string, number[]>()
+  gold.forEach((g, i) => byCompany.set(g.company, [...(byCompany.get(g.company) ?? []), i]))
+  const values: number[] = []
+  byCompany.forEach((indices) => {
+    const companyRanks = indices.map((i) => goldOrderValue(gold[i]))
+    if (indices.length < 2 || companyRanks.every((r) => r === companyRanks[0])) return
+    values.push(kendallTauB(indices.map((i) => ourRanks[i]), companyRanks))
+  })
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+}
+
+/**
+ * Every metric of our ranks (1..N; duplicates may share a rank) against the gold information of the
+ * same leads, in the same order.
+ */
+export function computeEvalMetrics(ourRanks: number[], gold: EvalGold[]): EvalMetrics {
+  const n = ourRanks.length
+  const goldRanks = averageRanks(gold.map(goldOrderValue))
+  const k5 = Math.min(5, n)
+  const k3 = Math.min(3, n)
+  const gains = gold.map(goldRelevance)
+  const relevant = gold.map(isRelevant)
+  return {
+    score: spearmanCorrelation(ourRanks, goldRanks),
+    recallAt5: k5 > 0 ? recallAtK(ourRanks, goldRanks, k5) : 0,
+    mrrTop3: k3 > 0 ? mrrGoldTopK(ourRanks, goldRanks, k3) : 0,
+    kendallTauB: kendallTauB(ourRanks, goldRanks),
+    ndcgAt10: ndcgAtK(ourRanks, gains, EVAL_TOP_K),
+    precisionAt10: precisionAtK(ourRanks, relevant, EVAL_TOP_K),
+    averagePrecision: averagePrecision(ourRanks, relevant),
+    companyTauB: companyKendallTauB(ourRanks, gold),
+  }
+}
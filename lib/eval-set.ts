@@ -1,8 +1,10 @@
 import fs from 'fs/promises'
 import path from 'path'
 import Papa from 'papaparse'
+import { applyColumnMapping, detectColumnMapping, getLeadField, getLeadName, type ColumnMapping } from '@/lib/lead-schema'
+import type { EvalGold } from '@/lib/eval-metrics'
 
-export interface EvalLead {
+export interface EvalLead extends EvalGold {
   lead: Record<string, string>
   goldRank: number
 }
@@ -20,24 +22,23 @@ function getEmbeddedEvalCsv(): string | null {
 }
 
 /**
- * Parse CSV row into lead object. Expects columns: Full Name, Title, Company, LI, Employee Range, Rank.
- * Only first 6 columns are used for lead data.
+ * Parse CSV row into lead object (canonical lead fields only, see lib/lead-schema.ts).
+ * Columns are detected from the header (e.g. Full Name, Title, Company, LI, Employee Range);
+ * Rank and any other extra column are left out so they never reach the embedding text.
  */
-function rowToLead(row: Record<string, string>): Record<string, string> {
-  const lead: Record<string, string> = {}
-  const keys = ['Full Name', 'Title', 'Company', 'LI', 'Employee Range', 'Rank']
-  for (const k of keys) {
-    const v = row[k] ?? row[k.toLowerCase()] ?? ''
-    if (k !== 'Rank' && v != null && String(v).trim()) lead[k] = String(v).trim()
-  }
-  return lead
+function rowToLead(row: Record<string, string>, mapping: ColumnMapping): Record<string, string> {
+  return applyColumnMapping(row, mapping, { keepUnmapped: false })
 }
 
 /**
  * Load and parse the evaluation set CSV. Returns leads that have a numeric Rank (gold ranking).
  * Global gold order: sort by Company, then by Rank, then by Full Name; assign goldRank 1..N.
+ * With includeUnranked, "-" rows are kept too (companyRank null), after the ranked rows of their company.
  */
-export async function loadEvalSet(customPath?: string): Promise<EvalLead[]> {
+export async function loadEvalSet(
+  customPath?: string,
+  options?: { includeUnranked?: boolean }
+): Promise<EvalLead[]> {
   const useEmbedded = !customPath && !process.env.EVAL_CSV_PATH
   let content: string
   if (useEmbedded) {
@@ -56,27 +57,35 @@ export async function loadEvalSet(customPath?: string): Promise<EvalLead[]> {
   }
   const parsed = Papa.parse<Record<string, string>>(content, { header: true, skipEmptyLines: true })
   const rows = (parsed.data || []).filter((r) => r && typeof r === 'object')
+  const { mapping } = detectColumnMapping(parsed.meta.fields ?? [])
 
-  const withRank: { lead: Record<string, string>; company: string; rank: number; fullName: string }[] = []
+  const withRank: { lead: Record<string, string>; company: string; rank: number | null; fullName: string }[] = []
   for (const row of rows) {
     const rankRaw = (row['Rank'] ?? row['rank'] ?? '').toString().trim()
-    if (!rankRaw || rankRaw === '-') continue
-    const rankNum = parseInt(rankRaw, 10)
-    if (Number.isNaN(rankNum) || rankNum < 1) continue
-    const lead = rowToLead(row)
-    const company = (lead['Company'] || '').trim() || '(No company)'
-    const fullName = (lead['Full Name'] || '').trim() || ''
-    withRank.push({ lead, company, rank: rankNum, fullName })
+    if (!rankRaw) continue
+    let rank: number | null = null
+    if (rankRaw === '-') {
+      if (!options?.includeUnranked) continue
+    } else {
+      rank = parseInt(rankRaw, 10)
+      if (Number.isNaN(rank) || rank < 1) continue
+    }
+    const lead = rowToLead(row, mapping)
+    const company = getLeadField(lead, 'company') || '(No company)'
+    const fullName = getLeadName(lead)
+    withRank.push({ lead, company, rank, fullName })
   }
 
   withRank.sort((a, b) => {
     if (a.company !== b.company) return a.company.localeCompare(b.company)
-    if (a.rank !== b.rank) return a.rank - b.rank
+    if (a.rank !== b.rank) return (a.rank ?? Infinity) - (b.rank ?? Infinity)
     return a.fullName.localeCompare(b.fullName)
   })
 
   return withRank.map((item, index) => ({
     lead: item.lead,
+    company: item.company,
+    companyRank: item.rank,
     goldRank: index + 1,
   }))
 }
@@ -0,0 +1,396 @@
+import { createHash } from 'crypto'
+import type { getSupabase } from '@/lib/supabase'
+import { LEAD_EMBEDDING_CACHE_TABLE, LEADS_TABLE, REEMBED_JOBS_TABLE } from '@/lib/supabase'
+import { generateEmbeddingBatch } from '@/lib/embeddings'
+import {
+  leadToText,
+  sanitizeLeadTextTemplate,
+  DEFAULT_LEAD_TEXT_TEMPLATE,
+  DEFAULT_LEAD_TEXT_TEMPLATE_VERSION,
+  type LeadTextTemplate,
+} from '@/lib/lead-text'
+import { embeddingTagMatches, getActiveEmbeddingTag, type EmbeddingTag } from '@/lib/embedding-providers'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+/** Columns written next to `embedding` so each stored vector records where it came from. */
+export function embeddingTagColumns(
+  tag: EmbeddingTag,
+  embedding: number[] | null
+): { embedding_provider: string; embedding_model: string; embedding_dim: number | null; embedding_template: string } {
+  return {
+    embedding_provider: tag.provider,
+    embedding_model: tag.model,
+    embedding_dim: embedding?.length || tag.dimension,
+    embedding_template: tag.template,
+  }
+}
+
+/** Quote a value for a PostgREST `or=(...)` filter (model ids contain "/" and "."). */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * PostgREST `or` filter matching rows whose embedding was NOT produced by `tag`
+ * (including untagged rows from before embeddings were tagged).
+ */
+export function staleEmbeddingFilter(tag: EmbeddingTag): string {
+  const parts = [
+    'embedding.is.null',
+    'embedding_provider.is.null',
+    'embedding_model.is.null',
+    `embedding_provider.neq.${quoteFilterValue(tag.provider)}`,
+    `embedding_model.neq.${quoteFilterValue(tag.model)}`,
+    // Untagged template = default template.
+    `embedding_template.neq.${quoteFilterValue(tag.template)}`,
+  ]
+  if (tag.dimension != null) parts.push(`embedding_dim.neq.${tag.dimension}`)
+  if (tag.template !== DEFAULT_LEAD_TEXT_TEMPLATE_VERSION) parts.push('embedding_template.is.null')
+  return parts.join(',')
+}
+
+/** PostgREST `or` filter matching rows whose embedding text was rendered with `tag.template`. */
+export function templateEmbeddingFilter(tag: EmbeddingTag): string {
+  const eq = `embedding_template.eq.${quoteFilterValue(tag.template)}`
+  return tag.template === DEFAULT_LEAD_TEXT_TEMPLATE_VERSION ? `embedding_template.is.null,${eq}` : eq
+}
+
+/** Number of leads whose embedding is missing or from another model. */
+export async function countStaleLeads(supabase: SupabaseClient, tag: EmbeddingTag): Promise<number> {
+  const { count, error } = await supabase
+    .from(LEADS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .or(staleEmbeddingFilter(tag))
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * Number of leads with an embedding from `tag`: every lead a ranking with that tag could score
+ * (pgvector and maxLeads only load the top candidates of them). Leads of unfinalized imports are not counted.
+ */
+export async function countEmbeddedLeads(supabase: SupabaseClient, tag: EmbeddingTag): Promise<number> {
+  let query = supabase
+    .from(LEADS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .not('embedding', 'is', null)
+    .eq('import_pending', false)
+    .eq('embedding_provider', tag.provider)
+    .eq('embedding_model', tag.model)
+    .or(templateEmbeddingFilter(tag))
+  if (tag.dimension != null) query = query.eq('embedding_dim', tag.dimension)
+  const { count, error } = await query
+  if (error) throw error
+  return count ?? 0
+}
+
+/** Set once lead_embedding_cache is found missing (migration 018 not applied): nothing is cached then. */
+let cacheUnavailable = false
+
+/** Rows per request when reading cached embeddings (PostgREST's default max_rows). */
+const CACHE_PAGE_SIZE = 1000
+
+const CACHE_KEY_COLUMNS = 'lead_id,embedding_provider,embedding_model,embedding_dim,embedding_template'
+
+function isMissingTableError(error: { code?: string; message?: string }): boolean {
+  return error.code === '42P01' || error.code === 'PGRST205' || !!error.message?.toLowerCase().includes('does not exist')
+}
+
+/** Hash of all of a lead's values: a cached embedding is only used while the lead is unchanged. */
+function getLeadDataHash(data: Record<string, string>): string {
+  const entries = Object.entries(data).sort(([a], [b]) => a.localeCompare(b))
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex')
+}
+
+/** A leads row with its embedding and the tag it was produced with. */
+interface StoredLeadRow {
+  id: string
+  data: Record<string, string>
+  embedding: number[] | null
+  embedding_provider: string | null
+  embedding_model: string | null
+  embedding_dim: number | null
+  embedding_template: string | null
+}
+
+/**
+ * Copies the embeddings of `rows` into lead_embedding_cache under the tag they were produced with,
+ * before they are overwritten. Best effort: without the cache table nothing is kept.
+ */
+async function cacheCurrentEmbeddings(supabase: SupabaseClient, rows: StoredLeadRow[]): Promise<void> {
+  if (cacheUnavailable) return
+  const entries = rows
+    .filter((r) => r.embedding_provider && r.embedding_model && Array.isArray(r.embedding) && r.embedding.length > 0)
+    .map((r) => ({
+      lead_id: r.id,
+      embedding_provider: r.embedding_provider,
+      embedding_model: r.embedding_model,
+      embedding_dim: r.embedding!.length,
+      embedding_template: r.embedding_template ?? DEFAULT_LEAD_TEXT_TEMPLATE_VERSION,
+      data_hash: getLeadDataHash(r.data ?? {}),
+      embedding: r.embedding,
+    }))
+  if (entries.length === 0) return
+  const { error } = await supabase.from(LEAD_EMBEDDING_CACHE_TABLE).upsert(entries, { onConflict: CACHE_KEY_COLUMNS })
+  if (error) {
+    if (isMissingTableError(error)) cacheUnavailable = true
+    else console.warn('Lead embeddings not cached:', error.message)
+  }
+}
+
+/** Cached embeddings from `tag` of `rows` that were computed from their current data, by lead id. */
+async function getCachedEmbeddings(
+  supabase: SupabaseClient,
+  rows: { id: string; data: Record<string, string> }[],
+  tag: EmbeddingTag
+): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>()
+  if (cacheUnavailable || rows.length === 0) return cached
+  let query = supabase
+    .from(LEAD_EMBEDDING_CACHE_TABLE)
+    .select('lead_id, data_hash, embedding')
+    .in('lead_id', rows.map((r) => r.id))
+    .eq('embedding_provider', tag.provider)
+    .eq('embedding_model', tag.model)
+    .eq('embedding_template', tag.template)
+  if (tag.dimension != null) query = query.eq('embedding_dim', tag.dimension)
+  const { data, error } = await query
+  if (error) {
+    if (isMissingTableError(error)) cacheUnavailable = true
+    else console.warn('Cached lead embeddings not read:', error.message)
+    return cached
+  }
+  const hashes = new Map(rows.map((r) => [r.id, getLeadDataHash(r.data ?? {})]))
+  for (const row of (data ?? []) as { lead_id: string; data_hash: string; embedding: number[] }[]) {
+    if (hashes.get(row.lead_id) === row.data_hash) cached.set(row.lead_id, row.embedding)
+  }
+  return cached
+}
+
+/** Cache rows from `tag` whose lead's own embedding is from another model or template. */
+function cachedOnlyLeadsQuery(supabase: SupabaseClient, tag: EmbeddingTag, countOnly: boolean) {
+  let query = supabase
+    .from(LEAD_EMBEDDING_CACHE_TABLE)
+    .select('lead_id, data_hash, embedding, leads!inner(data)', countOnly ? { count: 'exact', head: true } : undefined)
+    .eq('embedding_provider', tag.provider)
+    .eq('embedding_model', tag.model)
+    .eq('embedding_template', tag.template)
+    .or(staleEmbeddingFilter(tag), { referencedTable: LEADS_TABLE })
+    .eq(`${LEADS_TABLE}.import_pending`, false)
+  if (tag.dimension != null) query = query.eq('embedding_dim', tag.dimension)
+  return query
+}
+
+/**
+ * Number of leads whose embedding from `tag` is only in lead_embedding_cache: their leads row holds
+ * another template's or model's vector (e.g. while a re-embed job runs, or after switching templates).
+ * pgvector only searches leads rows, so rankings score in Node when there are any.
+ */
+export async function countCachedOnlyLeads(supabase: SupabaseClient, tag: EmbeddingTag): Promise<number> {
+  if (cacheUnavailable) return 0
+  const { count, error } = await cachedOnlyLeadsQuery(supabase, tag, true)
+  if (error) {
+    if (isMissingTableError(error)) cacheUnavailable = true
+    else console.warn('Cached lead embeddings not counted:', error.message)
+    return 0
+  }
+  return count ?? 0
+}
+
+/**
+ * Leads whose embedding from `tag` is only cached (see countCachedOnlyLeads), as { id, data,
+ * embedding } rows like the leads table; only among `ids` when given. Changed leads are left out.
+ */
+export async function loadCachedOnlyLeads(
+  supabase: SupabaseClient,
+  tag: EmbeddingTag,
+  ids?: string[]
+): Promise<{ id: string; data: Record<string, string>; embedding: number[] }[]> {
+  const leads: { id: string; data: Record<string, string>; embedding: number[] }[] = []
+  if (cacheUnavailable) return leads
+  for (let from = 0; ; from += CACHE_PAGE_SIZE) {
+    let query = cachedOnlyLeadsQuery(supabase, tag, false)
+    if (ids) query = query.in('lead_id', ids)
+    const { data, error } = await query.order('lead_id').range(from, from + CACHE_PAGE_SIZE - 1)
+    if (error) {
+      if (isMissingTableError(error)) {
+        cacheUnavailable = true
+        return leads
+      }
+      throw error
+    }
+    const rows = (data ?? []) as unknown as {
+      lead_id: string
+      data_hash: string
+      embedding: number[]
+      leads: { data: Record<string, string> | null } | null
+    }[]
+    for (const row of rows) {
+      const data = row.leads?.data
+      if (data && getLeadDataHash(data) === row.data_hash) leads.push({ id: row.lead_id, data, embedding: row.embedding })
+    }
+    if (rows.length < CACHE_PAGE_SIZE) break
+  }
+  return leads
+}
+
+export interface ReembedJob {
+  id: string
+  status: 'running' | 'completed' | 'failed'
+  embedding_provider: string
+  embedding_model: string
+  /** Lead text template version (null = default). */
+  embedding_template: string | null
+  lead_text_template: LeadTextTemplate | null
+  only_stale: boolean
+  cursor_id: string | null
+  processed: number
+  total: number
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Leads per embedding call + progress write. */
+const REEMBED_BATCH_SIZE = 50
+
+/**
+ * Creates a re-embedding job for the active model and `template` (default: the default lead text
+ * template), or returns the one already running for them (so a second click resumes instead of
+ * starting over). `onlyStale: false` recomputes every row.
+ */
+export async function startReembedJob(
+  supabase: SupabaseClient,
+  onlyStale: boolean,
+  template: { template: LeadTextTemplate; version: string } = {
+    template: DEFAULT_LEAD_TEXT_TEMPLATE,
+    version: DEFAULT_LEAD_TEXT_TEMPLATE_VERSION,
+  }
+): Promise<ReembedJob> {
+  const tag = getActiveEmbeddingTag(template.version)
+  const { data: running, error: findError } = await supabase
+    .from(REEMBED_JOBS_TABLE)
+    .select('*')
+    .eq('status', 'running')
+    .eq('embedding_provider', tag.provider)
+    .eq('embedding_model', tag.model)
+    .or(templateEmbeddingFilter(tag))
+    .eq('only_stale', onlyStale)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  if (findError) throw findError
+  if (running && running.length > 0) return running[0] as ReembedJob
+
+  let total: number
+  if (onlyStale) {
+    total = await countStaleLeads(supabase, tag)
+  } else {
+    const { count, error } = await supabase.from(LEADS_TABLE).select('id', { count: 'exact', head: true })
+    if (error) throw error
+    total = count ?? 0
+  }
+  const { data: created, error: insertError } = await supabase
+    .from(REEMBED_JOBS_TABLE)
+    .insert({
+      embedding_provider: tag.provider,
+      embedding_model: tag.model,
+      embedding_template: tag.template,
+      lead_text_template: template.version === DEFAULT_LEAD_TEXT_TEMPLATE_VERSION ? null : template.template,
+      only_stale: onlyStale,
+      total,
+      status: total === 0 ? 'completed' : 'running',
+    })
+    .select('*')
+    .single()
+  if (insertError) throw insertError
+  return created as ReembedJob
+}
+
+export async function getReembedJob(supabase: SupabaseClient, jobId?: string): Promise<ReembedJob | null> {
+  let query = supabase.from(REEMBED_JOBS_TABLE).select('*')
+  query = jobId ? query.eq('id', jobId) : query.order('created_at', { ascending: false })
+  const { data, error } = await query.limit(1)
+  if (error) throw error
+  return (data?.[0] as ReembedJob | undefined) ?? null
+}
+
+/**
+ * Advances a job batch by batch (leads in id order, after the stored cursor) until it finishes
+ * or `timeBudgetMs` runs out. Each lead's previous vector is kept in lead_embedding_cache, and jobs
+ * for stale leads reuse the vectors cached for their template instead of calling the provider. Failed jobs are retried from their cursor. Progress is written after every batch, so a killed request loses
+ * at most one batch; call again with the same job to resume.
+ */
+export async function runReembedJob(
+  supabase: SupabaseClient,
+  job: ReembedJob,
+  timeBudgetMs: number
+): Promise<ReembedJob> {
+  if (job.status === 'completed') return job
+  const template = (job.lead_text_template && sanitizeLeadTextTemplate(job.lead_text_template)) || DEFAULT_LEAD_TEXT_TEMPLATE
+  const tag = getActiveEmbeddingTag(job.embedding_template ?? DEFAULT_LEAD_TEXT_TEMPLATE_VERSION)
+  if (tag.provider !== job.embedding_provider || tag.model !== job.embedding_model) {
+    throw new Error(
+      `Job ${job.id} re-embeds with ${job.embedding_provider}: ${job.embedding_model}, but the active model is ${tag.provider}: ${tag.model}. Start a new job.`
+    )
+  }
+  const deadline = Date.now() + timeBudgetMs
+  let current = job
+  while (Date.now() < deadline) {
+    let query = supabase
+      .from(LEADS_TABLE)
+      .select('id, data, embedding, embedding_provider, embedding_model, embedding_dim, embedding_template')
+    if (current.only_stale) query = query.or(staleEmbeddingFilter(tag))
+    if (current.cursor_id) query = query.gt('id', current.cursor_id)
+    const { data: rows, error } = await query.order('id', { ascending: true }).limit(REEMBED_BATCH_SIZE)
+    if (error) throw error
+    const batch = (rows ?? []) as StoredLeadRow[]
+
+    // A failed job is retried from its cursor.
+    const patch: Partial<ReembedJob> = { status: 'running', error: null, updated_at: new Date().toISOString() }
+    if (batch.length === 0) {
+      patch.status = 'completed'
+    } else {
+      try {
+        // Keep the vectors being replaced, and reuse the ones cached for this tag instead of re-embedding.
+        await cacheCurrentEmbeddings(
+          supabase,
+          batch.filter((r) => !embeddingTagMatches(
+            { provider: r.embedding_provider, model: r.embedding_model, dimension: r.embedding_dim, template: r.embedding_template },
+            tag
+          ))
+        )
+        const embeddings = current.only_stale ? await getCachedEmbeddings(supabase, batch, tag) : new Map<string, number[]>()
+        const missing = batch.filter((r) => !embeddings.has(r.id))
+        const computed = await generateEmbeddingBatch(missing.map((r) => leadToText(r.data ?? {}, template)))
+        missing.forEach((r, i) => embeddings.set(r.id, computed[i]))
+        const updates = batch.map((r) => ({
+          id: r.id,
+          data: r.data,
+          embedding: embeddings.get(r.id)!,
+          ...embeddingTagColumns(tag, embeddings.get(r.id)!),
+        }))
+        const { error: updateError } = await supabase.from(LEADS_TABLE).upsert(updates, { onConflict: 'id' })
+        if (updateError) throw updateError
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        await supabase.from(REEMBED_JOBS_TABLE).update({ status: 'failed', error: message, updated_at: patch.updated_at }).eq('id', current.id)
+        throw err
+      }
+      patch.cursor_id = batch[batch.length - 1].id
+      patch.processed = current.processed + batch.length
+      if (batch.length < REEMBED_BATCH_SIZE) patch.status = 'completed'
+    }
+
+    const { data: updated, error: progressError } = await supabase
+      .from(REEMBED_JOBS_TABLE)
+      .update(patch)
+      .eq('id', current.id)
+      .select('*')
+      .single()
+    if (progressError) throw progressError
+    current = updated as ReembedJob
+    if (current.status !== 'running') break
+  }
+  return current
+}
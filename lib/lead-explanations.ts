@@ -0,0 +1,239 @@
+import { createHash } from 'crypto'
+import { getSupabase, LEAD_EXPLANATIONS_TABLE } from '@/lib/supabase'
+import { generateLlmText, getConfiguredLlmProvider, LLM_PROVIDERS, type LlmProvider } from '@/lib/llm'
+import { leadToText } from '@/lib/lead-text'
+import { getLeadKey } from '@/lib/lead-identity'
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import type { ScoreBreakdown } from '@/lib/scoring'
+
+/**
+ * "Why this lead" explanations, generated on demand (POST /api/explain) by the LLM used for prompt
+ * optimization (lib/llm.ts), or by a local template when no LLM is configured or AI_PROVIDER=local.
+ * Cached per lead + profile + provider + score (the score and breakdown the text quotes) in memory
+ * and in public.lead_explanations.
+ */
+export type ExplanationProvider = LlmProvider | 'local'
+
+/** A ranked lead to explain; score and breakdown (from the ranking response) ground the explanation. */
+export interface ExplanationInput {
+  lead: Record<string, string>
+  score?: number
+  breakdown?: ScoreBreakdown
+}
+
+export interface ExplanationResult {
+  explanation?: string
+  /** True when the explanation came from the cache. */
+  cached: boolean
+  error?: string
+}
+
+const EXPLANATION_SYSTEM = 'You are an expert assistant in lead analysis. Your task is to explain concisely and clearly why a lead is relevant based on the desired characteristics. Respond in English, 2-3 sentences maximum.'
+
+/** Entries kept in the in-memory cache (oldest dropped first). */
+const MEMORY_CACHE_SIZE = 500
+
+const memoryCache = new Map<string, string>()
+
+/** Set once lead_explanations is found missing, so we don't query it on every request. */
+let tableUnavailable = false
+
+/**
+ * EXPLANATION_PROVIDER when set; otherwise 'local' with AI_PROVIDER=local, else the configured LLM
+ * (Gemini, Groq, Anthropic), else 'local'.
+ */
+export function getExplanationProvider(): ExplanationProvider {
+  const configured = (process.env.EXPLANATION_PROVIDER ?? '').trim().toLowerCase()
+  if (configured === 'local' || LLM_PROVIDERS.includes(configured as LlmProvider)) {
+    return configured as ExplanationProvider
+  }
+  if ((process.env.AI_PROVIDER ?? '').toLowerCase() === 'local') return 'local'
+  return getConfiguredLlmProvider() ?? 'local'
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+/** Lead identity (lib/lead-identity.ts) when it has one, otherwise all of its values. */
+export function getLeadHash(lead: Record<string, string>): string {
+  const key = getLeadKey(lead)
+  if (key) return sha256(key)
+  const entries = Object.entries(lead)
+    .filter(([, v]) => v && String(v).trim())
+    .sort(([a], [b]) => a.localeCompare(b))
+  return sha256(JSON.stringify(entries))
+}
+
+/** Whitespace-insensitive hash of the profile text. */
+export function getProfileHash(characteristics: string): string {
+  return sha256(characteristics.trim().replace(/\s+/g, ' '))
+}
+
+/** Hash of the score and breakdown an explanation quotes, so a lead scored differently is explained again. */
+export function getScoreHash({ score, breakdown }: ExplanationInput): string {
+  return sha256(JSON.stringify({ score: score ?? null, breakdown: breakdown ?? null }))
+}
+
+function isMissingTableError(error: { code?: string; message?: string }): boolean {
+  return error.code === '42P01' || error.code === 'PGRST205' || !!error.message?.toLowerCase().includes('does not exist')
+}
+
+function isUnconfigured(e: unknown): boolean {
+  return e instanceof Error && e.message.includes('Supabase is not configured')
+}
+
+function remember(key: string, explanation: string) {
+  memoryCache.delete(key)
+  memoryCache.set(key, explanation)
+  if (memoryCache.size > MEMORY_CACHE_SIZE) memoryCache.delete(memoryCache.keys().next().value as string)
+}
+
+/**
+ * Cached explanations by "lead hash|score hash" (one query for the batch); empty when the table is
+ * unavailable.
+ */
+async function loadStoredExplanations(
+  leadHashes: string[],
+  profileHash: string,
+  provider: ExplanationProvider
+): Promise<Map<string, string>> {
+  const stored = new Map<string, string>()
+  if (tableUnavailable || leadHashes.length === 0) return stored
+  try {
+    const { data, error } = await getSupabase()
+      .from(LEAD_EXPLANATIONS_TABLE)
+      .select('lead_hash, score_hash, explanation')
+      .eq('profile_hash', profileHash)
+      .eq('provider', provider)
+      .in('lead_hash', leadHashes)
+    if (error) {
+      if (isMissingTableError(error)) tableUnavailable = true
+      else console.warn('Lead explanations cache not read:', error.message)
+      return stored
+    }
+    for (const row of data ?? []) stored.set(`${row.lead_hash}|${row.score_hash}`, row.explanation as string)
+  } catch (e) {
+    if (!isUnconfigured(e)) console.warn('Lead explanations cache not read:', e)
+  }
+  return stored
+}
+
+async function storeExplanation(
+  leadHash: string,
+  scoreHash: string,
+  profileHash: string,
+  provider: ExplanationProvider,
+  explanation: string
+) {
+  if (tableUnavailable) return
+  try {
+    const { error } = await getSupabase()
+      .from(LEAD_EXPLANATIONS_TABLE)
+      .upsert(
+        { lead_hash: leadHash, score_hash: scoreHash, profile_hash: profileHash, provider, explanation },
+        { onConflict: 'lead_hash,profile_hash,provider,score_hash' }
+      )
+    if (error) {
+      if (isMissingTableError(error)) tableUnavailable = true
+      else console.warn('Lead explanation not cached:', error.message)
+    }
+  } catch (e) {
+    if (!isUnconfigured(e)) console.warn('Lead explanation not cached:', e)
+  }
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+/** Explanation built from the score breakdown without an LLM (offline / no API key). */
+export function buildLocalExplanation({ lead, score, breakdown }: ExplanationInput): string {
+  const name = getLeadName(lead) || 'This lead'
+  const title = getLeadField(lead, 'title')
+  const company = getLeadField(lead, 'company')
+  const who = [title, company && `at ${company}`].filter(Boolean).join(' ')
+  const sentences = [`${name}${who ? ` (${who})` : ''} scores ${formatPercent(breakdown?.score ?? score ?? 0)}.`]
+  if (!breakdown) return sentences[0]
+  sentences.push(`Similarity to the Target profile is ${breakdown.targetSimilarity.toFixed(2)}, a base score of ${formatPercent(breakdown.baseScore)}.`)
+  const clause = breakdown.dominantClause ? ` (closest clause: "${breakdown.dominantClause}")` : ''
+  if (breakdown.dominant === 'avoid') {
+    sentences.push(`It resembles the Avoid profile${clause}, which lowered the score by ${formatPercent(breakdown.avoidPenalty)}.`)
+  } else if (breakdown.dominant === 'prefer') {
+    const direction = breakdown.preferBonus >= 0 ? 'raised' : 'lowered'
+    sentences.push(`Its match with the Prefer profile${clause} ${direction} the score by ${formatPercent(Math.abs(breakdown.preferBonus))}.`)
+  } else if (clause) {
+    sentences.push(`It is closest to the Target clause "${breakdown.dominantClause}".`)
+  }
+  if (breakdown.belowMinScore) sentences.push(`It is below the minimum score of ${formatPercent(breakdown.minScore)}.`)
+  return sentences.join(' ')
+}
+
+async function generateLlmExplanation(provider: LlmProvider, characteristics: string, input: ExplanationInput): Promise<string> {
+  const { lead, score, breakdown } = input
+  const scoreLines = [
+    score !== undefined ? `Score: ${formatPercent(score)}` : '',
+    breakdown
+      ? `Similarity to Target: ${breakdown.targetSimilarity.toFixed(2)}` +
+        (breakdown.avoidSimilarity !== null ? `, to Avoid: ${breakdown.avoidSimilarity.toFixed(2)}` : '') +
+        (breakdown.preferSimilarity !== null ? `, to Prefer: ${breakdown.preferSimilarity.toFixed(2)}` : '')
+      : '',
+    breakdown?.dominantClause ? `Closest profile clause: "${breakdown.dominantClause}"` : '',
+  ].filter(Boolean)
+  const text = await generateLlmText(provider, {
+    system: EXPLANATION_SYSTEM,
+    user: `Desired lead characteristics: "${characteristics}"
+
+Lead information:
+${leadToText(lead)}
+
+${scoreLines.join('\n')}
+
+Explain briefly why this lead is relevant to the desired characteristics.`,
+    temperature: 0.7,
+    maxTokens: 150,
+  })
+  if (!text) throw new Error('The model returned an empty explanation.')
+  return text
+}
+
+/**
+ * Explains each lead (in order), using cached explanations when available. LLM calls run one at a
+ * time; a failed lead gets an error and is not cached, the others still succeed.
+ */
+export async function explainLeads(
+  characteristics: string,
+  inputs: ExplanationInput[],
+  provider: ExplanationProvider = getExplanationProvider()
+): Promise<ExplanationResult[]> {
+  const profileHash = getProfileHash(characteristics)
+  const leadHashes = inputs.map((input) => getLeadHash(input.lead))
+  const scoreHashes = inputs.map(getScoreHash)
+  const cacheKey = (i: number) => `${provider}|${profileHash}|${leadHashes[i]}|${scoreHashes[i]}`
+  const missing = leadHashes.filter((h, i) => !memoryCache.has(cacheKey(i)))
+  const stored = await loadStoredExplanations(Array.from(new Set(missing)), profileHash, provider)
+
+  const results: ExplanationResult[] = []
+  for (let i = 0; i < inputs.length; i++) {
+    const key = cacheKey(i)
+    const cached = memoryCache.get(key) ?? stored.get(`${leadHashes[i]}|${scoreHashes[i]}`)
+    if (cached) {
+      remember(key, cached)
+      results.push({ explanation: cached, cached: true })
+      continue
+    }
+    try {
+      const explanation =
+        provider === 'local'
+          ? buildLocalExplanation(inputs[i])
+          : await generateLlmExplanation(provider, characteristics, inputs[i])
+      remember(key, explanation)
+      await storeExplanation(leadHashes[i], scoreHashes[i], profileHash, provider, explanation)
+      results.push({ explanation, cached: false })
+    } catch (e) {
+      console.error('Error generating explanation:', e)
+      results.push({ cached: false, error: e instanceof Error ? e.message : 'Failed to generate explanation' })
+    }
+  }
+  return results
+}
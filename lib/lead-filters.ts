@@ -0,0 +1,178 @@
+import { getLeadField, type LeadField } from '@/lib/lead-schema'
+
+/**
+ * Hard rule filters on the lead schema. Unlike Avoid (which only lowers the embedding score), a
+ * lead that breaks a rule is removed before scoring. Rules come from the request body and/or a
+ * "Filters:" section in the profile. A lead missing the field a rule looks at passes that rule.
+ * Safe to import from client components (no server-only dependencies).
+ */
+export interface LeadFilters {
+  /** Title must contain at least one of these keywords (whole words, case-insensitive). */
+  titleIncludes?: string[]
+  /** Title must contain none of these keywords (whole words, case-insensitive). */
+  titleExcludes?: string[]
+  /** Employee range must be one of these (e.g. "51-200"). */
+  employeeRanges?: string[]
+  /** Industry must be one of these (case-insensitive). */
+  industries?: string[]
+  /** Location must mention one of these countries. */
+  countries?: string[]
+  /** Company domain (or email domain) must not be one of these or a subdomain of one. */
+  domainBlocklist?: string[]
+}
+
+export type LeadFilterRule = keyof LeadFilters
+
+export const LEAD_FILTER_RULES: Record<LeadFilterRule, { label: string; field: LeadField; aliases: string[] }> = {
+  titleIncludes: { label: 'Title includes', field: 'title', aliases: ['title includes', 'title contains', 'require titles', 'titles'] },
+  titleExcludes: { label: 'Title excludes', field: 'title', aliases: ['title excludes', 'exclude titles', 'excluded titles'] },
+  employeeRanges: { label: 'Employee range', field: 'employee_range', aliases: ['employee range', 'employee ranges', 'company size'] },
+  industries: { label: 'Industry', field: 'industry', aliases: ['industry', 'industries'] },
+  countries: { label: 'Country', field: 'location', aliases: ['country', 'countries'] },
+  domainBlocklist: { label: 'Domain blocklist', field: 'domain', aliases: ['domain blocklist', 'exclude domains', 'blocked domains'] },
+}
+
+export const LEAD_FILTER_RULE_IDS = Object.keys(LEAD_FILTER_RULES) as LeadFilterRule[]
+
+/** Leads removed per rule (a lead counts once, for the first rule it breaks). */
+export type LeadFilterCounts = Partial<Record<LeadFilterRule, number>>
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Whole-word, case-insensitive keyword match ("VP Sales" in "SVP, VP Sales EMEA"). */
+export function containsWord(text: string, keyword: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`).test(text.toLowerCase())
+}
+
+/** "51–200 employees" and "51-200" compare equal. */
+function normalizeRange(value: string): string {
+  return value.toLowerCase().replace(/[–—]/g, '-').replace(/employees?/g, '').replace(/\s+/g, '')
+}
+
+function normalizeDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0]
+}
+
+function leadDomains(lead: Record<string, string>): string[] {
+  const domains: string[] = []
+  const domain = getLeadField(lead, 'domain')
+  if (domain) domains.push(normalizeDomain(domain))
+  const email = getLeadField(lead, 'email')
+  const at = email.lastIndexOf('@')
+  if (at >= 0) domains.push(normalizeDomain(email.slice(at + 1)))
+  return domains.filter(Boolean)
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : []
+  return items.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean)
+}
+
+/** Validates filters received from a client; accepts comma-separated strings or arrays. Null if not an object. */
+export function sanitizeLeadFilters(value: unknown): LeadFilters | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const filters: LeadFilters = {}
+  for (const rule of LEAD_FILTER_RULE_IDS) {
+    const list = toList(raw[rule])
+    if (list.length > 0) filters[rule] = list
+  }
+  return filters
+}
+
+export function hasLeadFilters(filters: LeadFilters | null | undefined): filters is LeadFilters {
+  return !!filters && LEAD_FILTER_RULE_IDS.some((rule) => (filters[rule]?.length ?? 0) > 0)
+}
+
+/** Combines filters (e.g. from the profile and the request body); lists are merged. */
+export function mergeLeadFilters(...all: (LeadFilters | null | undefined)[]): LeadFilters {
+  const merged: LeadFilters = {}
+  for (const filters of all) {
+    if (!filters) continue
+    for (const rule of LEAD_FILTER_RULE_IDS) {
+      const list = filters[rule]
+      if (!list?.length) continue
+      merged[rule] = Array.from(new Set([...(merged[rule] ?? []), ...list]))
+    }
+  }
+  return merged
+}
+
+/** First rule the lead breaks, or null when it passes every rule. */
+export function getLeadFilterExclusion(lead: Record<string, string>, filters: LeadFilters): LeadFilterRule | null {
+  const title = getLeadField(lead, 'title')
+  if (filters.titleIncludes?.length && title && !filters.titleIncludes.some((k) => containsWord(title, k))) {
+    return 'titleIncludes'
+  }
+  if (filters.titleExcludes?.length && title && filters.titleExcludes.some((k) => containsWord(title, k))) {
+    return 'titleExcludes'
+  }
+  const range = getLeadField(lead, 'employee_range')
+  if (filters.employeeRanges?.length && range && !filters.employeeRanges.some((r) => normalizeRange(r) === normalizeRange(range))) {
+    return 'employeeRanges'
+  }
+  const industry = getLeadField(lead, 'industry')
+  if (filters.industries?.length && industry && !filters.industries.some((i) => i.toLowerCase() === industry.toLowerCase())) {
+    return 'industries'
+  }
+  const location = getLeadField(lead, 'location')
+  if (filters.countries?.length && location && !filters.countries.some((c) => containsWord(location, c))) {
+    return 'countries'
+  }
+  if (filters.domainBlocklist?.length) {
+    const blocked = filters.domainBlocklist.map(normalizeDomain)
+    if (leadDomains(lead).some((d) => blocked.some((b) => d === b || d.endsWith(`.${b}`)))) return 'domainBlocklist'
+  }
+  return null
+}
+
+/**
+ * Splits leads into the ones that pass every rule (indices, in order) and per-rule exclusion counts.
+ */
+export function applyLeadFilters(
+  leads: Record<string, string>[],
+  filters: LeadFilters
+): { keptIndices: number[]; excludedByRule: LeadFilterCounts; totalExcluded: number } {
+  const keptIndices: number[] = []
+  const excludedByRule: LeadFilterCounts = {}
+  leads.forEach((lead, i) => {
+    const rule = getLeadFilterExclusion(lead, filters)
+    if (rule) excludedByRule[rule] = (excludedByRule[rule] ?? 0) + 1
+    else keptIndices.push(i)
+  })
+  return { keptIndices, excludedByRule, totalExcluded: leads.length - keptIndices.length }
+}
+
+const FILTERS_SECTION_RE =
+  /\bFilters\s*:\s*([\s\S]*?)(?=\b(?:Target|Avoid|Prefer|Committee)\s*:|(?:^|\n)[ \t]*Segment\b[^:\n]*\d[^:\n]*:|$)/i
+
+/**
+ * Reads the "Filters:" section of a profile, one rule per line or sentence, e.g.
+ * "Filters: Title excludes: CFO, CTO, HR. Employee range: 51-200, 201-500. Domain blocklist: acme.com".
+ * Returns the filters, the profile text without that section (so it is not embedded) and the section itself.
+ */
+export function extractProfileFilters(characteristics: string): { filters: LeadFilters; text: string; section: string } {
+  const match = characteristics.match(FILTERS_SECTION_RE)
+  if (!match) return { filters: {}, text: characteristics, section: '' }
+  const filters: LeadFilters = {}
+  const lines = match[1].split(/\n|\.(?=\s+[A-Za-z][A-Za-z ]*:)/)
+  for (const line of lines) {
+    const m = line.match(/^\s*[-*]?\s*([A-Za-z][A-Za-z ]*?)\s*:\s*(.+)$/)
+    if (!m) continue
+    const label = m[1].trim().toLowerCase()
+    const rule = LEAD_FILTER_RULE_IDS.find((r) => LEAD_FILTER_RULES[r].aliases.includes(label))
+    const values = toList(m[2].replace(/\.\s*$/, ''))
+    if (rule && values.length) filters[rule] = Array.from(new Set([...(filters[rule] ?? []), ...values]))
+  }
+  const text = characteristics.replace(match[0], '').trim()
+  return { filters, text, section: match[0].trim() }
+}
+
+/** "Title excludes: 3, Domain blocklist: 1" for result summaries. */
+export function formatLeadFilterCounts(counts: LeadFilterCounts): string {
+  return LEAD_FILTER_RULE_IDS.filter((rule) => counts[rule])
+    .map((rule) => `${LEAD_FILTER_RULES[rule].label}: ${counts[rule]}`)
+    .join(', ')
+}
@@ -0,0 +1,56 @@
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+
+/**
+ * Stable identity for a lead row, stored in public.leads.lead_key (unique) so re-uploading the
+ * same list updates leads instead of duplicating them. In order of preference:
+ *  - "li:"    LinkedIn profile URL (without protocol, www, query string or trailing slash)
+ *  - "email:" email address
+ *  - "name:"  normalized full name + company + domain (needs a name and a company or domain)
+ * Rows with none of these get no key and are always inserted as new leads.
+ */
+
+/** Lowercase, strip accents, collapse whitespace. */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function normalizeLinkedInUrl(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^[a-z]{2,3}\.linkedin\.com/, 'linkedin.com')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+}
+
+function normalizeDomain(value: string): string {
+  return normalizeLinkedInUrl(value).split('/')[0]
+}
+
+export function getLeadKey(lead: Record<string, string>): string | null {
+  const linkedin = normalizeLinkedInUrl(getLeadField(lead, 'linkedin'))
+  if (linkedin.includes('linkedin.com/')) return `li:${linkedin}`
+
+  const email = getLeadField(lead, 'email').toLowerCase()
+  if (email.includes('@')) return `email:${email}`
+
+  const name = normalizeText(getLeadName(lead))
+  const company = normalizeText(getLeadField(lead, 'company'))
+  const domain = normalizeDomain(getLeadField(lead, 'domain'))
+  if (!name || (!company && !domain)) return null
+  return `name:${name}|${company}|${domain}`
+}
+
+/** True if both rows have the same columns and values (column order ignored). */
+export function sameLeadData(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keysA = Object.keys(a)
+  if (keysA.length !== Object.keys(b).length) return false
+  return keysA.every((k) => k in b && String(a[k] ?? '') === String(b[k] ?? ''))
+}
@@ -0,0 +1,248 @@
+import type { getSupabase } from '@/lib/supabase'
+import { LEADS_TABLE, IMPORTS_TABLE } from '@/lib/supabase'
+import { embeddingTagMatches, type EmbeddingTag } from '@/lib/embedding-providers'
+import { getLeadKey, sameLeadData } from '@/lib/lead-identity'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+/** Outcome of upserting a batch of rows (one request / chunk). */
+export interface IngestSummary {
+  rows: number
+  inserted: number
+  updated: number
+  /** Unchanged leads (same data, embedding from the active model). */
+  skipped: number
+  /** Rows of a lead that appeared earlier in the upload (in the same chunk or an earlier chunk of the import). */
+  duplicates: number
+}
+
+export interface LeadImport {
+  id: string
+  chunk_count: number
+  /** Stored chunks: chunk index -> summary (a plain row count for imports stored before dedupe). */
+  chunks: Record<string, IngestSummary | number>
+  status: 'uploading' | 'completed'
+  created_at: string
+  updated_at: string
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isValidImportId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value)
+}
+
+export async function getLeadImport(supabase: SupabaseClient, importId: string): Promise<LeadImport | null> {
+  const { data, error } = await supabase.from(IMPORTS_TABLE).select('*').eq('id', importId).maybeSingle()
+  if (error) throw error
+  return (data as LeadImport | null) ?? null
+}
+
+/**
+ * Removes the rows without a lead_key that a previous attempt of this chunk wrote, so retrying a
+ * chunk never duplicates them (keyed rows are upserted, so a retry updates them in place).
+ */
+export async function deleteImportChunk(supabase: SupabaseClient, importId: string, chunkIndex: number): Promise<void> {
+  const { error } = await supabase
+    .from(LEADS_TABLE)
+    .delete()
+    .eq('import_id', importId)
+    .eq('import_chunk', chunkIndex)
+    .is('lead_key', null)
+  if (error) throw error
+}
+
+/** Keys per `lead_key=in.(...)` request, to keep the URL short. */
+const KEY_LOOKUP_BATCH_SIZE = 100
+
+export interface LeadUpsertPlan {
+  /** Rows to embed and upsert; `existing` tells inserted from updated. */
+  writes: { row: Record<string, string>; key: string | null; existing: boolean }[]
+  /** Keys of stored leads that are identical to the uploaded row (no re-embedding needed). */
+  unchangedKeys: string[]
+  /**
+   * Rows dropped because an earlier row of the same upload has the same key: in this chunk, or
+   * already written (or kept unchanged) by another chunk of the same import.
+   */
+  duplicates: number
+}
+
+/**
+ * Splits uploaded rows into new leads, changed leads and unchanged leads by looking up their
+ * lead_key. A stored lead is unchanged when its data is identical and its embedding comes from `tag`
+ * (same model and lead text template). A stored lead that another chunk of `importId` already wrote
+ * is a duplicate (a retry of the same chunk rewrites its own rows).
+ */
+export async function planLeadUpsert(
+  supabase: SupabaseClient,
+  rows: Record<string, string>[],
+  tag: EmbeddingTag,
+  importId: string,
+  chunkIndex: number
+): Promise<LeadUpsertPlan> {
+  const seen = new Set<string>()
+  const unique: { row: Record<string, string>; key: string | null }[] = []
+  let duplicates = 0
+  for (const row of rows) {
+    const key = getLeadKey(row)
+    if (key && seen.has(key)) {
+      duplicates++
+      continue
+    }
+    if (key) seen.add(key)
+    unique.push({ row, key })
+  }
+
+  type StoredLead = {
+    lead_key: string
+    data: Record<string, string> | null
+    embedding_provider: string | null
+    embedding_model: string | null
+    embedding_dim: number | null
+    embedding_template: string | null
+    import_id: string | null
+    import_chunk: number | null
+  }
+  const stored = new Map<string, StoredLead>()
+  const keys = Array.from(seen)
+  for (let i = 0; i < keys.length; i += KEY_LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(LEADS_TABLE)
+      .select('lead_key, data, embedding_provider, embedding_model, embedding_dim, embedding_template, import_id, import_chunk')
+      .in('lead_key', keys.slice(i, i + KEY_LOOKUP_BATCH_SIZE))
+    if (error) throw error
+    for (const lead of (data ?? []) as StoredLead[]) stored.set(lead.lead_key, lead)
+  }
+
+  const plan: LeadUpsertPlan = { writes: [], unchangedKeys: [], duplicates }
+  for (const { row, key } of unique) {
+    const existing = key ? stored.get(key) : undefined
+    if (existing && existing.import_id === importId && existing.import_chunk !== chunkIndex) {
+      plan.duplicates++
+      continue
+    }
+    if (
+      key &&
+      existing?.data &&
+      sameLeadData(existing.data, row) &&
+      embeddingTagMatches(
+        {
+          provider: existing.embedding_provider,
+          model: existing.embedding_model,
+          dimension: existing.embedding_dim,
+          template: existing.embedding_template,
+        },
+        tag
+      )
+    ) {
+      plan.unchangedKeys.push(key)
+    } else {
+      plan.writes.push({ row, key, existing: !!existing })
+    }
+  }
+  return plan
+}
+
+/** Moves unchanged leads into this import, so "replace existing leads" keeps them. */
+export async function touchUnchangedLeads(
+  supabase: SupabaseClient,
+  keys: string[],
+  importId: string,
+  chunkIndex: number
+): Promise<void> {
+  for (let i = 0; i < keys.length; i += KEY_LOOKUP_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(LEADS_TABLE)
+      .update({ import_id: importId, import_chunk: chunkIndex })
+      .in('lead_key', keys.slice(i, i + KEY_LOOKUP_BATCH_SIZE))
+    if (error) throw error
+  }
+}
+
+/** Marks a chunk as stored (call after its rows were upserted). */
+export async function recordImportChunk(
+  supabase: SupabaseClient,
+  importId: string,
+  chunkIndex: number,
+  chunkCount: number,
+  summary: IngestSummary
+): Promise<LeadImport> {
+  const existing = await getLeadImport(supabase, importId)
+  const chunks = { ...(existing?.chunks ?? {}), [String(chunkIndex)]: summary }
+  const { data, error } = await supabase
+    .from(IMPORTS_TABLE)
+    .upsert(
+      { id: importId, chunk_count: chunkCount, chunks, status: 'uploading', updated_at: new Date().toISOString() },
+      { onConflict: 'id' }
+    )
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as LeadImport
+}
+
+/** Chunk indices in 0..chunk_count-1 that have not been stored yet. */
+export function getMissingChunks(leadImport: LeadImport): number[] {
+  const missing: number[] = []
+  for (let i = 0; i < leadImport.chunk_count; i++) {
+    if (!(String(i) in leadImport.chunks)) missing.push(i)
+  }
+  return missing
+}
+
+/** e.g. "Ingested 120 leads: 100 new, 20 updated, 5 unchanged, 3 duplicates." */
+export function formatIngestSummary(summary: IngestSummary): string {
+  const ingested = summary.inserted + summary.updated
+  const skipped = summary.skipped > 0 ? `, ${summary.skipped} unchanged` : ''
+  const duplicates = summary.duplicates > 0 ? `, ${summary.duplicates} duplicate${summary.duplicates !== 1 ? 's' : ''}` : ''
+  return `Ingested ${ingested} leads with embeddings: ${summary.inserted} new, ${summary.updated} updated${skipped}${duplicates}.`
+}
+
+/** Totals over every stored chunk. */
+export function summarizeImport(leadImport: LeadImport): IngestSummary {
+  const total: IngestSummary = { rows: 0, inserted: 0, updated: 0, skipped: 0, duplicates: 0 }
+  for (const chunk of Object.values(leadImport.chunks)) {
+    const c = typeof chunk === 'number' ? { rows: chunk, inserted: chunk, updated: 0, skipped: 0, duplicates: 0 } : chunk
+    total.rows += c.rows
+    total.inserted += c.inserted
+    total.updated += c.updated
+    total.skipped += c.skipped
+    // Chunks stored before duplicates were counted apart include them in skipped.
+    total.duplicates += c.duplicates ?? 0
+  }
+  return total
+}
+
+/**
+ * Makes the leads written by a chunked import rankable (they are stored with import_pending until
+ * the import is finalized).
+ */
+export async function releaseImportLeads(supabase: SupabaseClient, importId: string): Promise<void> {
+  const { error } = await supabase
+    .from(LEADS_TABLE)
+    .update({ import_pending: false })
+    .eq('import_id', importId)
+    .eq('import_pending', true)
+  if (error) throw error
+}
+
+export async function markImportCompleted(supabase: SupabaseClient, importId: string): Promise<void> {
+  const { error } = await supabase
+    .from(IMPORTS_TABLE)
+    .update({ status: 'completed', updated_at: new Date().toISOString() })
+    .eq('id', importId)
+  if (error) throw error
+}
+
+/**
+ * Deletes every lead that does not belong to `importId` (the "replace existing leads" step).
+ * Only call once the import is complete. Returns how many rows were removed.
+ */
+export async function clearLeadsOutsideImport(supabase: SupabaseClient, importId: string): Promise<number> {
+  const { error, count } = await supabase
+    .from(LEADS_TABLE)
+    .delete({ count: 'exact' })
+    .or(`import_id.is.null,import_id.neq.${importId}`)
+  if (error) throw error
+  return count ?? 0
+}
@@ -0,0 +1,255 @@
+/**
+ * Canonical lead schema and column mapping. Every CSV (our own dataset, Apollo, Sales Navigator,
+ * HubSpot, custom exports) is mapped onto the same canonical keys at ingest, and every reader
+ * (leadToText, exports, eval, the results UI) looks fields up through getLeadField, which also
+ * understands the raw column names of rows stored before mapping existed.
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+export type LeadField =
+  | 'full_name'
+  | 'first_name'
+  | 'last_name'
+  | 'title'
+  | 'seniority'
+  | 'department'
+  | 'email'
+  | 'linkedin'
+  | 'location'
+  | 'company'
+  | 'domain'
+  | 'industry'
+  | 'employee_range'
+
+export interface LeadFieldDef {
+  /** Key used in stored lead data (matches the columns of data/dataset/leads.csv where one exists). */
+  key: string
+  label: string
+  /** Column names recognized for this field; compared case- and punctuation-insensitively. */
+  aliases: string[]
+}
+
+export const LEAD_FIELDS: Record<LeadField, LeadFieldDef> = {
+  full_name: { key: 'lead_full_name', label: 'Full Name', aliases: ['Full Name', 'Name', 'Lead Name', 'Contact Name'] },
+  first_name: { key: 'lead_first_name', label: 'First Name', aliases: ['First Name', 'firstname'] },
+  last_name: { key: 'lead_last_name', label: 'Last Name', aliases: ['Last Name', 'lastname'] },
+  title: { key: 'lead_job_title', label: 'Job Title', aliases: ['Title', 'Job Title', 'Current Title', 'Position'] },
+  seniority: { key: 'lead_seniority', label: 'Seniority', aliases: ['Seniority', 'Seniority Level'] },
+  department: { key: 'lead_department', label: 'Department', aliases: ['Department', 'Departments', 'Function'] },
+  email: { key: 'lead_email', label: 'Email', aliases: ['Email', 'Email Address', 'Work Email'] },
+  linkedin: {
+    key: 'lead_linkedin_url',
+    label: 'LinkedIn',
+    aliases: ['LI', 'LinkedIn', 'LinkedIn URL', 'Person Linkedin Url', 'Profile URL', 'LinkedIn Profile'],
+  },
+  location: { key: 'lead_location', label: 'Location', aliases: ['Location', 'Geography', 'Country/Region', 'Country', 'City'] },
+  company: {
+    key: 'account_name',
+    label: 'Company',
+    aliases: ['Company', 'Company Name', 'Account Name', 'Organization', 'Company Name for Emails'],
+  },
+  domain: { key: 'account_domain', label: 'Domain', aliases: ['Domain', 'Website', 'Company Domain', 'Company Domain Name', 'Company Website'] },
+  industry: { key: 'account_industry', label: 'Industry', aliases: ['Industry', 'Company Industry'] },
+  employee_range: {
+    key: 'account_employee_range',
+    label: 'Employee Range',
+    aliases: ['Employee Range', '# Employees', 'Employees', 'Number of Employees', 'Company Headcount', 'Company Size', 'Company Employee Count Range'],
+  },
+}
+
+export const LEAD_FIELD_IDS = Object.keys(LEAD_FIELDS) as LeadField[]
+
+/** Canonical field -> source column in the uploaded CSV. */
+export type ColumnMapping = Partial<Record<LeadField, string>>
+
+export interface MappingPreset {
+  id: string
+  label: string
+  /** Columns that identify this export format (all must be present). */
+  signature: string[]
+  mapping: ColumnMapping
+}
+
+/** Known export formats. Fields a preset leaves out are still matched by alias. */
+export const MAPPING_PRESETS: MappingPreset[] = [
+  {
+    id: 'apollo',
+    label: 'Apollo',
+    signature: ['Person Linkedin Url', '# Employees'],
+    mapping: {
+      first_name: 'First Name',
+      last_name: 'Last Name',
+      title: 'Title',
+      seniority: 'Seniority',
+      department: 'Departments',
+      email: 'Email',
+      linkedin: 'Person Linkedin Url',
+      location: 'Country',
+      company: 'Company',
+      domain: 'Website',
+      industry: 'Industry',
+      employee_range: '# Employees',
+    },
+  },
+  {
+    id: 'sales_navigator',
+    label: 'LinkedIn Sales Navigator',
+    signature: ['Profile URL', 'Job Title'],
+    mapping: {
+      first_name: 'First Name',
+      last_name: 'Last Name',
+      title: 'Job Title',
+      linkedin: 'Profile URL',
+      location: 'Location',
+      company: 'Company',
+      domain: 'Company Domain',
+      industry: 'Industry',
+      employee_range: 'Company Employee Count Range',
+    },
+  },
+  {
+    id: 'hubspot',
+    label: 'HubSpot',
+    signature: ['Record ID', 'Lifecycle Stage'],
+    mapping: {
+      first_name: 'First Name',
+      last_name: 'Last Name',
+      title: 'Job Title',
+      email: 'Email',
+      linkedin: 'LinkedIn URL',
+      location: 'Country/Region',
+      company: 'Company Name',
+      domain: 'Company Domain Name',
+      industry: 'Industry',
+      employee_range: 'Number of Employees',
+    },
+  },
+]
+
+/** "Full Name", "full_name" and "FULLNAME" all normalize to "fullname". */
+function normalizeColumn(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9#]/g, '')
+}
+
+const NORMALIZED_ALIASES: Record<LeadField, string[]> = LEAD_FIELD_IDS.reduce(
+  (acc, field) => {
+    const def = LEAD_FIELDS[field]
+    acc[field] = [def.key, field, ...def.aliases].map(normalizeColumn)
+    return acc
+  },
+  {} as Record<LeadField, string[]>
+)
+
+/** Field a column name stands for (canonical key or alias), if any. */
+export function getColumnLeadField(column: string): LeadField | null {
+  const normalized = normalizeColumn(column)
+  for (const field of LEAD_FIELD_IDS) {
+    if (NORMALIZED_ALIASES[field].includes(normalized)) return field
+  }
+  return null
+}
+
+/** Display label for a stored lead key ("account_name" -> "Company"), or null for unknown columns. */
+export function getLeadFieldLabel(key: string): string | null {
+  const field = getColumnLeadField(key)
+  return field ? LEAD_FIELDS[field].label : null
+}
+
+/**
+ * Detects the mapping for a CSV header: a known export format first, then alias matching for
+ * every field still unmapped. Each column maps to at most one field.
+ */
+export function detectColumnMapping(headers: string[]): { preset: string | null; mapping: ColumnMapping } {
+  const byNormalized = new Map<string, string>()
+  headers.forEach((h) => {
+    const n = normalizeColumn(h)
+    if (!byNormalized.has(n)) byNormalized.set(n, h)
+  })
+  const has = (column: string) => byNormalized.has(normalizeColumn(column))
+
+  const preset = MAPPING_PRESETS.find((p) => p.signature.every(has)) ?? null
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  if (preset) {
+    for (const field of LEAD_FIELD_IDS) {
+      const column = preset.mapping[field]
+      if (column && has(column)) {
+        const header = byNormalized.get(normalizeColumn(column))!
+        mapping[field] = header
+        used.add(header)
+      }
+    }
+  }
+  for (const field of LEAD_FIELD_IDS) {
+    if (mapping[field]) continue
+    for (const alias of NORMALIZED_ALIASES[field]) {
+      const header = byNormalized.get(alias)
+      if (header && !used.has(header)) {
+        mapping[field] = header
+        used.add(header)
+        break
+      }
+    }
+  }
+  return { preset: preset?.id ?? null, mapping }
+}
+
+/** Validates a mapping received from a client or the database (unknown fields and empty columns are dropped). */
+export function sanitizeColumnMapping(value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const mapping: ColumnMapping = {}
+  for (const [field, column] of Object.entries(value as Record<string, unknown>)) {
+    if (field in LEAD_FIELDS && typeof column === 'string' && column.trim()) {
+      mapping[field as LeadField] = column
+    }
+  }
+  return mapping
+}
+
+/**
+ * Rewrites a CSV row to canonical keys: mapped columns are renamed to their field key, other
+ * columns are kept as-is (unless keepUnmapped is false, e.g. for the eval set where extra columns
+ * such as Rank must not leak into the lead).
+ */
+export function applyColumnMapping(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  options: { keepUnmapped?: boolean } = {}
+): Record<string, string> {
+  const out: Record<string, string> = {}
+  const sources = new Set<string>()
+  for (const field of LEAD_FIELD_IDS) {
+    const column = mapping[field]
+    if (!column) continue
+    sources.add(column)
+    const value = row[column]
+    if (value != null && String(value).trim()) out[LEAD_FIELDS[field].key] = String(value).trim()
+  }
+  if (options.keepUnmapped !== false) {
+    for (const [column, value] of Object.entries(row)) {
+      if (!sources.has(column) && !(column in out)) out[column] = value
+    }
+  }
+  return out
+}
+
+/** Value of a field: its canonical key first, then any alias column (rows stored before mapping). */
+export function getLeadField(lead: Record<string, string>, field: LeadField): string {
+  const canonical = lead[LEAD_FIELDS[field].key]
+  if (canonical && String(canonical).trim()) return String(canonical).trim()
+  const aliases = NORMALIZED_ALIASES[field]
+  for (const alias of aliases) {
+    for (const [column, value] of Object.entries(lead)) {
+      if (value && String(value).trim() && normalizeColumn(column) === alias) return String(value).trim()
+    }
+  }
+  return ''
+}
+
+/** Full name, or first + last name. */
+export function getLeadName(lead: Record<string, string>): string {
+  return (
+    getLeadField(lead, 'full_name') ||
+    `${getLeadField(lead, 'first_name')} ${getLeadField(lead, 'last_name')}`.trim()
+  )
+}
@@ -0,0 +1,138 @@
+import type { getSupabase } from '@/lib/supabase'
+import { LEADS_TABLE } from '@/lib/supabase'
+import { DEFAULT_SCORING_PROFILE, type ScoringWeights } from '@/lib/scoring'
+import type { EmbeddingTag } from '@/lib/embedding-providers'
+import type { ProfileEmbeddings, SectionEmbeddings } from '@/lib/ranking'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+/** Candidates returned by Postgres, ready for rankLeadsAgainstPersona (same order in every array). */
+export interface LeadCandidates {
+  ids: string[]
+  leads: Record<string, string>[]
+  leadEmbeddings: number[][]
+}
+
+/** Default number of candidates fetched from Postgres (override with PGVECTOR_MATCH_COUNT). */
+const DEFAULT_MATCH_COUNT = 1000
+
+/** Lead ids per query when loading the matched rows (ids are sent in the query string). */
+const LEAD_ID_CHUNK_SIZE = 200
+
+/** Set once pgvector is found missing, so we don't retry a failing RPC on every request. */
+let pgvectorUnavailable = false
+/** Set once the outdated function warning is logged; the RPC is still retried on each request. */
+let outdatedFunctionWarned = false
+
+function isMissingPgvectorError(error: { code?: string; message?: string }): boolean {
+  const msg = (error.message ?? '').toLowerCase()
+  return (
+    error.code === 'PGRST202' || // function not in PostgREST schema cache
+    error.code === '42883' || // undefined function / operator
+    error.code === '42704' || // type "vector" does not exist
+    msg.includes('match_lead_scores') ||
+    msg.includes('type "vector"')
+  )
+}
+
+/**
+ * True when match_lead_scores is missing but an older match_leads exists (006 / 015 applied, not
+ * 017_pgvector_match_lead_scores.sql): PostgREST then suggests it in the hint.
+ */
+function isOutdatedPgvectorError(error: { code?: string; hint?: string | null }): boolean {
+  return error.code === 'PGRST202' && (error.hint ?? '').toLowerCase().includes('match_leads')
+}
+
+export function getPgvectorMatchCount(): number {
+  const env = parseInt(String(process.env.PGVECTOR_MATCH_COUNT ?? ''), 10)
+  return Number.isNaN(env) || env < 1 ? DEFAULT_MATCH_COUNT : env
+}
+
+/** One search of match_lead_scores: a set of Target / Avoid / Prefer embeddings and their clauses. */
+function toQuery(sections: SectionEmbeddings, multiVector: boolean) {
+  const clauses = (list: { embedding: number[] }[] | undefined) =>
+    multiVector && list && list.length > 0 ? list.map((c) => c.embedding) : undefined
+  return {
+    target: sections.targetEmbedding,
+    avoid: sections.avoidEmbedding,
+    prefer: sections.preferEmbedding,
+    targetClauses: clauses(sections.targetClauses),
+    avoidClauses: clauses(sections.avoidClauses),
+    preferClauses: clauses(sections.preferClauses),
+  }
+}
+
+/**
+ * Top-K leads by persona score computed in Postgres (match_lead_scores RPC, see
+ * supabase/migrations/006_pgvector.sql and 017_pgvector_match_lead_scores.sql), restricted to embeddings from `tag`.
+ * Scores with `weights` (the scoring profile's Avoid/Prefer weights) so the top-K matches Node scoring.
+ * One call searches the whole profile and each company-size segment (the top K of each are merged,
+ * so each segment's best leads are included); multi-vector profiles are scored per clause in SQL
+ * with the profile's clause aggregation. Only ids and scores come back, and the matched rows are
+ * then loaded once, best first.
+ * Returns null when pgvector is not set up (or PGVECTOR_SEARCH=0) so callers fall back
+ * to loading every lead and scoring in Node.
+ */
+export async function matchLeadsWithPgvector(
+  supabase: SupabaseClient,
+  profile: ProfileEmbeddings,
+  tag: EmbeddingTag,
+  matchCount: number,
+  weights: ScoringWeights = DEFAULT_SCORING_PROFILE
+): Promise<LeadCandidates | null> {
+  if (pgvectorUnavailable || process.env.PGVECTOR_SEARCH === '0') return null
+
+  const multiVector = !!profile.clauseAggregation
+  const { data, error } = await supabase.rpc('match_lead_scores', {
+    queries: [profile, ...(profile.segments ?? [])].map((sections) => toQuery(sections, multiVector)),
+    aggregation: profile.clauseAggregation ?? null,
+    avoid_weight: weights.avoidPenaltyWeight,
+    prefer_weight: weights.preferBonusWeight,
+    avoid_threshold: weights.avoidSimilarityThreshold,
+    match_count: matchCount,
+    filter_provider: tag.provider,
+    filter_model: tag.model,
+    filter_template: tag.template,
+  })
+  if (error) {
+    if (isOutdatedPgvectorError(error)) {
+      // Not permanent: once the migration is applied, the next request uses pgvector again.
+      if (!outdatedFunctionWarned) {
+        outdatedFunctionWarned = true
+        console.warn(
+          'match_lead_scores is missing (only the older match_leads exists); ranking in Node instead. ' +
+            'Apply supabase/migrations/017_pgvector_match_lead_scores.sql to use pgvector again.'
+        )
+      }
+      return null
+    }
+    if (isMissingPgvectorError(error)) {
+      pgvectorUnavailable = true
+      return null
+    }
+    throw error
+  }
+
+  const ids = ((data ?? []) as { id: string; score: number }[]).map((r) => r.id)
+  const rowsById = new Map<string, { id: string; data: unknown; embedding: unknown }>()
+  for (let i = 0; i < ids.length; i += LEAD_ID_CHUNK_SIZE) {
+    const { data: rows, error: rowsError } = await supabase
+      .from(LEADS_TABLE)
+      .select('id, data, embedding')
+      .in('id', ids.slice(i, i + LEAD_ID_CHUNK_SIZE))
+      // Leads of unfinalized imports are scored by match_lead_scores but not ranked.
+      .eq('import_pending', false)
+    if (rowsError) throw rowsError
+    for (const row of rows ?? []) rowsById.set(row.id, row)
+  }
+  const rows = ids
+    .map((id) => rowsById.get(id))
+    .filter((r): r is { id: string; data: unknown; embedding: unknown } =>
+      !!r && !!r.data && Array.isArray(r.embedding) && r.embedding.length > 0
+    )
+  return {
+    ids: rows.map((r) => r.id),
+    leads: rows.map((r) => r.data as Record<string, string>),
+    leadEmbeddings: rows.map((r) => r.embedding as number[]),
+  }
+}
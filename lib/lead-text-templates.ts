@@ -0,0 +1,89 @@
+import type { getSupabase } from '@/lib/supabase'
+import { LEAD_TEXT_TEMPLATES_TABLE } from '@/lib/supabase'
+import {
+  DEFAULT_LEAD_TEXT_TEMPLATE,
+  DEFAULT_LEAD_TEXT_TEMPLATE_VERSION,
+  getLeadTextTemplateVersion,
+  sanitizeLeadTextTemplate,
+  type LeadTextTemplate,
+} from '@/lib/lead-text'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+export interface SavedLeadTextTemplate {
+  id: string
+  name: string
+  template: LeadTextTemplate
+  version: string
+  created_at: string
+  updated_at: string
+}
+
+/** Template chosen for an ingest / ranking / re-embed request. */
+export interface ResolvedLeadTextTemplate {
+  /** Null for the built-in default template. */
+  id: string | null
+  name: string
+  template: LeadTextTemplate
+  version: string
+}
+
+export const DEFAULT_RESOLVED_TEMPLATE: ResolvedLeadTextTemplate = {
+  id: null,
+  name: 'Default',
+  template: DEFAULT_LEAD_TEXT_TEMPLATE,
+  version: DEFAULT_LEAD_TEXT_TEMPLATE_VERSION,
+}
+
+export async function listLeadTextTemplates(supabase: SupabaseClient): Promise<SavedLeadTextTemplate[]> {
+  const { data, error } = await supabase.from(LEAD_TEXT_TEMPLATES_TABLE).select('*').order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []) as SavedLeadTextTemplate[]
+}
+
+export async function getLeadTextTemplate(supabase: SupabaseClient, id: string): Promise<SavedLeadTextTemplate | null> {
+  const { data, error } = await supabase.from(LEAD_TEXT_TEMPLATES_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return (data as SavedLeadTextTemplate | null) ?? null
+}
+
+/** Creates a template, or replaces the one with the same name (its version changes with its content). */
+export async function saveLeadTextTemplate(
+  supabase: SupabaseClient,
+  name: string,
+  template: LeadTextTemplate
+): Promise<SavedLeadTextTemplate> {
+  const { data, error } = await supabase
+    .from(LEAD_TEXT_TEMPLATES_TABLE)
+    .upsert(
+      { name, template, version: getLeadTextTemplateVersion(template), updated_at: new Date().toISOString() },
+      { onConflict: 'name' }
+    )
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as SavedLeadTextTemplate
+}
+
+export async function deleteLeadTextTemplate(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from(LEAD_TEXT_TEMPLATES_TABLE).delete().eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Template for a request: the saved template `templateId`, or the default one when no id is given.
+ * Throws with a user-facing message when the template does not exist.
+ */
+export async function resolveLeadTextTemplate(
+  templateId: unknown,
+  getClient: () => SupabaseClient
+): Promise<ResolvedLeadTextTemplate> {
+  if (typeof templateId !== 'string' || !templateId || templateId === DEFAULT_LEAD_TEXT_TEMPLATE_VERSION) {
+    return DEFAULT_RESOLVED_TEMPLATE
+  }
+  const saved = await getLeadTextTemplate(getClient(), templateId)
+  const template = saved ? sanitizeLeadTextTemplate(saved.template) : null
+  if (!saved || !template) throw new Error(`Lead text template ${templateId} not found.`)
+  // Recompute instead of trusting the stored version, so the tag always matches the rendered text.
+  return { id: saved.id, name: saved.name, template, version: getLeadTextTemplateVersion(template) }
+}
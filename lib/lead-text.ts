@@ -0,0 +1,128 @@
+import { LEAD_FIELDS, getColumnLeadField, getLeadField, getLeadName, type LeadField } from '@/lib/lead-schema'
+
+/**
+ * Lead text templates: which lead fields go into the embedded text, in which order, with which
+ * labels, and whether other columns are appended. Stored as named templates (see
+ * lib/lead-text-templates.ts); embeddings are tagged with the template version, so changing a
+ * template never mixes texts rendered differently.
+ * Kept free of server dependencies so the upload preview can show the exact text that will be embedded.
+ */
+export interface LeadTextTemplate {
+  /** Fields to render, in order, as "<label>: <value>". */
+  fields: { field: LeadField; label: string; /** Repeat the part to weight it (1–3, default 1). */ weight?: number }[]
+  /** Append columns that are not lead fields as "<column>: <value>". */
+  includeExtra: boolean
+  /** Extra columns never appended (case-insensitive). */
+  excludeColumns?: string[]
+  /** Skip extra values that look like URLs or ids (uuids, long digit strings). */
+  skipNoisyExtras?: boolean
+  /** Text before the fields. */
+  prefix?: string
+}
+
+/** The layout leadToText has always produced: role and company first for better matching. */
+export const DEFAULT_LEAD_TEXT_TEMPLATE: LeadTextTemplate = {
+  fields: [
+    { field: 'title', label: 'Role' },
+    { field: 'company', label: 'Company' },
+    { field: 'industry', label: 'Industry' },
+    { field: 'employee_range', label: 'Company size' },
+    { field: 'full_name', label: 'Name' },
+    { field: 'domain', label: 'Domain' },
+    { field: 'seniority', label: 'Seniority' },
+    { field: 'department', label: 'Department' },
+    { field: 'location', label: 'Location' },
+  ],
+  includeExtra: true,
+  excludeColumns: ['rank'],
+  prefix: 'Lead.',
+}
+
+/** Version of DEFAULT_LEAD_TEXT_TEMPLATE; also assumed for embeddings stored before templates existed. */
+export const DEFAULT_LEAD_TEXT_TEMPLATE_VERSION = 'default'
+
+const MAX_FIELD_WEIGHT = 3
+const NOISY_VALUE_RE = /^(https?:\/\/|www\.)|^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$|^\d{6,}$/i
+
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** Content hash of a template ("tpl-1a2b3c4d"); the same layout always gets the same version. */
+export function getLeadTextTemplateVersion(template: LeadTextTemplate): string {
+  if (template === DEFAULT_LEAD_TEXT_TEMPLATE) return DEFAULT_LEAD_TEXT_TEMPLATE_VERSION
+  const canonical = JSON.stringify({
+    fields: template.fields.map((f) => [f.field, f.label, f.weight ?? 1]),
+    includeExtra: template.includeExtra,
+    excludeColumns: (template.excludeColumns ?? []).map((c) => c.toLowerCase()).sort(),
+    skipNoisyExtras: !!template.skipNoisyExtras,
+    prefix: template.prefix ?? '',
+  })
+  return `tpl-${fnv1a(canonical).toString(16).padStart(8, '0')}`
+}
+
+/** Validates a template received from a client or the database; null if it is not usable. */
+export function sanitizeLeadTextTemplate(value: unknown): LeadTextTemplate | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  if (!Array.isArray(raw.fields)) return null
+  const fields: LeadTextTemplate['fields'] = []
+  for (const f of raw.fields as unknown[]) {
+    if (!f || typeof f !== 'object') continue
+    const { field, label, weight } = f as Record<string, unknown>
+    if (typeof field !== 'string' || !(field in LEAD_FIELDS)) continue
+    const w = typeof weight === 'number' ? Math.min(MAX_FIELD_WEIGHT, Math.max(1, Math.round(weight))) : undefined
+    fields.push({
+      field: field as LeadField,
+      label: typeof label === 'string' && label.trim() ? label.trim() : LEAD_FIELDS[field as LeadField].label,
+      ...(w && w > 1 ? { weight: w } : {}),
+    })
+  }
+  const includeExtra = raw.includeExtra !== false
+  if (fields.length === 0 && !includeExtra) return null
+  return {
+    fields,
+    includeExtra,
+    excludeColumns: Array.isArray(raw.excludeColumns)
+      ? (raw.excludeColumns as unknown[]).filter((c): c is string => typeof c === 'string' && !!c.trim())
+      : [],
+    skipNoisyExtras: raw.skipNoisyExtras === true,
+    prefix: typeof raw.prefix === 'string' ? raw.prefix : '',
+  }
+}
+
+/** Renders a lead with a template. */
+export function renderLeadText(lead: Record<string, string>, template: LeadTextTemplate): string {
+  const parts: string[] = []
+  for (const { field, label, weight } of template.fields) {
+    const value = field === 'full_name' ? getLeadName(lead) : getLeadField(lead, field)
+    if (!value) continue
+    for (let i = 0; i < Math.min(MAX_FIELD_WEIGHT, Math.max(1, weight ?? 1)); i++) parts.push(`${label}: ${value}`)
+  }
+
+  if (template.includeExtra) {
+    // Known lead fields (incl. email/LinkedIn, which are noise) are never appended verbatim.
+    const excluded = new Set((template.excludeColumns ?? []).map((c) => c.toLowerCase()))
+    Object.entries(lead).forEach(([key, value]) => {
+      if (!value || !value.trim() || excluded.has(key.toLowerCase()) || getColumnLeadField(key)) return
+      if (template.skipNoisyExtras && NOISY_VALUE_RE.test(value.trim())) return
+      parts.push(`${key}: ${value}`)
+    })
+  }
+
+  const prefix = template.prefix ?? ''
+  if (!parts.length) return prefix
+  return prefix ? `${prefix} ${parts.join('. ')}` : parts.join('. ')
+}
+
+/**
+ * Converts a lead into structured text for embeddings (DEFAULT_LEAD_TEXT_TEMPLATE unless a template is given).
+ */
+export function leadToText(lead: Record<string, string>, template: LeadTextTemplate = DEFAULT_LEAD_TEXT_TEMPLATE): string {
+  return renderLeadText(lead, template)
+}
@@ -0,0 +1,101 @@
+import { getGemini } from '@/lib/embedding-providers'
+
+/**
+ * Chat LLMs used for text generation (prompt optimization, lead explanations). Separate from the
+ * embedding providers (lib/embedding-providers.ts): the provider is picked from the API keys set,
+ * in order Gemini, Groq, Anthropic.
+ */
+export type LlmProvider = 'gemini' | 'groq' | 'anthropic'
+
+export const LLM_PROVIDERS: LlmProvider[] = ['gemini', 'groq', 'anthropic']
+
+/** Shown when no LLM key is set. */
+export const LLM_KEYS_HINT =
+  'GEMINI_API_KEY (aistudio.google.com/apikey), GROQ_API_KEY (console.groq.com, free tier), or ANTHROPIC_API_KEY'
+
+const API_KEY_ENV: Record<LlmProvider, string> = {
+  gemini: 'GEMINI_API_KEY',
+  groq: 'GROQ_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+}
+
+export interface LlmRequest {
+  system: string
+  user: string
+  temperature: number
+  maxTokens: number
+}
+
+/** First provider with an API key, or null when none is configured. */
+export function getConfiguredLlmProvider(): LlmProvider | null {
+  return LLM_PROVIDERS.find((provider) => !!process.env[API_KEY_ENV[provider]]?.trim()) ?? null
+}
+
+async function generateGemini({ system, user, temperature, maxTokens }: LlmRequest): Promise<string> {
+  const response = await getGemini().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: user,
+    config: {
+      systemInstruction: system,
+      temperature,
+      maxOutputTokens: maxTokens,
+    },
+  })
+  return response.text?.trim() ?? ''
+}
+
+async function generateGroq({ system, user, temperature, maxTokens }: LlmRequest): Promise<string> {
+  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.GROQ_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: 'llama-3.3-70b-versatile',
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      temperature,
+      max_tokens: maxTokens,
+    }),
+  })
+  if (!res.ok) {
+    const err = await res.text()
+    throw new Error(`Groq API ${res.status}: ${err}`)
+  }
+  const data = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> }
+  return data.choices?.[0]?.message?.content?.trim() ?? ''
+}
+
+async function generateAnthropic({ system, user, temperature, maxTokens }: LlmRequest): Promise<string> {
+  const res = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': process.env.ANTHROPIC_API_KEY!,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: maxTokens,
+      system,
+      messages: [{ role: 'user', content: user }],
+      temperature,
+    }),
+  })
+  if (!res.ok) {
+    const err = await res.text()
+    throw new Error(`Anthropic API ${res.status}: ${err}`)
+  }
+  const data = (await res.json()) as { content?: Array<{ type: string; text?: string }> }
+  return data.content?.[0]?.text?.trim() ?? ''
+}
+
+/** Single-turn completion (system + user message); returns the trimmed response text. */
+export async function generateLlmText(provider: LlmProvider, request: LlmRequest): Promise<string> {
+  if (provider === 'groq') return generateGroq(request)
+  if (provider === 'anthropic') return generateAnthropic(request)
+  return generateGemini(request)
+}
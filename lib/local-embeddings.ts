@@ -0,0 +1,96 @@
+/**
+ * In-process embeddings (AI_PROVIDER=local). No network, no API key: deterministic hashed
+ * bag-of-n-grams (word unigrams, word bigrams, character trigrams) projected into a fixed-size
+ * vector with signed feature hashing and L2-normalized, so cosine similarity works as with
+ * the remote providers. Quality is below a sentence-transformer, but good enough for
+ * title/company matching, offline runs and CI.
+ */
+
+const DEFAULT_LOCAL_EMBED_DIM = 512
+
+export const LOCAL_EMBED_DIM = Math.max(
+  64,
+  parseInt(String(process.env.LOCAL_EMBED_DIM ?? ''), 10) || DEFAULT_LOCAL_EMBED_DIM
+)
+
+export const LOCAL_EMBED_MODEL = 'local-hashed-ngrams-v1'
+
+const WORD_WEIGHT = 1
+const BIGRAM_WEIGHT = 0.5
+const CHAR_NGRAM_WEIGHT = 0.25
+const CHAR_NGRAM_SIZE = 3
+
+/** Labels added by leadToText / parseProfileForEmbedding and filler words; they appear in every text. */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'to', 'we', 'who', 'with', 'lead', 'role', 'company', 'industry', 'size', 'name',
+  'domain', 'target', 'profile', 'profiles', 'avoid', 'prefer',
+])
+
+/** 32-bit FNV-1a hash. */
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** Lowercase, strip accents and punctuation, drop stopwords. */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9+#&]+/)
+    .filter((t) => t.length > 0 && !STOPWORDS.has(t))
+}
+
+function addFeature(vec: Float64Array, feature: string, weight: number): void {
+  const h = fnv1a(feature)
+  const index = h % vec.length
+  // Use the top bit as sign so collisions cancel out on average instead of accumulating.
+  const sign = h & 0x80000000 ? -1 : 1
+  vec[index] += sign * weight
+}
+
+/**
+ * Embeds a single text. Same input always yields the same vector.
+ */
+export function embedLocal(text: string): number[] {
+  const vec = new Float64Array(LOCAL_EMBED_DIM)
+  const tokens = tokenize(text)
+  const counts = new Map<string, { tf: number; weight: number }>()
+  const bump = (key: string, weight: number) => {
+    const entry = counts.get(key)
+    if (entry) entry.tf++
+    else counts.set(key, { tf: 1, weight })
+  }
+
+  tokens.forEach((tok, i) => {
+    bump(`w:${tok}`, WORD_WEIGHT)
+    if (i > 0) bump(`b:${tokens[i - 1]} ${tok}`, BIGRAM_WEIGHT)
+    const padded = `<${tok}>`
+    for (let j = 0; j + CHAR_NGRAM_SIZE <= padded.length; j++) {
+      bump(`c:${padded.slice(j, j + CHAR_NGRAM_SIZE)}`, CHAR_NGRAM_WEIGHT)
+    }
+  })
+
+  // Sublinear term frequency so repeated words do not dominate.
+  counts.forEach(({ tf, weight }, feature) => addFeature(vec, feature, weight * (1 + Math.log(tf))))
+
+  let norm = 0
+  for (let i = 0; i < vec.length; i++) norm += vec[i] * vec[i]
+  norm = Math.sqrt(norm)
+  const out = new Array<number>(vec.length)
+  for (let i = 0; i < vec.length; i++) out[i] = norm > 0 ? vec[i] / norm : 0
+  return out
+}
+
+/**
+ * Embeds multiple texts (no batching limits; everything runs in-process).
+ */
+export function embedLocalBatch(texts: string[]): number[][] {
+  return texts.map((t) => embedLocal(t))
+}
@@ -0,0 +1,229 @@
+import type { getSupabase } from '@/lib/supabase'
+import { PERSONAS_TABLE, PERSONA_VERSIONS_TABLE } from '@/lib/supabase'
+import type { EvalMetrics } from '@/lib/eval-metrics'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+/** Where a persona version came from: saved from the editor, or the best prompt of an optimizer run. */
+export type PersonaVersionSource = 'manual' | 'optimizer'
+
+export const PERSONA_VERSION_SOURCES: PersonaVersionSource[] = ['manual', 'optimizer']
+
+export interface SavedPersona {
+  id: string
+  name: string
+  /** Text of the latest version. */
+  characteristics: string
+  current_version: number
+  created_at: string
+  updated_at: string
+}
+
+/** Eval set metrics of a version besides eval_score (see lib/eval-metrics.ts). */
+export type PersonaEvalMetrics = Partial<Omit<EvalMetrics, 'score'>>
+
+export interface PersonaVersion {
+  id: string
+  persona_id: string
+  version: number
+  characteristics: string
+  source: PersonaVersionSource
+  /** Spearman correlation with the eval set gold ranking; null when not evaluated. */
+  eval_score: number | null
+  eval_metrics: PersonaEvalMetrics | null
+  note: string | null
+  created_at: string
+}
+
+/** Persona chosen for a ranking request. */
+export interface ResolvedPersona {
+  id: string
+  name: string
+  version: number
+  characteristics: string
+  /** True when the request's characteristics differ from the saved version (unsaved edits). */
+  modified: boolean
+}
+
+export interface SavePersonaVersionOptions {
+  source?: PersonaVersionSource
+  evalScore?: number | null
+  evalMetrics?: PersonaEvalMetrics | null
+  note?: string | null
+}
+
+/** Whitespace-insensitive comparison, so re-saving the same text does not add a version. */
+export function samePersonaText(a: string, b: string): boolean {
+  return a.trim().replace(/\s+/g, ' ') === b.trim().replace(/\s+/g, ' ')
+}
+
+export async function listPersonas(supabase: SupabaseClient): Promise<SavedPersona[]> {
+  const { data, error } = await supabase.from(PERSONAS_TABLE).select('*').order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []) as SavedPersona[]
+}
+
+export async function getPersona(supabase: SupabaseClient, id: string): Promise<SavedPersona | null> {
+  const { data, error } = await supabase.from(PERSONAS_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return (data as SavedPersona | null) ?? null
+}
+
+/** Versions of a persona, newest first. */
+export async function listPersonaVersions(supabase: SupabaseClient, personaId: string): Promise<PersonaVersion[]> {
+  const { data, error } = await supabase
+    .from(PERSONA_VERSIONS_TABLE)
+    .select('*')
+    .eq('persona_id', personaId)
+    .order('version', { ascending: false })
+  if (error) throw error
+  return (data ?? []) as PersonaVersion[]
+}
+
+export async function getPersonaVersion(
+  supabase: SupabaseClient,
+  personaId: string,
+  version: number
+): Promise<PersonaVersion | null> {
+  const { data, error } = await supabase
+    .from(PERSONA_VERSIONS_TABLE)
+    .select('*')
+    .eq('persona_id', personaId)
+    .eq('version', version)
+    .maybeSingle()
+  if (error) throw error
+  return (data as PersonaVersion | null) ?? null
+}
+
+/** Attempts at inserting the next version number when concurrent saves take it first. */
+const SAVE_VERSION_ATTEMPTS = 5
+
+/** Postgres unique_violation: another save inserted the same (persona_id, version). */
+function isUniqueViolation(error: { code?: string }): boolean {
+  return error.code === '23505'
+}
+
+async function getLatestVersionNumber(supabase: SupabaseClient, personaId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(PERSONA_VERSIONS_TABLE)
+    .select('version')
+    .eq('persona_id', personaId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return (data as { version: number } | null)?.version ?? 0
+}
+
+/**
+ * Saves a profile text as the next version of the persona `name` (created when it does not exist).
+ * When the text equals the latest version and no eval score is given, nothing is written and the
+ * latest version is returned with created: false.
+ * The version row is inserted first (retrying with the next number when a concurrent save took it),
+ * then the persona is moved to it unless a newer version is already current, so current_version
+ * always points at an existing version.
+ */
+export async function savePersonaVersion(
+  supabase: SupabaseClient,
+  name: string,
+  characteristics: string,
+  options: SavePersonaVersionOptions = {}
+): Promise<{ persona: SavedPersona; version: PersonaVersion; created: boolean }> {
+  const { data: existing, error: findError } = await supabase.from(PERSONAS_TABLE).select('*').eq('name', name).maybeSingle()
+  if (findError) throw findError
+  let current = existing as SavedPersona | null
+  if (current && samePersonaText(current.characteristics, characteristics) && options.evalScore == null) {
+    const latest = await getPersonaVersion(supabase, current.id, current.current_version)
+    if (latest) return { persona: current, version: latest, created: false }
+  }
+
+  // A new persona starts at version 0 (no versions yet) and only moves once its first version exists.
+  let createdPersona = false
+  if (!current) {
+    const { data: inserted, error } = await supabase
+      .from(PERSONAS_TABLE)
+      .upsert({ name, characteristics, current_version: 0 }, { onConflict: 'name', ignoreDuplicates: true })
+      .select('*')
+      .maybeSingle()
+    if (error) throw error
+    createdPersona = !!inserted
+    const { data: row, error: reloadError } = await supabase.from(PERSONAS_TABLE).select('*').eq('name', name).single()
+    if (reloadError) throw reloadError
+    current = row as SavedPersona
+  }
+  const personaId = current.id
+
+  let version: PersonaVersion | null = null
+  for (let attempt = 0; !version; attempt++) {
+    const nextVersion = (await getLatestVersionNumber(supabase, personaId)) + 1
+    const { data, error } = await supabase
+      .from(PERSONA_VERSIONS_TABLE)
+      .insert({
+        persona_id: personaId,
+        version: nextVersion,
+        characteristics,
+        source: options.source ?? 'manual',
+        eval_score: options.evalScore ?? null,
+        eval_metrics: options.evalMetrics ?? null,
+        note: options.note ?? null,
+      })
+      .select('*')
+      .single()
+    if (error) {
+      if (isUniqueViolation(error) && attempt + 1 < SAVE_VERSION_ATTEMPTS) continue
+      // Best effort: do not leave a persona without versions behind.
+      if (createdPersona) await supabase.from(PERSONAS_TABLE).delete().eq('id', personaId)
+      throw error
+    }
+    version = data as PersonaVersion
+  }
+
+  const { error: updateError } = await supabase
+    .from(PERSONAS_TABLE)
+    .update({ characteristics, current_version: version.version, updated_at: new Date().toISOString() })
+    .eq('id', personaId)
+    .lt('current_version', version.version)
+  if (updateError) throw updateError
+  const persona = await getPersona(supabase, personaId)
+  if (!persona) throw new Error(`Persona ${personaId} not found.`)
+  return { persona, version, created: true }
+}
+
+/** Deletes a persona and its versions. */
+export async function deletePersona(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from(PERSONAS_TABLE).delete().eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Persona for a ranking request: version `version` of the saved persona `personaId` (default: the
+ * latest), or null when no id is given. `characteristics` (the request's profile text, e.g. edited
+ * in the UI) replaces the saved text when non-empty and marks the persona as modified.
+ * Throws with a user-facing message when the persona or version does not exist.
+ */
+export async function resolvePersona(
+  personaId: unknown,
+  version: unknown,
+  characteristics: string,
+  getClient: () => SupabaseClient
+): Promise<ResolvedPersona | null> {
+  if (typeof personaId !== 'string' || !personaId) return null
+  const supabase = getClient()
+  const persona = await getPersona(supabase, personaId)
+  if (!persona) throw new Error(`Persona ${personaId} not found.`)
+  let saved = { version: persona.current_version, characteristics: persona.characteristics }
+  if (version !== undefined && version !== null && version !== '') {
+    const n = Number(version)
+    const row = Number.isInteger(n) ? await getPersonaVersion(supabase, persona.id, n) : null
+    if (!row) throw new Error(`Version ${String(version)} of persona "${persona.name}" not found.`)
+    saved = { version: row.version, characteristics: row.characteristics }
+  }
+  const text = characteristics.trim() ? characteristics : saved.characteristics
+  return {
+    id: persona.id,
+    name: persona.name,
+    version: saved.version,
+    characteristics: text,
+    modified: !samePersonaText(text, saved.characteristics),
+  }
+}
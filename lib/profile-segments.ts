@@ -0,0 +1,92 @@
+import { getLeadField } from '@/lib/lead-schema'
+
+/**
+ * Company-size segments in the profile format. A profile can contain blocks such as
+ *
+ *   Segment Startups (1-50):
+ *   Target: Founder, CEO, Head of Sales
+ *   Segment 51-200:
+ *   Target: VP of Sales, Sales Director
+ *   Avoid: CEO
+ *
+ * Each block has its own Target / Avoid / Prefer; leads are routed to the block matching their
+ * company's employee range. Text before the first block is the global profile (used for leads of
+ * unknown or unmatched size, and inherited by blocks without their own Avoid / Prefer). A "Segment …:"
+ * line without an employee range ("Segment focus: mid-market") is ordinary text, not a block.
+ * Safe to import from client components (no server-only dependencies).
+ */
+export interface EmployeeSegment {
+  /** Header text, e.g. "Startups (1-50)". */
+  name: string
+  minEmployees: number
+  /** Null for open-ended ranges ("1001+"). */
+  maxEmployees: number | null
+}
+
+export interface ProfileSegmentText extends EmployeeSegment {
+  /** Block text after the header (Target / Avoid / Prefer sections or free text). */
+  text: string
+}
+
+const SEGMENT_HEADER_RE = /(^|\n)[ \t]*Segment\b([^:\n]*):/gi
+const RANGE_RE = /(\d[\d,.]*\s*[kK]?)\s*(?:-|–|—|to)\s*(\d[\d,.]*\s*[kK]?)|(\d[\d,.]*\s*[kK]?)\s*\+/g
+
+/** "1,001" → 1001, "10k" → 10000. */
+function parseCount(raw: string): number {
+  const s = raw.trim().toLowerCase()
+  const thousands = s.endsWith('k')
+  const n = parseFloat(s.replace(/k$/, '').replace(/,(?=\d{3}\b)/g, '').trim())
+  return thousands ? Math.round(n * 1000) : n
+}
+
+/** Employee range covered by a segment header ("Startups (1-50)", "201+", "51-200, 201-500"). */
+export function parseEmployeeRange(header: string): { minEmployees: number; maxEmployees: number | null } | null {
+  let min = Infinity
+  let max: number | null = -Infinity
+  for (const m of Array.from(header.matchAll(RANGE_RE))) {
+    if (m[3] !== undefined) {
+      min = Math.min(min, parseCount(m[3]))
+      max = null
+    } else {
+      min = Math.min(min, parseCount(m[1]))
+      if (max !== null) max = Math.max(max, parseCount(m[2]))
+    }
+  }
+  if (!Number.isFinite(min)) return null
+  return { minEmployees: min, maxEmployees: max }
+}
+
+/**
+ * Splits a profile into the global text and its "Segment <range>:" blocks. Headers without an
+ * employee range stay in the text around them.
+ */
+export function splitProfileSegments(characteristics: string): { globalText: string; segments: ProfileSegmentText[] } {
+  const headers = Array.from(characteristics.matchAll(SEGMENT_HEADER_RE)).flatMap((h) => {
+    const range = parseEmployeeRange(h[2])
+    return range ? [{ match: h, name: h[2].trim(), range }] : []
+  })
+  if (headers.length === 0) return { globalText: characteristics, segments: [] }
+  const segments = headers.map(({ match, name, range }, i) => {
+    const start = (match.index ?? 0) + match[0].length
+    const end = i + 1 < headers.length ? headers[i + 1].match.index ?? characteristics.length : characteristics.length
+    return { name, ...range, text: characteristics.slice(start, end).trim() }
+  })
+  return { globalText: characteristics.slice(0, headers[0].match.index ?? 0).trim(), segments }
+}
+
+/** Lower bound of the lead's employee range ("51-200" → 51, "10,001+" → 10001); null when unknown. */
+export function getLeadEmployeeCount(lead: Record<string, string>): number | null {
+  const range = getLeadField(lead, 'employee_range')
+  const m = range.match(/\d[\d,.]*\s*[kK]?/)
+  if (!m) return null
+  const n = parseCount(m[0])
+  return Number.isFinite(n) ? n : null
+}
+
+/** First segment whose range contains the lead's company size; -1 for unknown or unmatched sizes. */
+export function findLeadSegment(segments: EmployeeSegment[], lead: Record<string, string>): number {
+  if (segments.length === 0) return -1
+  const count = getLeadEmployeeCount(lead)
+  if (count === null) return -1
+  return segments.findIndex((s) => count >= s.minEmployees && (s.maxEmployees === null || count <= s.maxEmployees))
+}
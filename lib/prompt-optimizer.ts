@@ -1,73 +1,23 @@
-import {
-  generateEmbedding,
-  cosineSimilarity,
-  parseProfileForEmbedding,
-  computeLeadScore,
-} from '@/lib/embeddings'
+import { computeLeadScore } from '@/lib/embeddings'
+import { embedProfile, getLeadSimilarities, type LeadSimilarities } from '@/lib/ranking'
 import type { EvalLead } from '@/lib/eval-set'
-import { GoogleGenAI } from '@google/genai'
-
-export type OptimizerProvider = 'gemini' | 'groq' | 'anthropic'
-
-function getGemini(): GoogleGenAI {
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) throw new Error('GEMINI_API_KEY is required.')
-  return new GoogleGenAI({ apiKey })
-}
-
-/**
- * Spearman rank correlation between two rank arrays (1..N). Higher = better agreement.
- * Returns value in [-1, 1]. 1 = perfect agreement.
- */
-export function spearmanCorrelation(ourRanks: number[], goldRanks: number[]): number {
-  const n = ourRanks.length
-  if (n !== goldRanks.length || n < 2) return 0
-  const d = ourRanks.map((our, i) => our - goldRanks[i])
-  const dSq = d.map((x) => x * x)
-  const sumDSq = dSq.reduce((a, b) => a + b, 0)
-  return 1 - (6 * sumDSq) / (n * (n * n - 1))
-}
+import { getLeadField, getLeadName } from '@/lib/lead-schema'
+import { DEFAULT_SCORING_PROFILE, type ScoringWeights } from '@/lib/scoring'
+import { extractProfileFilters } from '@/lib/lead-filters'
+import { splitProfileSegments } from '@/lib/profile-segments'
+import { getCommitteeSections, stripCommitteeSections } from '@/lib/buying-committee'
+import { generateLlmText, type LlmProvider } from '@/lib/llm'
+import {
+  averageRanks,
+  computeEvalMetrics,
+  EVAL_OBJECTIVES,
+  goldOrderValue,
+  type EvalMetrics,
+  type EvalObjective,
+} from '@/lib/eval-metrics'
 
-/**
- * Recall@k: fraction of gold top-k that appear in our top-k. 1 = all gold top-k are in our top-k.
- */
-export function recallAtK(ourRanks: number[], goldRanks: number[], k: number): number {
-  const n = ourRanks.length
-  if (n < k || k < 1) return 0
-  const goldTopK = new Set(
-    goldRanks
-      .map((r, i) => ({ r, i }))
-      .sort((a, b) => a.r - b.r)
-      .slice(0, k)
-      .map((x) => x.i)
-  )
-  const ourTopK = new Set(
-    ourRanks
-      .map((r, i) => ({ r, i }))
-      .sort((a, b) => a.r - b.r)
-      .slice(0, k)
-      .map((x) => x.i)
-  )
-  let hit = 0
-  Array.from(goldTopK).forEach((i) => { if (ourTopK.has(i)) hit++ })
-  return hit / k
-}
-
-/**
- * Mean reciprocal rank of gold top-3: average of 1/ourRank for each gold top-3 lead. Higher is better.
- */
-export function mrrGoldTopK(ourRanks: number[], goldRanks: number[], k: number): number {
-  const n = ourRanks.length
-  if (n < k || k < 1) return 0
-  const goldTopKIndices = goldRanks
-    .map((r, i) => ({ r, i }))
-    .sort((a, b) => a.r - b.r)
-    .slice(0, k)
-    .map((x) => x.i)
-  let sum = 0
-  for (const i of goldTopKIndices) sum += 1 / ourRanks[i]
-  return sum / k
-}
+/** LLM that proposes prompt changes (see lib/llm.ts). */
+export type OptimizerProvider = LlmProvider
 
 const FEEDBACK_TOP_K = 5
 
@@ -97,7 +47,7 @@ export function buildRankingFeedback(
 
   const label = (i: number) => {
     const lead = evalLeads[i].lead
-    return `${lead['Full Name'] || 'Unknown'} (${lead['Company'] || 'Unknown'})`
+    return `${getLeadName(lead) || 'Unknown'} (${getLeadField(lead, 'company') || 'Unknown'})`
   }
 
   const rankedTooLow: string[] = []
@@ -116,73 +66,93 @@ export function buildRankingFeedback(
   return parts.join(' ')
 }
 
-export interface EvalResult {
-  /** Spearman correlation with gold ranking (main metric, -1 to 1). */
-  score: number
-  /** Fraction of gold top-5 that appear in our top-5. */
-  recallAt5: number
-  /** Mean reciprocal rank for gold top-3 (higher = better). */
-  mrrTop3: number
+/** Identifies an eval lead across re-orderings (name + company). */
+function evalLeadKey(lead: Record<string, string>): string {
+  return `${getLeadName(lead)}|${getLeadField(lead, 'company')}`
+}
+
+export interface EvalResult extends EvalMetrics {
   ourRanks: number[]
+  /** Gold order by company rank (ties share their average rank; see lib/eval-metrics.ts). */
   goldRanks: number[]
 }
 
 /**
- * Evaluate a persona prompt on the evaluation set. Uses precomputed lead embeddings;
- * only embeds the persona (target/avoid/prefer). Returns Spearman, recall@5, MRR, and ranks.
+ * Similarities of each eval lead to the Target / Avoid / Prefer sections of a persona (same order
+ * as the eval leads; null for leads without an embedding). Scoring them is cheap, so weights can be
+ * tried many times without re-embedding (see lib/scoring-calibration.ts).
  */
-export async function evaluatePromptOnEvalSet(
+export interface EvalSimilarities {
+  /** True when any lead is scored with an Avoid / Prefer section. */
+  hasAvoid: boolean
+  hasPrefer: boolean
+  sims: (LeadSimilarities | null)[]
+}
+
+/**
+ * Embeds the persona (target/avoid/prefer, per company-size segment if any) and computes its
+ * similarity to each eval lead.
+ */
+export async function computeEvalSimilarities(
   characteristics: string,
   evalLeads: EvalLead[],
   leadEmbeddings: number[][]
-): Promise<EvalResult> {
-  const { targetText, avoidText, preferText } = parseProfileForEmbedding(characteristics)
-  if (!targetText || !targetText.trim()) {
-    throw new Error('Profile cannot be empty.')
+): Promise<EvalSimilarities> {
+  const profile = await embedProfile(characteristics)
+  const sims = evalLeads.map(({ lead }, i) => {
+    const emb = leadEmbeddings[i]
+    return emb?.length ? getLeadSimilarities(profile, lead, emb) : null
+  })
+  return {
+    hasAvoid: sims.some((s) => s?.hasAvoid),
+    hasPrefer: sims.some((s) => s?.hasPrefer),
+    sims,
   }
+}
 
-  const targetEmbedding = await generateEmbedding(targetText)
-  let avoidEmbedding: number[] | null = null
-  let preferEmbedding: number[] | null = null
-  if (avoidText) avoidEmbedding = await generateEmbedding(avoidText)
-  if (preferText) preferEmbedding = await generateEmbedding(preferText)
-
-  const hasAvoid = !!avoidEmbedding
-  const hasPrefer = !!preferEmbedding
-
-  const scored = evalLeads.map(({ lead }, i) => {
-    const emb = leadEmbeddings[i]
-    if (!emb?.length) return { lead, goldRank: evalLeads[i].goldRank, score: 0 }
-    const simTarget = cosineSimilarity(targetEmbedding, emb)
-    const simAvoid = avoidEmbedding ? cosineSimilarity(avoidEmbedding, emb) : 0
-    const simPrefer = preferEmbedding ? cosineSimilarity(preferEmbedding, emb) : 0
-    const score = computeLeadScore(simTarget, simAvoid, simPrefer, hasAvoid, hasPrefer)
-    return { lead, goldRank: evalLeads[i].goldRank, score }
+/**
+ * Scores eval leads from precomputed similarities with `weights` and compares the order with the
+ * gold ranking. Every eval lead is ranked, so minScore does not apply.
+ */
+export function scoreEvalSimilarities(
+  evalLeads: EvalLead[],
+  similarities: EvalSimilarities,
+  weights: ScoringWeights = DEFAULT_SCORING_PROFILE
+): EvalResult {
+  const scored = evalLeads.map(({ lead, goldRank }, i) => {
+    const s = similarities.sims[i]
+    if (!s) return { lead, goldRank, score: 0 }
+    return { lead, goldRank, score: computeLeadScore(s.target, s.avoid, s.prefer, s.hasAvoid, s.hasPrefer, weights) }
   })
 
   scored.sort((a, b) => b.score - a.score)
   const leadToOurRank = new Map<string, number>()
   scored.forEach((item, idx) => {
-    const key = (item.lead['Full Name'] || '') + '|' + (item.lead['Company'] || '')
-    leadToOurRank.set(key, idx + 1)
+    leadToOurRank.set(evalLeadKey(item.lead), idx + 1)
   })
-  const ourRanks = evalLeads.map(({ lead }) => leadToOurRank.get((lead['Full Name'] || '') + '|' + (lead['Company'] || '')) ?? evalLeads.length + 1)
-  const goldRanks = evalLeads.map((e) => e.goldRank)
-  const score = spearmanCorrelation(ourRanks, goldRanks)
-  const k5 = Math.min(5, evalLeads.length)
-  const k3 = Math.min(3, evalLeads.length)
-  return {
-    score,
-    recallAt5: k5 > 0 ? recallAtK(ourRanks, goldRanks, k5) : 0,
-    mrrTop3: k3 > 0 ? mrrGoldTopK(ourRanks, goldRanks, k3) : 0,
-    ourRanks,
-    goldRanks,
-  }
+  const ourRanks = evalLeads.map(({ lead }) => leadToOurRank.get(evalLeadKey(lead)) ?? evalLeads.length + 1)
+  const goldRanks = averageRanks(evalLeads.map(goldOrderValue))
+  return { ...computeEvalMetrics(ourRanks, evalLeads), ourRanks, goldRanks }
+}
+
+/**
+ * Evaluate a persona prompt on the evaluation set. Uses precomputed lead embeddings;
+ * only embeds the persona (target/avoid/prefer). Returns every eval metric (lib/eval-metrics.ts) and ranks.
+ * Leads are scored with `weights` (a scoring profile).
+ */
+export async function evaluatePromptOnEvalSet(
+  characteristics: string,
+  evalLeads: EvalLead[],
+  leadEmbeddings: number[][],
+  weights: ScoringWeights = DEFAULT_SCORING_PROFILE
+): Promise<EvalResult> {
+  const similarities = await computeEvalSimilarities(characteristics, evalLeads, leadEmbeddings)
+  return scoreEvalSimilarities(evalLeads, similarities, weights)
 }
 
 const OPTIMIZER_SYSTEM = `You are an expert at refining lead-profile prompts for a semantic ranking system. The system ranks leads by embedding similarity: it embeds Target (who we want), Avoid (who we exclude), and Prefer (what we prioritize), then scores each lead. Your goal is to refine the profile so that the resulting ranking order matches a gold standard as closely as possible.
 
-How to improve the score (Spearman correlation with gold ranking, range -1 to 1; higher is better):
+How to improve the score (a ranking metric against the gold ranking, such as Spearman correlation; higher is better):
 1. Target must describe the exact roles, company types, and criteria that characterize the gold top leads. Be specific: job titles, company size ranges, industry. The embedding model matches on meaning, so use the same vocabulary as the lead data (e.g. "VP Sales", "Head of SDR", "51-200 employees").
 2. Avoid must explicitly list the types that appear in the gold bottom ranks or that we want to exclude. Strong Avoid criteria push bad matches down; vague Avoid does not help.
 3. Prefer should capture distinguishing traits of the gold top (e.g. company size, industry focus) so that ties are broken in the right direction.
@@ -193,113 +163,6 @@ Rules:
 - Always output exactly three sections: Target:, Avoid:, Prefer:. Use plain prose after each label; no markdown (no **, no -, no #).
 - Output ONLY the refined profile. No preamble, no explanation.`
 
-async function proposeImprovedPromptGemini(
-  currentPrompt: string,
-  currentScore: number,
-  history: Array<{ prompt: string; score: number }>,
-  requireDifferent?: boolean,
-  feedback?: string
-): Promise<string> {
-  const historyText =
-    history.length > 0
-      ? '\nPrevious attempts (prompt -> score):\n' +
-        history.map((h) => `Score ${h.score.toFixed(3)}:\n${h.prompt.slice(0, 500)}...`).join('\n---\n')
-      : ''
-  const diffHint = requireDifferent ? '\n\n[IMPORTANT: Output MUST be different. Refine or expand at least one of Target, Avoid, or Prefer while keeping the user\'s intent.]' : ''
-  const feedbackBlock = feedback ? `\n\nRanking feedback (use this to adjust Target/Avoid/Prefer): ${feedback}` : ''
-  const userContent = `Current profile — Spearman score: ${currentScore.toFixed(3)} (higher is better; 1 = perfect match to gold ranking).\n\n${currentPrompt}${historyText}${feedbackBlock}\n\nRefine the profile so the ranking better matches the gold order. Output only the refined profile: three sections "Target:", "Avoid:", "Prefer:" in plain text (no markdown).${diffHint}`
-  const response = await getGemini().models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: userContent,
-    config: {
-      systemInstruction: OPTIMIZER_SYSTEM,
-      temperature: 0.65,
-      maxOutputTokens: 900,
-    },
-  })
-  const text = response.text?.trim() ?? ''
-  return extractPromptOnly(text)
-}
-
-async function proposeImprovedPromptGroq(
-  currentPrompt: string,
-  currentScore: number,
-  history: Array<{ prompt: string; score: number }>,
-  requireDifferent?: boolean,
-  feedback?: string
-): Promise<string> {
-  const historyText =
-    history.length > 0
-      ? '\nPrevious attempts (prompt -> score):\n' +
-        history.map((h) => `Score ${h.score.toFixed(3)}:\n${h.prompt.slice(0, 500)}...`).join('\n---\n')
-      : ''
-  const diffHint = requireDifferent ? '\n\n[IMPORTANT: Output MUST be different. Refine or expand at least one of Target, Avoid, or Prefer while keeping the user\'s intent.]' : ''
-  const feedbackBlock = feedback ? `\n\nRanking feedback (use this to adjust Target/Avoid/Prefer): ${feedback}` : ''
-  const userContent = `Current profile — Spearman score: ${currentScore.toFixed(3)} (higher is better; 1 = perfect match to gold ranking).\n\n${currentPrompt}${historyText}${feedbackBlock}\n\nRefine the profile so the ranking better matches the gold order. Output only the refined profile: three sections "Target:", "Avoid:", "Prefer:" in plain text (no markdown).${diffHint}`
-  const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${process.env.GROQ_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'llama-3.3-70b-versatile',
-      messages: [
-        { role: 'system', content: OPTIMIZER_SYSTEM },
-        { role: 'user', content: userContent },
-      ],
-      temperature: 0.65,
-      max_tokens: 900,
-    }),
-  })
-  if (!res.ok) {
-    const err = await res.text()
-    throw new Error(`Groq API ${res.status}: ${err}`)
-  }
-  const data = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> }
-  const text = data.choices?.[0]?.message?.content?.trim() ?? ''
-  return extractPromptOnly(text)
-}
-
-async function proposeImprovedPromptAnthropic(
-  currentPrompt: string,
-  currentScore: number,
-  history: Array<{ prompt: string; score: number }>,
-  requireDifferent?: boolean,
-  feedback?: string
-): Promise<string> {
-  const historyText =
-    history.length > 0
-      ? '\nPrevious attempts (prompt -> score):\n' +
-        history.map((h) => `Score ${h.score.toFixed(3)}:\n${h.prompt.slice(0, 500)}...`).join('\n---\n')
-      : ''
-  const diffHint = requireDifferent ? '\n\n[IMPORTANT: Output MUST be different. Refine or expand at least one of Target, Avoid, or Prefer while keeping the user\'s intent.]' : ''
-  const feedbackBlock = feedback ? `\n\nRanking feedback (use this to adjust Target/Avoid/Prefer): ${feedback}` : ''
-  const userContent = `Current profile — Spearman score: ${currentScore.toFixed(3)} (higher is better; 1 = perfect match to gold ranking).\n\n${currentPrompt}${historyText}${feedbackBlock}\n\nRefine the profile so the ranking better matches the gold order. Output only the refined profile: three sections "Target:", "Avoid:", "Prefer:" in plain text (no markdown).${diffHint}`
-  const res = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 900,
-      system: OPTIMIZER_SYSTEM,
-      messages: [{ role: 'user', content: userContent }],
-      temperature: 0.65,
-    }),
-  })
-  if (!res.ok) {
-    const err = await res.text()
-    throw new Error(`Anthropic API ${res.status}: ${err}`)
-  }
-  const data = (await res.json()) as { content?: Array<{ type: string; text?: string }> }
-  const text = data.content?.[0]?.text?.trim() ?? ''
-  return extractPromptOnly(text)
-}
-
 function normalizePromptForCompare(p: string): string {
   return p.trim().replace(/\s+/g, ' ')
 }
@@ -321,25 +184,59 @@ export async function proposeImprovedPrompt(
   currentPrompt: string,
   currentScore: number,
   history: Array<{ prompt: string; score: number }> = [],
-  options?: { optimizerProvider?: OptimizerProvider; requireDifferent?: boolean; feedback?: string }
+  options?: { optimizerProvider?: OptimizerProvider; requireDifferent?: boolean; feedback?: string; objective?: EvalObjective }
 ): Promise<string> {
   const provider = options?.optimizerProvider ?? 'gemini'
-  const reqDiff = options?.requireDifferent ?? false
   const feedback = options?.feedback
-  if (provider === 'groq') return proposeImprovedPromptGroq(currentPrompt, currentScore, history, reqDiff, feedback)
-  if (provider === 'anthropic') return proposeImprovedPromptAnthropic(currentPrompt, currentScore, history, reqDiff, feedback)
-  return proposeImprovedPromptGemini(currentPrompt, currentScore, history, reqDiff, feedback)
+  const metricLabel = EVAL_OBJECTIVES[options?.objective ?? 'score'].label
+  const historyText =
+    history.length > 0
+      ? '\nPrevious attempts (prompt -> score):\n' +
+        history.map((h) => `Score ${h.score.toFixed(3)}:\n${h.prompt.slice(0, 500)}...`).join('\n---\n')
+      : ''
+  const diffHint = options?.requireDifferent ? '\n\n[IMPORTANT: Output MUST be different. Refine or expand at least one of Target, Avoid, or Prefer while keeping the user\'s intent.]' : ''
+  const feedbackBlock = feedback ? `\n\nRanking feedback (use this to adjust Target/Avoid/Prefer): ${feedback}` : ''
+  const userContent = `Current profile — ${metricLabel} score: ${currentScore.toFixed(3)} (higher is better; 1 = perfect match to gold ranking).\n\n${currentPrompt}${historyText}${feedbackBlock}\n\nRefine the profile so the ranking better matches the gold order. Output only the refined profile: three sections "Target:", "Avoid:", "Prefer:" in plain text (no markdown).${diffHint}`
+  const text = await generateLlmText(provider, {
+    system: OPTIMIZER_SYSTEM,
+    user: userContent,
+    temperature: 0.65,
+    maxTokens: 900,
+  })
+  return extractPromptOnly(text)
 }
 
 export interface OptimizationResult {
   bestPrompt: string
+  /** Objective value of the best prompt. */
   bestScore: number
+  /** Every eval metric of the best prompt. */
+  bestMetrics: EvalMetrics
+  objective: EvalObjective
+  /** Objective value of each evaluated prompt. */
   history: Array<{ prompt: string; score: number }>
   iterations: number
 }
 
 /**
- * Run iterative prompt optimization: evaluate → LLM propose → evaluate; keep best.
+ * Splits a profile into the part the optimizer rewrites (the global Target / Avoid / Prefer) and the
+ * sections it keeps as written: Filters, global Committee sections and the Segment blocks.
+ * `join` puts an optimized text back together with the kept sections.
+ */
+function splitKeptSections(prompt: string): { editable: string; join: (editable: string) => string } {
+  const { text, section: filters } = extractProfileFilters(prompt)
+  const { globalText } = splitProfileSegments(text)
+  const segmentBlocks = text.slice(globalText.length).trim()
+  const kept = [...getCommitteeSections(globalText), filters, segmentBlocks].filter(Boolean)
+  return {
+    editable: stripCommitteeSections(globalText),
+    join: (editable) => [editable.trim(), ...kept].join('\n\n'),
+  }
+}
+
+/**
+ * Run iterative prompt optimization: evaluate → LLM propose → evaluate; keep the prompt with the best
+ * objective (default: Spearman).
  */
 export async function runOptimization(options: {
   initialPrompt: string
@@ -347,27 +244,47 @@ export async function runOptimization(options: {
   evalLeads: EvalLead[]
   leadEmbeddings: number[][]
   optimizerProvider: OptimizerProvider
+  /** Scoring weights used to evaluate each prompt (default: DEFAULT_SCORING_PROFILE). */
+  scoringWeights?: ScoringWeights
+  /** Eval metric to maximize (default: 'score', Spearman). */
+  objective?: EvalObjective
 }): Promise<OptimizationResult> {
-  const { initialPrompt, maxIterations, evalLeads, leadEmbeddings, optimizerProvider } = options
-  let bestPrompt = initialPrompt
+  const { initialPrompt, maxIterations, evalLeads, leadEmbeddings, optimizerProvider, scoringWeights } = options
+  const objective = options.objective ?? 'score'
+  // The optimizer writes only Target/Avoid/Prefer; the user's filters, committee and segments are kept.
+  const { editable, join } = splitKeptSections(initialPrompt)
+  if (!editable) {
+    throw new Error(
+      'Please provide a global Target section before the Segment blocks; the optimizer rewrites it and keeps the segments as written.'
+    )
+  }
+  let bestPrompt = editable
   let bestScore = -2
+  let bestMetrics: EvalMetrics | null = null
   const history: Array<{ prompt: string; score: number }> = []
-  let currentPrompt = initialPrompt
+  let currentPrompt = editable
 
   for (let iter = 0; iter < maxIterations; iter++) {
-    const evalResult = await evaluatePromptOnEvalSet(currentPrompt, evalLeads, leadEmbeddings)
-    const { score, ourRanks, goldRanks } = evalResult
+    const evalResult = await evaluatePromptOnEvalSet(join(currentPrompt), evalLeads, leadEmbeddings, scoringWeights)
+    const { ourRanks, goldRanks, ...metrics } = evalResult
+    const score = metrics[objective]
     history.push({ prompt: currentPrompt, score })
     if (score > bestScore) {
       bestScore = score
+      bestMetrics = metrics
       bestPrompt = currentPrompt
     }
     if (iter === maxIterations - 1) break
     const recentHistory = history.slice(-3)
     const feedback = buildRankingFeedback(evalLeads, ourRanks, goldRanks)
-    let proposed = await proposeImprovedPrompt(currentPrompt, score, recentHistory, { optimizerProvider, feedback })
+    let proposed = await proposeImprovedPrompt(currentPrompt, score, recentHistory, { optimizerProvider, feedback, objective })
     if (isSamePrompt(proposed, currentPrompt)) {
-      proposed = await proposeImprovedPrompt(currentPrompt, score, recentHistory, { optimizerProvider, requireDifferent: true, feedback })
+      proposed = await proposeImprovedPrompt(currentPrompt, score, recentHistory, {
+        optimizerProvider,
+        requireDifferent: true,
+        feedback,
+        objective,
+      })
     }
     if (!proposed || proposed.length < 20) {
       currentPrompt = bestPrompt
@@ -376,5 +293,12 @@ export async function runOptimization(options: {
     }
   }
 
-  return { bestPrompt, bestScore, history, iterations: maxIterations }
+  return {
+    bestPrompt: join(bestPrompt),
+    bestScore,
+    bestMetrics: bestMetrics!,
+    objective,
+    history: history.map((h) => ({ ...h, prompt: join(h.prompt) })),
+    iterations: maxIterations,
+  }
 }
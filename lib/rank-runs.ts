@@ -0,0 +1,176 @@
+import type { getSupabase } from '@/lib/supabase'
+import { RANK_RUNS_TABLE } from '@/lib/supabase'
+import { getNextRankCursor, type RankedLeadResult, type RankPage } from '@/lib/ranking'
+import type { ResolvedScoringProfile } from '@/lib/scoring-profiles'
+import type { ScoringProfile } from '@/lib/scoring'
+import type { LeadFilters } from '@/lib/lead-filters'
+import { rankAccounts, type AccountOptions } from '@/lib/accounts'
+import { hasCommitteeRoles, parseBuyingCommittee } from '@/lib/buying-committee'
+import type { ClauseAggregation } from '@/lib/embeddings'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+/**
+ * Ranking runs: each /api/rank/db ranking stored with what produced it and its results, so it can be
+ * reopened (GET /api/rank/runs?id=), exported and re-run with the current leads.
+ */
+
+/** Body of the /api/rank/db request that re-runs a run (resolved values, so the run is reproducible). */
+export interface RankRunRequest {
+  characteristics: string
+  personaId?: string
+  personaVersion?: number
+  templateId?: string
+  scoringProfileId?: string
+  /** Resolved weights, applied on top of scoringProfileId. */
+  scoring: ScoringProfile
+  filters?: LeadFilters
+  multiVector?: ClauseAggregation
+  includeBelowMinScore?: boolean
+  maxLeads?: number
+  /** Run whose lead snapshot was ranked instead of the current leads. */
+  leadsFromRun?: string
+  mode: 'leads' | 'accounts'
+  accounts?: AccountOptions
+}
+
+/** A stored ranked lead; leadId is the leads table row it was read from. */
+export interface RankRunLead extends RankedLeadResult {
+  leadId: string | null
+}
+
+/** Run as listed in the history (without its lead ids and results). */
+export interface RankRunSummary {
+  id: string
+  persona_id: string | null
+  persona_name: string | null
+  persona_version: number | null
+  mode: 'leads' | 'accounts'
+  embedding_provider: string
+  embedding_model: string
+  search_mode: string
+  total_processed: number
+  total_ranked: number
+  results_truncated: boolean
+  rerun_of: string | null
+  created_at: string
+}
+
+export interface RankRun extends RankRunSummary {
+  characteristics: string
+  request: RankRunRequest
+  scoring_profile: ResolvedScoringProfile
+  lead_text_template: { id: string | null; name: string; version: string }
+  /** Ids of the leads that were scored. */
+  lead_ids: string[]
+  /** Ranked leads in order, at most RUN_RESULTS_LIMIT. */
+  results: RankRunLead[]
+}
+
+export type NewRankRun = Omit<RankRun, 'id' | 'created_at'>
+
+/** Ranked leads stored per run; longer rankings keep their top leads and are flagged results_truncated. */
+export const RUN_RESULTS_LIMIT = 2000
+
+/** Runs returned by the history list. */
+const RUN_LIST_LIMIT = 50
+
+const SUMMARY_COLUMNS =
+  'id, persona_id, persona_name, persona_version, mode, embedding_provider, embedding_model, search_mode, total_processed, total_ranked, results_truncated, rerun_of, created_at'
+
+/** Set once rank_runs is found missing, so rankings don't try to store runs on every request. */
+let tableUnavailable = false
+
+function isMissingTableError(error: { code?: string; message?: string }): boolean {
+  return error.code === '42P01' || error.code === 'PGRST205' || !!error.message?.toLowerCase().includes('does not exist')
+}
+
+/** The run's results capped at RUN_RESULTS_LIMIT, with whether some were left out. */
+export function limitRunResults(results: RankRunLead[]): { results: RankRunLead[]; truncated: boolean } {
+  return { results: results.slice(0, RUN_RESULTS_LIMIT), truncated: results.length > RUN_RESULTS_LIMIT }
+}
+
+/**
+ * True when the run's stored results hold the whole page, so it can be served without re-ranking:
+ * always for complete runs; for truncated ones only lead pages within the stored top leads
+ * (accounts are grouped from every ranked lead).
+ */
+export function runCoversPage(run: RankRun, page: RankPage): boolean {
+  if (!run.results_truncated) return true
+  return run.mode === 'leads' && page.limit !== undefined && page.offset + page.limit <= run.results.length
+}
+
+/**
+ * A page of the run's stored ranking in the shape of /api/rank/db: { rankedLeads, nextCursor } (each
+ * lead with its leadId) or, for accounts runs, { accounts, totalAccounts, unassignedLeads,
+ * accountOptions, nextCursor } regrouped from the stored leads; with totalRanked and buyingCommittee.
+ * Next cursors point back to the run.
+ */
+export function getRankRunPage(run: Omit<RankRun, 'lead_ids'>, page: RankPage): Record<string, unknown> {
+  const { results } = run
+  const committee = parseBuyingCommittee(run.characteristics)
+  const common = {
+    totalRanked: results.length,
+    ...(hasCommitteeRoles(committee) ? { buyingCommittee: committee } : {}),
+  }
+  const end = (total: number) => (page.limit !== undefined ? page.offset + page.limit : total)
+
+  if (run.mode === 'accounts' && run.request.accounts) {
+    const { accounts, unassigned } = rankAccounts(results, run.request.accounts, committee)
+    return {
+      accounts: accounts.slice(page.offset, end(accounts.length)),
+      totalAccounts: accounts.length,
+      unassignedLeads: unassigned,
+      accountOptions: run.request.accounts,
+      nextCursor: getNextRankCursor(page.offset, page.limit, accounts.length, run.id),
+      ...common,
+    }
+  }
+  return {
+    rankedLeads: results.slice(page.offset, end(results.length)),
+    nextCursor: getNextRankCursor(page.offset, page.limit, results.length, run.id),
+    ...common,
+  }
+}
+
+/**
+ * Stores a run and returns its id. Best effort: the ranking has already succeeded, so a failure
+ * (e.g. migration 014 not applied) is logged and returns null.
+ */
+export async function saveRankRun(supabase: SupabaseClient, run: NewRankRun): Promise<string | null> {
+  if (tableUnavailable) return null
+  try {
+    const { data, error } = await supabase.from(RANK_RUNS_TABLE).insert(run).select('id').single()
+    if (error) {
+      if (isMissingTableError(error)) tableUnavailable = true
+      else console.warn('Ranking run not saved:', error.message)
+      return null
+    }
+    return (data as { id: string }).id
+  } catch (e) {
+    console.warn('Ranking run not saved:', e)
+    return null
+  }
+}
+
+/** Latest runs, newest first. */
+export async function listRankRuns(supabase: SupabaseClient): Promise<RankRunSummary[]> {
+  const { data, error } = await supabase
+    .from(RANK_RUNS_TABLE)
+    .select(SUMMARY_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(RUN_LIST_LIMIT)
+  if (error) throw error
+  return (data ?? []) as unknown as RankRunSummary[]
+}
+
+export async function getRankRun(supabase: SupabaseClient, id: string): Promise<RankRun | null> {
+  const { data, error } = await supabase.from(RANK_RUNS_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return (data as RankRun | null) ?? null
+}
+
+export async function deleteRankRun(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from(RANK_RUNS_TABLE).delete().eq('id', id)
+  if (error) throw error
+}
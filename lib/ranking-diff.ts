@@ -0,0 +1,118 @@
+import { getLeadKey } from '@/lib/lead-identity'
+import { spearmanCorrelation } from '@/lib/eval-metrics'
+
+/**
+ * Comparison of two rankings of (mostly) the same leads, e.g. two stored runs (lib/rank-runs.ts)
+ * or two profiles ranked on one run's leads: which leads entered or left the top N, how far each
+ * moved, and how well the two orders agree overall.
+ */
+
+/** Minimal shape of a ranked lead (RankRunLead or RankedLeadResult). */
+export interface DiffRankedLead {
+  lead: Record<string, string>
+  score: number
+  rank: number
+  leadId?: string | null
+}
+
+/** entered / left: in the top N of only the second / first ranking; up / down / same: in both. */
+export type RankingDiffStatus = 'entered' | 'left' | 'up' | 'down' | 'same'
+
+export interface RankingDiffLead {
+  lead: Record<string, string>
+  status: RankingDiffStatus
+  /** Null when the lead is not in that ranking (not scored, filtered out or below the stored results). */
+  rankBefore: number | null
+  rankAfter: number | null
+  /** rankBefore − rankAfter: positive when the lead moved up. Null unless ranked in both. */
+  rankDelta: number | null
+  scoreBefore: number | null
+  scoreAfter: number | null
+  scoreDelta: number | null
+}
+
+export interface RankingDiff {
+  topN: number
+  /** Leads in either top N, in the second ranking's order (leads that left last, in the first ranking's order). */
+  leads: RankingDiffLead[]
+  entered: number
+  left: number
+  /** Leads ranked in both rankings (all positions, not only the top N). */
+  commonLeads: number
+  /** Spearman correlation of the two orders of the common leads; null with fewer than 2. */
+  spearman: number | null
+}
+
+export const DEFAULT_DIFF_TOP_N = 50
+
+/** Lead identity across rankings: the leads table id, else the lead key, else all of its values. */
+function diffKey(item: DiffRankedLead): string {
+  if (item.leadId) return `id:${item.leadId}`
+  const key = getLeadKey(item.lead)
+  if (key) return key
+  return JSON.stringify(Object.entries(item.lead).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function byRank(items: DiffRankedLead[]): DiffRankedLead[] {
+  return [...items].sort((a, b) => a.rank - b.rank)
+}
+
+/** Compares `before` with `after` (each ranked leads with global ranks, in any order). */
+export function diffRankings(
+  before: DiffRankedLead[],
+  after: DiffRankedLead[],
+  topN: number = DEFAULT_DIFF_TOP_N
+): RankingDiff {
+  const beforeByKey = new Map<string, DiffRankedLead>()
+  for (const item of byRank(before)) {
+    const key = diffKey(item)
+    if (!beforeByKey.has(key)) beforeByKey.set(key, item)
+  }
+  const afterByKey = new Map<string, DiffRankedLead>()
+  for (const item of byRank(after)) {
+    const key = diffKey(item)
+    if (!afterByKey.has(key)) afterByKey.set(key, item)
+  }
+
+  const toDiffLead = (key: string): RankingDiffLead => {
+    const b = beforeByKey.get(key)
+    const a = afterByKey.get(key)
+    const inTopBefore = !!b && b.rank <= topN
+    const inTopAfter = !!a && a.rank <= topN
+    const rankDelta = a && b ? b.rank - a.rank : null
+    return {
+      lead: (a ?? b)!.lead,
+      status: !inTopBefore ? 'entered' : !inTopAfter ? 'left' : rankDelta! > 0 ? 'up' : rankDelta! < 0 ? 'down' : 'same',
+      rankBefore: b?.rank ?? null,
+      rankAfter: a?.rank ?? null,
+      rankDelta,
+      scoreBefore: b?.score ?? null,
+      scoreAfter: a?.score ?? null,
+      scoreDelta: a && b ? a.score - b.score : null,
+    }
+  }
+
+  const topAfter = Array.from(afterByKey).filter(([, item]) => item.rank <= topN).map(([key]) => key)
+  const topAfterKeys = new Set(topAfter)
+  const leftKeys = Array.from(beforeByKey)
+    .filter(([key, item]) => item.rank <= topN && !topAfterKeys.has(key))
+    .map(([key]) => key)
+  const leads = [...topAfter, ...leftKeys].map(toDiffLead)
+
+  // Common leads renumbered 1..m in each order, so Spearman compares permutations of the same set.
+  const common = Array.from(beforeByKey.keys()).filter((key) => afterByKey.has(key))
+  const afterOrder = new Map(
+    [...common].sort((x, y) => afterByKey.get(x)!.rank - afterByKey.get(y)!.rank).map((key, i) => [key, i + 1])
+  )
+  const spearman =
+    common.length >= 2 ? spearmanCorrelation(common.map((key) => afterOrder.get(key)!), common.map((_, i) => i + 1)) : null
+
+  return {
+    topN,
+    leads,
+    entered: leads.filter((l) => l.status === 'entered').length,
+    left: leftKeys.length,
+    commonLeads: common.length,
+    spearman,
+  }
+}
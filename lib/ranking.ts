@@ -2,40 +2,291 @@ import {
   generateEmbedding,
   generateEmbeddingBatch,
   cosineSimilarity,
-  leadToText,
-  parseProfileForEmbedding,
-  computeLeadScore,
+  parseProfileSegmentsForEmbedding,
+  computeLeadScoreComponents,
+  clauseEmbeddingText,
+  type ClauseAggregation,
+  type ProfileTexts,
 } from '@/lib/embeddings'
+import { leadToText, type LeadTextTemplate } from '@/lib/lead-text'
+import { DEFAULT_SCORING_PROFILE, type ScoreBreakdown, type ScoringProfile } from '@/lib/scoring'
+import {
+  applyLeadFilters,
+  extractProfileFilters,
+  hasLeadFilters,
+  mergeLeadFilters,
+  type LeadFilterCounts,
+  type LeadFilters,
+} from '@/lib/lead-filters'
+import { findLeadSegment, type EmployeeSegment } from '@/lib/profile-segments'
 
 export interface RankedLeadResult {
   lead: Record<string, string>
   score: number
   similarity: number
   rank: number
+  /** Company-size segment of the profile the lead was scored against (absent: global profile). */
+  segment?: string
+  /** Target clause the lead matched best (multi-vector profiles only). */
+  matchedClause?: string
+  /** How the score was computed (similarities, base score, penalty, bonus, minimum score). */
+  breakdown: ScoreBreakdown
+}
+
+/** One clause of a section (e.g. a Target bullet) and its embedding. */
+export interface ClauseEmbedding {
+  text: string
+  embedding: number[]
+}
+
+/**
+ * Embeddings of the Target / Avoid / Prefer sections of a profile. Multi-vector profiles also
+ * have one embedding per clause; the whole-section embeddings are kept for the pgvector search.
+ */
+export interface SectionEmbeddings {
+  targetEmbedding: number[]
+  avoidEmbedding: number[] | null
+  preferEmbedding: number[] | null
+  targetClauses?: ClauseEmbedding[]
+  avoidClauses?: ClauseEmbedding[]
+  preferClauses?: ClauseEmbedding[]
+}
+
+export interface SegmentEmbeddings extends EmployeeSegment, SectionEmbeddings {}
+
+/** Global section embeddings, plus one set per "Segment <range>:" block of the profile. */
+export interface ProfileEmbeddings extends SectionEmbeddings {
+  segments?: SegmentEmbeddings[]
+  /** Set for multi-vector profiles: how clause similarities are combined. */
+  clauseAggregation?: ClauseAggregation
+}
+
+/** Similarities of one lead to the profile sections that apply to it. */
+export interface LeadSimilarities {
+  target: number
+  avoid: number
+  prefer: number
+  hasAvoid: boolean
+  hasPrefer: boolean
+  segment?: string
+  /** Best-matching Target clause (multi-vector profiles only). */
+  matchedClause?: string
+  /** Best-matching Avoid / Prefer clauses (multi-vector profiles only). */
+  matchedAvoidClause?: string
+  matchedPreferClause?: string
 }
 
-const TOP_N = 10
-const MIN_SCORE = 0.3
+/** Default page size of the rank APIs when a client asks for pages without a size. */
+export const DEFAULT_RANK_PAGE_SIZE = 50
+
+/** Largest page the rank APIs return. */
+export const MAX_RANK_PAGE_SIZE = 1000
+
+/**
+ * Opaque pagination cursor for the rank APIs: the offset of the next page and, when the ranking was
+ * stored as a run (lib/rank-runs.ts), its id so the page is read from the run. Without a run, pages
+ * are recomputed on each request, so they are consistent as long as the profile, options and leads
+ * are unchanged.
+ */
+export function encodeRankCursor(offset: number, runId?: string | null): string {
+  return Buffer.from(JSON.stringify(runId ? { offset, runId } : { offset })).toString('base64url')
+}
+
+/** Offset (and run id) encoded by encodeRankCursor; null when the cursor is malformed. */
+export function decodeRankCursor(cursor: string): { offset: number; runId?: string } | null {
+  try {
+    const { offset, runId } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (!Number.isInteger(offset) || offset < 0) return null
+    return typeof runId === 'string' && runId ? { offset, runId } : { offset }
+  } catch {
+    return null
+  }
+}
+
+/** Page of the rank APIs; runId is the stored run the cursor points to. */
+export interface RankPage {
+  offset: number
+  limit: number | undefined
+  runId?: string
+}
+
+/**
+ * Reads the rank APIs' pageSize / cursor parameters (JSON body or form fields). Without either, the
+ * full ranking is returned (limit undefined); a cursor without pageSize uses DEFAULT_RANK_PAGE_SIZE.
+ */
+export function parseRankPageParams(pageSize: unknown, cursor: unknown): RankPage | { error: string } {
+  let decoded: { offset: number; runId?: string } = { offset: 0 }
+  if (cursor !== undefined && cursor !== null && cursor !== '') {
+    const fromCursor = typeof cursor === 'string' ? decodeRankCursor(cursor) : null
+    if (fromCursor === null) return { error: 'cursor is invalid. Use the nextCursor of a previous response.' }
+    decoded = fromCursor
+  }
+  if (pageSize === undefined || pageSize === null || pageSize === '') {
+    return { ...decoded, limit: decoded.offset > 0 ? DEFAULT_RANK_PAGE_SIZE : undefined }
+  }
+  const size = typeof pageSize === 'string' ? Number(pageSize) : pageSize
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_RANK_PAGE_SIZE) {
+    return { error: `pageSize must be an integer from 1 to ${MAX_RANK_PAGE_SIZE}.` }
+  }
+  return { ...decoded, limit: size }
+}
+
+/**
+ * Cursor of the page after [offset, offset + limit), or null on the last page / for the full list.
+ * With runId, the next page is read from that stored run.
+ */
+export function getNextRankCursor(
+  offset: number,
+  limit: number | undefined,
+  totalRanked: number,
+  runId?: string | null
+): string | null {
+  return limit !== undefined && offset + limit < totalRanked ? encodeRankCursor(offset + limit, runId) : null
+}
+
+/** Softmax temperature for 'softmax' clause aggregation; cosine similarities vary over a narrow range. */
+const SOFTMAX_TEMPERATURE = 0.05
+
+/** Combines per-clause similarities; returns the aggregate and the index of the best clause. */
+function aggregateClauseSimilarities(sims: number[], aggregation: ClauseAggregation): { value: number; best: number } {
+  let best = 0
+  for (let i = 1; i < sims.length; i++) if (sims[i] > sims[best]) best = i
+  if (aggregation === 'max' || sims.length === 1) return { value: sims[best], best }
+  const weights = sims.map((sim) => Math.exp((sim - sims[best]) / SOFTMAX_TEMPERATURE))
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  return { value: sims.reduce((sum, sim, i) => sum + sim * weights[i], 0) / total, best }
+}
+
+/**
+ * Embed the Target / Avoid / Prefer sections of a persona spec (1–3 embedding calls, plus the
+ * distinct texts of each company-size segment). With multiVector, each clause of every section is
+ * embedded too and lead similarities combine the clause similarities with that aggregation.
+ */
+export async function embedProfile(
+  characteristics: string,
+  options?: { multiVector?: ClauseAggregation }
+): Promise<ProfileEmbeddings> {
+  const multiVector = options?.multiVector
+  const { global, segments } = parseProfileSegmentsForEmbedding(characteristics, { splitClauses: !!multiVector })
+  if (!global.targetText || !global.targetText.trim()) {
+    throw new Error('Profile cannot be empty.')
+  }
+
+  // Segments often share (inherit) Avoid / Prefer: embed each distinct text once.
+  const cache = new Map<string, number[]>()
+  const embed = async (text: string) => {
+    const cached = cache.get(text)
+    if (cached) return cached
+    const embedding = await generateEmbedding(text)
+    cache.set(text, embedding)
+    return embedding
+  }
+  const embedClauses = async (section: 'target' | 'avoid' | 'prefer', clauses: string[]): Promise<ClauseEmbedding[]> => {
+    const embedded: ClauseEmbedding[] = []
+    for (const text of clauses) embedded.push({ text, embedding: await embed(clauseEmbeddingText(section, text)) })
+    return embedded
+  }
+  const embedSections = async (texts: ProfileTexts): Promise<SectionEmbeddings> => {
+    const sections: SectionEmbeddings = {
+      targetEmbedding: await embed(texts.targetText),
+      avoidEmbedding: texts.avoidText ? await embed(texts.avoidText) : null,
+      preferEmbedding: texts.preferText ? await embed(texts.preferText) : null,
+    }
+    if (texts.targetClauses?.length) sections.targetClauses = await embedClauses('target', texts.targetClauses)
+    if (texts.avoidClauses?.length) sections.avoidClauses = await embedClauses('avoid', texts.avoidClauses)
+    if (texts.preferClauses?.length) sections.preferClauses = await embedClauses('prefer', texts.preferClauses)
+    return sections
+  }
+
+  const profile: ProfileEmbeddings = await embedSections(global)
+  if (multiVector) profile.clauseAggregation = multiVector
+  if (segments.length > 0) {
+    profile.segments = []
+    for (const { name, minEmployees, maxEmployees, ...texts } of segments) {
+      profile.segments.push({ name, minEmployees, maxEmployees, ...(await embedSections(texts)) })
+    }
+  }
+  return profile
+}
+
+/**
+ * Similarities of a lead embedding to the profile: the sections of the segment matching the lead's
+ * company size, or the global sections. For multi-vector profiles each section's similarity is
+ * aggregated over its clauses and matchedClause is the best Target clause.
+ */
+export function getLeadSimilarities(
+  profile: ProfileEmbeddings,
+  lead: Record<string, string>,
+  embedding: number[]
+): LeadSimilarities {
+  const segmentIndex = profile.segments ? findLeadSegment(profile.segments, lead) : -1
+  const segment = segmentIndex >= 0 ? profile.segments![segmentIndex] : undefined
+  const sections = segment ?? profile
+  const aggregation = profile.clauseAggregation
+  const similarity = (whole: number[], clauses: ClauseEmbedding[] | undefined) => {
+    if (!aggregation || !clauses?.length) return { value: cosineSimilarity(whole, embedding), clause: undefined }
+    const { value, best } = aggregateClauseSimilarities(
+      clauses.map((c) => cosineSimilarity(c.embedding, embedding)),
+      aggregation
+    )
+    return { value, clause: clauses[best].text }
+  }
+  const target = similarity(sections.targetEmbedding, sections.targetClauses)
+  const avoid = sections.avoidEmbedding ? similarity(sections.avoidEmbedding, sections.avoidClauses) : null
+  const prefer = sections.preferEmbedding ? similarity(sections.preferEmbedding, sections.preferClauses) : null
+  return {
+    target: target.value,
+    avoid: avoid?.value ?? 0,
+    prefer: prefer?.value ?? 0,
+    hasAvoid: !!avoid,
+    hasPrefer: !!prefer,
+    ...(segment ? { segment: segment.name } : {}),
+    ...(target.clause ? { matchedClause: target.clause } : {}),
+    ...(avoid?.clause ? { matchedAvoidClause: avoid.clause } : {}),
+    ...(prefer?.clause ? { matchedPreferClause: prefer.clause } : {}),
+  }
+}
 
 /**
  * Rank a list of leads against a persona spec (Target / Avoid / Prefer).
  * Reusable for both CSV upload and database-backed ranking.
+ * Pass profileEmbeddings (from embedProfile) to skip re-embedding the profile, and leadTextTemplate
+ * to render leads with a saved template when their embeddings are computed here. scoringProfile sets
+ * the Avoid/Prefer weights and the minimum score (default: DEFAULT_SCORING_PROFILE).
+ * Hard filters (options.filters plus the profile's "Filters:" section) remove leads before scoring
+ * (and before embedding them); excludedByRule counts the removed leads per rule.
+ * multiVector scores against each clause of Target / Avoid / Prefer separately (see embedProfile);
+ * it is ignored when profileEmbeddings are passed (they carry their own clauseAggregation).
+ * Each ranked lead carries a score breakdown. Leads below the minimum score are dropped, or
+ * returned with breakdown.belowMinScore set when includeBelowMinScore is true (totalMatched counts
+ * only the leads at or above it).
+ * Returns the full ranking, or the page of `limit` leads starting at `offset` (ranks stay global);
+ * totalRanked is the length of the full ranking.
  */
 export async function rankLeadsAgainstPersona(
   leads: Record<string, string>[],
   characteristics: string,
-  options?: { topN?: number; maxLeads?: number; leadEmbeddings?: number[][] }
-): Promise<{ rankedLeads: RankedLeadResult[]; totalProcessed: number; totalMatched: number }> {
-  const { targetText, avoidText, preferText } = parseProfileForEmbedding(characteristics)
-  if (!targetText || !targetText.trim()) {
-    throw new Error('Profile cannot be empty.')
+  options?: {
+    offset?: number
+    limit?: number
+    maxLeads?: number
+    leadEmbeddings?: number[][]
+    profileEmbeddings?: ProfileEmbeddings
+    leadTextTemplate?: LeadTextTemplate
+    scoringProfile?: ScoringProfile
+    filters?: LeadFilters
+    multiVector?: ClauseAggregation
+    includeBelowMinScore?: boolean
   }
-
-  const targetEmbedding = await generateEmbedding(targetText)
-  let avoidEmbedding: number[] | null = null
-  let preferEmbedding: number[] | null = null
-  if (avoidText) avoidEmbedding = await generateEmbedding(avoidText)
-  if (preferText) preferEmbedding = await generateEmbedding(preferText)
+): Promise<{
+  rankedLeads: RankedLeadResult[]
+  totalRanked: number
+  totalProcessed: number
+  totalMatched: number
+  totalExcluded: number
+  excludedByRule: LeadFilterCounts
+}> {
+  const profile = options?.profileEmbeddings ?? (await embedProfile(characteristics, { multiVector: options?.multiVector }))
 
   let slice = leads
   const envMax = process.env.MAX_LEADS ? Math.max(1, parseInt(String(process.env.MAX_LEADS), 10) || 0) : undefined
@@ -44,37 +295,76 @@ export async function rankLeadsAgainstPersona(
     slice = leads.slice(0, maxLeads)
   }
 
+  const totalProcessed = slice.length
+  let providedEmbeddings =
+    options?.leadEmbeddings && options.leadEmbeddings.length === slice.length ? options.leadEmbeddings : undefined
+  const filters = mergeLeadFilters(extractProfileFilters(characteristics).filters, options?.filters)
+  let excludedByRule: LeadFilterCounts = {}
+  let totalExcluded = 0
+  if (hasLeadFilters(filters)) {
+    const result = applyLeadFilters(slice, filters)
+    excludedByRule = result.excludedByRule
+    totalExcluded = result.totalExcluded
+    slice = result.keptIndices.map((i) => slice[i])
+    if (providedEmbeddings) {
+      const embeddings = providedEmbeddings
+      providedEmbeddings = result.keptIndices.map((i) => embeddings[i])
+    }
+  }
+
   let allEmbeddings: number[][]
-  if (options?.leadEmbeddings && options.leadEmbeddings.length === slice.length) {
-    allEmbeddings = options.leadEmbeddings
+  if (providedEmbeddings) {
+    allEmbeddings = providedEmbeddings
   } else {
-    const leadTexts = slice.map((lead) => leadToText(lead))
+    const leadTexts = slice.map((lead) => leadToText(lead, options?.leadTextTemplate))
     allEmbeddings = await generateEmbeddingBatch(leadTexts)
   }
-  const hasAvoid = !!avoidEmbedding
-  const hasPrefer = !!preferEmbedding
+  if (allEmbeddings.some((emb) => emb.length !== profile.targetEmbedding.length)) {
+    throw new Error(
+      'Lead embeddings were produced by a different embedding model than the current AI_PROVIDER. Re-embed leads via POST /api/leads/reembed.'
+    )
+  }
+  const scoring = options?.scoringProfile ?? DEFAULT_SCORING_PROFILE
 
   const scored = slice.map((lead, i) => {
-    const simTarget = cosineSimilarity(targetEmbedding, allEmbeddings[i])
-    const simAvoid = avoidEmbedding ? cosineSimilarity(avoidEmbedding, allEmbeddings[i]) : 0
-    const simPrefer = preferEmbedding ? cosineSimilarity(preferEmbedding, allEmbeddings[i]) : 0
-    const score = computeLeadScore(simTarget, simAvoid, simPrefer, hasAvoid, hasPrefer)
-    return { lead, score, similarity: simTarget }
+    const sims = getLeadSimilarities(profile, lead, allEmbeddings[i])
+    const components = computeLeadScoreComponents(sims.target, sims.avoid, sims.prefer, sims.hasAvoid, sims.hasPrefer, scoring)
+    const dominantClause =
+      components.dominant === 'avoid'
+        ? sims.matchedAvoidClause
+        : components.dominant === 'prefer'
+          ? sims.matchedPreferClause
+          : sims.matchedClause
+    const breakdown: ScoreBreakdown = {
+      ...components,
+      ...(dominantClause ? { dominantClause } : {}),
+      minScore: scoring.minScore,
+      belowMinScore: components.score < scoring.minScore,
+    }
+    return { lead, score: components.score, similarity: sims.target, segment: sims.segment, matchedClause: sims.matchedClause, breakdown }
   })
 
   scored.sort((a, b) => b.score - a.score)
-  const topN = options?.topN ?? TOP_N
-  const ranked = scored.slice(0, topN).map((item, index) => ({
+  const totalMatched = scored.filter((item) => !item.breakdown.belowMinScore).length
+  const ranked = options?.includeBelowMinScore ? scored : scored.slice(0, totalMatched)
+  const offset = Math.max(0, options?.offset ?? 0)
+  const end = options?.limit !== undefined ? offset + Math.max(0, options.limit) : ranked.length
+  const page: RankedLeadResult[] = ranked.slice(offset, end).map((item, index) => ({
     lead: item.lead,
     score: item.score,
     similarity: item.similarity,
-    rank: index + 1,
+    rank: offset + index + 1,
+    ...(item.segment ? { segment: item.segment } : {}),
+    ...(item.matchedClause ? { matchedClause: item.matchedClause } : {}),
+    breakdown: item.breakdown,
   }))
-  const filtered = ranked.filter((item) => item.score >= MIN_SCORE)
 
   return {
-    rankedLeads: filtered,
-    totalProcessed: slice.length,
-    totalMatched: filtered.length,
+    rankedLeads: page,
+    totalRanked: ranked.length,
+    totalProcessed,
+    totalMatched,
+    totalExcluded,
+    excludedByRule,
   }
 }
@@ -0,0 +1,144 @@
+import type { EvalLead } from '@/lib/eval-set'
+import {
+  computeEvalSimilarities,
+  scoreEvalSimilarities,
+  type EvalResult,
+  type EvalSimilarities,
+} from '@/lib/prompt-optimizer'
+import { DEFAULT_SCORING_PROFILE, SCORING_PARAMS, type ScoringProfile, type ScoringWeights } from '@/lib/scoring'
+
+/** What calibration maximizes: Spearman, recall@5, or their sum (Spearman breaks recall@5 ties). */
+export type CalibrationObjective = 'spearman' | 'recallAt5' | 'combined'
+
+export const CALIBRATION_OBJECTIVES: CalibrationObjective[] = ['spearman', 'recallAt5', 'combined']
+
+/** Eval metrics without the per-lead ranks. */
+export type CalibrationMetrics = Omit<EvalResult, 'ourRanks' | 'goldRanks'>
+
+export interface CalibrationResult {
+  objective: CalibrationObjective
+  /** Profile before calibration (the starting point). */
+  before: ScoringProfile
+  beforeMetrics: CalibrationMetrics
+  /** Fitted profile; minScore is kept from `before` (it does not change the eval order). */
+  fitted: ScoringProfile
+  fittedMetrics: CalibrationMetrics
+  /** Number of weight combinations evaluated. */
+  evaluated: number
+  /** Weights that had no effect because the persona has no Avoid / Prefer section (kept as is). */
+  unused: (keyof ScoringWeights)[]
+}
+
+/** Coarse grid step; the best grid point is then refined down to FINE_STEP. */
+const GRID_STEP = 0.05
+const FINE_STEP = 0.0125
+
+/** Search ranges: narrower than SCORING_PARAMS, where the Target signal still dominates. */
+const SEARCH_RANGES: Record<keyof ScoringWeights, { min: number; max: number }> = {
+  avoidPenaltyWeight: { min: 0, max: 1.5 },
+  preferBonusWeight: { min: 0, max: 0.6 },
+  avoidSimilarityThreshold: { min: -0.1, max: 0.6 },
+}
+
+const WEIGHT_IDS = Object.keys(SEARCH_RANGES) as (keyof ScoringWeights)[]
+
+function objectiveValue(metrics: CalibrationMetrics, objective: CalibrationObjective): number {
+  if (objective === 'spearman') return metrics.score
+  if (objective === 'recallAt5') return metrics.recallAt5 + metrics.score * 1e-3
+  return metrics.score + metrics.recallAt5
+}
+
+function gridValues(min: number, max: number, step: number): number[] {
+  const values: number[] = []
+  for (let i = 0; min + i * step <= max + 1e-9; i++) values.push(Math.round((min + i * step) * 1e4) / 1e4)
+  return values
+}
+
+function toMetrics({ ourRanks, goldRanks, ...metrics }: EvalResult): CalibrationMetrics {
+  return metrics
+}
+
+/** Squared distance from the starting weights; among equally good weights the closest one wins. */
+function distance(a: ScoringWeights, b: ScoringWeights): number {
+  return WEIGHT_IDS.reduce((sum, id) => sum + (a[id] - b[id]) ** 2, 0)
+}
+
+/**
+ * Fits avoid penalty, prefer bonus and avoid threshold to the eval set from precomputed
+ * similarities: a grid search over SEARCH_RANGES, then coordinate refinement around the best point.
+ * Pure and synchronous (no embedding or LLM calls).
+ */
+export function calibrateFromSimilarities(
+  evalLeads: EvalLead[],
+  similarities: EvalSimilarities,
+  options?: { base?: ScoringProfile; objective?: CalibrationObjective }
+): CalibrationResult {
+  const before = options?.base ?? DEFAULT_SCORING_PROFILE
+  const objective = options?.objective ?? 'spearman'
+  const unused: (keyof ScoringWeights)[] = []
+  if (!similarities.hasAvoid) unused.push('avoidPenaltyWeight', 'avoidSimilarityThreshold')
+  if (!similarities.hasPrefer) unused.push('preferBonusWeight')
+
+  let evaluated = 0
+  const evaluate = (weights: ScoringProfile) => {
+    evaluated++
+    const metrics = toMetrics(scoreEvalSimilarities(evalLeads, similarities, weights))
+    return { weights, metrics, value: objectiveValue(metrics, objective) }
+  }
+  let best = evaluate(before)
+  const beforeMetrics = best.metrics
+  const consider = (weights: ScoringProfile) => {
+    const candidate = evaluate(weights)
+    const better =
+      candidate.value > best.value + 1e-12 ||
+      (Math.abs(candidate.value - best.value) <= 1e-12 && distance(weights, before) < distance(best.weights, before))
+    if (better) best = candidate
+  }
+
+  const axes = WEIGHT_IDS.map((id) =>
+    unused.includes(id) ? [before[id]] : gridValues(SEARCH_RANGES[id].min, SEARCH_RANGES[id].max, GRID_STEP)
+  )
+  for (const avoidPenaltyWeight of axes[0]) {
+    for (const preferBonusWeight of axes[1]) {
+      for (const avoidSimilarityThreshold of axes[2]) {
+        consider({ ...before, avoidPenaltyWeight, preferBonusWeight, avoidSimilarityThreshold })
+      }
+    }
+  }
+
+  // Coordinate refinement: move one weight at a time by ±step, halving the step when nothing improves.
+  for (let step = GRID_STEP / 2; step >= FINE_STEP - 1e-9; step /= 2) {
+    let improved = true
+    while (improved) {
+      improved = false
+      for (const id of WEIGHT_IDS) {
+        if (unused.includes(id)) continue
+        for (const delta of [-step, step]) {
+          const { min, max } = SCORING_PARAMS[id]
+          const value = Math.round(Math.min(max, Math.max(min, best.weights[id] + delta)) * 1e4) / 1e4
+          const previous = best
+          consider({ ...best.weights, [id]: value })
+          if (best !== previous) improved = true
+        }
+      }
+    }
+  }
+
+  return { objective, before, beforeMetrics, fitted: best.weights, fittedMetrics: best.metrics, evaluated, unused }
+}
+
+/**
+ * Calibrates scoring weights for a persona against the eval set. Embeds only the persona
+ * (1–3 embedding calls); lead embeddings come from getEvalLeadEmbeddings. No LLM is used.
+ */
+export async function calibrateScoringWeights(options: {
+  characteristics: string
+  evalLeads: EvalLead[]
+  leadEmbeddings: number[][]
+  base?: ScoringProfile
+  objective?: CalibrationObjective
+}): Promise<CalibrationResult> {
+  const { characteristics, evalLeads, leadEmbeddings, base, objective } = options
+  const similarities = await computeEvalSimilarities(characteristics, evalLeads, leadEmbeddings)
+  return calibrateFromSimilarities(evalLeads, similarities, { base, objective })
+}
@@ -0,0 +1,82 @@
+import type { getSupabase } from '@/lib/supabase'
+import { SCORING_PROFILES_TABLE } from '@/lib/supabase'
+import { DEFAULT_SCORING_PROFILE, sameScoringProfile, sanitizeScoringProfile, type ScoringProfile } from '@/lib/scoring'
+
+type SupabaseClient = ReturnType<typeof getSupabase>
+
+export interface SavedScoringProfile {
+  id: string
+  name: string
+  profile: ScoringProfile
+  created_at: string
+  updated_at: string
+}
+
+/** Scoring profile chosen for a ranking / evaluation request. */
+export interface ResolvedScoringProfile {
+  /** Null for the built-in default profile. */
+  id: string | null
+  name: string
+  profile: ScoringProfile
+  /** True when request parameters overrode some of the profile's values. */
+  overridden: boolean
+}
+
+export const DEFAULT_RESOLVED_SCORING_PROFILE: ResolvedScoringProfile = {
+  id: null,
+  name: 'Default',
+  profile: DEFAULT_SCORING_PROFILE,
+  overridden: false,
+}
+
+export async function listScoringProfiles(supabase: SupabaseClient): Promise<SavedScoringProfile[]> {
+  const { data, error } = await supabase.from(SCORING_PROFILES_TABLE).select('*').order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []) as SavedScoringProfile[]
+}
+
+export async function getScoringProfile(supabase: SupabaseClient, id: string): Promise<SavedScoringProfile | null> {
+  const { data, error } = await supabase.from(SCORING_PROFILES_TABLE).select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  return (data as SavedScoringProfile | null) ?? null
+}
+
+/** Creates a profile, or replaces the one with the same name. */
+export async function saveScoringProfile(
+  supabase: SupabaseClient,
+  name: string,
+  profile: ScoringProfile
+): Promise<SavedScoringProfile> {
+  const { data, error } = await supabase
+    .from(SCORING_PROFILES_TABLE)
+    .upsert({ name, profile, updated_at: new Date().toISOString() }, { onConflict: 'name' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as SavedScoringProfile
+}
+
+export async function deleteScoringProfile(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from(SCORING_PROFILES_TABLE).delete().eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Scoring profile for a request: the saved profile `profileId` (or the default one when no id is
+ * given), with any parameters in `overrides` (e.g. edited in the UI) applied on top.
+ * Supabase is only used when an id is given. Throws with a user-facing message when the profile does not exist.
+ */
+export async function resolveScoringProfile(
+  profileId: unknown,
+  overrides: unknown,
+  getClient: () => SupabaseClient
+): Promise<ResolvedScoringProfile> {
+  let resolved = DEFAULT_RESOLVED_SCORING_PROFILE
+  if (typeof profileId === 'string' && profileId) {
+    const saved = await getScoringProfile(getClient(), profileId)
+    if (!saved) throw new Error(`Scoring profile ${profileId} not found.`)
+    resolved = { id: saved.id, name: saved.name, profile: sanitizeScoringProfile(saved.profile) ?? DEFAULT_SCORING_PROFILE, overridden: false }
+  }
+  const profile = sanitizeScoringProfile(overrides, resolved.profile)
+  return profile ? { ...resolved, profile, overridden: !sameScoringProfile(profile, resolved.profile) } : resolved
+}
@@ -0,0 +1,92 @@
+/**
+ * Scoring profiles: the weights and cutoffs computeLeadScore and rankLeadsAgainstPersona use.
+ * Saved as named profiles (see lib/scoring-profiles.ts) so campaigns can be tuned without code changes.
+ * Kept free of server dependencies so the UI can edit and validate profiles.
+ */
+
+/** Weights of the Avoid / Prefer adjustments in computeLeadScore. */
+export interface ScoringWeights {
+  /** Weight applied to the *excess* avoid similarity (above avoidSimilarityThreshold). */
+  avoidPenaltyWeight: number
+  /** Weight for the Prefer bonus. */
+  preferBonusWeight: number
+  /** Only penalize when similarity to Avoid is above this. */
+  avoidSimilarityThreshold: number
+}
+
+export interface ScoringProfile extends ScoringWeights {
+  /** Leads scoring below this are dropped from ranking results. */
+  minScore: number
+}
+
+export type ScoringParam = keyof ScoringProfile
+
+/** The parts computeLeadScore adds up for one lead. */
+export interface ScoreComponents {
+  /** Raw cosine similarities; null when the profile has no Avoid / Prefer section. */
+  targetSimilarity: number
+  avoidSimilarity: number | null
+  preferSimilarity: number | null
+  /** Target similarity mapped to [0, 1]: (targetSimilarity + 1) / 2. */
+  baseScore: number
+  /** Subtracted: avoidPenaltyWeight × similarity above avoidSimilarityThreshold. */
+  avoidPenalty: number
+  /** Added: preferBonusWeight × preferSimilarity. */
+  preferBonus: number
+  /** baseScore − avoidPenalty + preferBonus, clamped to [0, 1]. */
+  score: number
+  /** Largest adjustment to the base score; 'target' when Avoid and Prefer did not change it. */
+  dominant: 'target' | 'avoid' | 'prefer'
+}
+
+/** Per-lead score explanation returned with ranked leads. */
+export interface ScoreBreakdown extends ScoreComponents {
+  /** Best-matching clause of the dominant section (per-clause matching only). */
+  dominantClause?: string
+  minScore: number
+  /** True when the score is below minScore (the lead is only returned with includeBelowMinScore). */
+  belowMinScore: boolean
+}
+
+/**
+ * Target stays the main signal: Avoid and Prefer are moderate, and Avoid only kicks in above a
+ * threshold so long optimizer-generated Avoid text does not over-penalize good Target matches.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  avoidPenaltyWeight: 0.45,
+  preferBonusWeight: 0.2,
+  avoidSimilarityThreshold: 0.25,
+  minScore: 0.3,
+}
+
+/** Allowed range and UI label of each parameter. */
+export const SCORING_PARAMS: Record<ScoringParam, { label: string; min: number; max: number; step: number }> = {
+  avoidPenaltyWeight: { label: 'Avoid penalty weight', min: 0, max: 2, step: 0.05 },
+  preferBonusWeight: { label: 'Prefer bonus weight', min: 0, max: 1, step: 0.05 },
+  avoidSimilarityThreshold: { label: 'Avoid similarity threshold', min: -1, max: 1, step: 0.05 },
+  minScore: { label: 'Minimum score', min: 0, max: 1, step: 0.05 },
+}
+
+export const SCORING_PARAM_IDS = Object.keys(SCORING_PARAMS) as ScoringParam[]
+
+/**
+ * Validates a (possibly partial) profile received from a client or the database. Missing
+ * parameters come from `base`; values are clamped to SCORING_PARAMS. Null if it is not an object.
+ */
+export function sanitizeScoringProfile(value: unknown, base: ScoringProfile = DEFAULT_SCORING_PROFILE): ScoringProfile | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const profile = { ...base }
+  for (const param of SCORING_PARAM_IDS) {
+    const v = typeof raw[param] === 'string' ? parseFloat(raw[param] as string) : raw[param]
+    if (typeof v !== 'number' || !Number.isFinite(v)) continue
+    const { min, max } = SCORING_PARAMS[param]
+    profile[param] = Math.min(max, Math.max(min, v))
+  }
+  return profile
+}
+
+/** True when two profiles have the same parameters. */
+export function sameScoringProfile(a: ScoringProfile, b: ScoringProfile): boolean {
+  return SCORING_PARAM_IDS.every((param) => a[param] === b[param])
+}
@@ -21,4 +21,14 @@ export function getSupabase() {
 }
 
 export const LEADS_TABLE = 'leads'
-export const EVAL_EMBEDDINGS_TABLE = 'eval_lead_embeddings'
\ No newline at end of file
+export const EVAL_EMBEDDINGS_TABLE = 'eval_lead_embeddings'
+export const REEMBED_JOBS_TABLE = 'lead_reembed_jobs'
+export const IMPORTS_TABLE = 'lead_imports'
+export const COLUMN_MAPPINGS_TABLE = 'column_mappings'
+export const LEAD_TEXT_TEMPLATES_TABLE = 'lead_text_templates'
+export const SCORING_PROFILES_TABLE = 'scoring_profiles'
+export const LEAD_EXPLANATIONS_TABLE = 'lead_explanations'
+export const PERSONAS_TABLE = 'personas'
+export const PERSONA_VERSIONS_TABLE = 'persona_versions'
+export const RANK_RUNS_TABLE = 'rank_runs'
+export const LEAD_EMBEDDING_CACHE_TABLE = 'lead_embedding_cache'
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Line diff of two texts (e.g. two persona versions), from their longest common subsequence of lines.
+ * Safe to import from client components (no server-only dependencies).
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/** Lines compared after trimming trailing whitespace; blank lines at the ends are ignored. */
+function toLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').trim().split('\n').map((line) => line.trimEnd())
+}
+
+/** Lines of `before` and `after` in order, each marked same, removed (only in before) or added (only in after). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = toLines(before)
+  const b = toLines(after)
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+  return lines
+}
+
+/** Number of added and removed lines. */
+export function countDiffChanges(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((line) => line.type === 'added').length,
+    removed: lines.filter((line) => line.type === 'removed').length,
+  }
+}
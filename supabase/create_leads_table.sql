@@ -16,3 +16,15 @@ CREATE POLICY "Service role full access"
 
 -- Columna para guardar los embeddings
 ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding jsonb;
+
+-- Proveedor/modelo que generó cada embedding
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_provider text;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_model text;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_dim integer;
+
+-- Identidad del lead para deduplicar (upsert en /api/leads/ingest)
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS lead_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS leads_lead_key_key ON public.leads (lead_key);
+
+-- Versión de la plantilla de texto usada para el embedding (NULL = plantilla por defecto)
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS embedding_template text;
@@ -0,0 +1,23 @@
+-- Record which provider/model produced each stored embedding so switching AI_PROVIDER or
+-- HF_EMBED_MODEL never mixes vector spaces. Rows without a tag (ingested before this
+-- migration) are treated as stale until re-embedded via POST /api/leads/reembed.
+
+alter table public.leads
+  add column if not exists embedding_provider text,
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dim integer;
+
+create index if not exists leads_embedding_model_idx on public.leads (embedding_provider, embedding_model);
+
+comment on column public.leads.embedding_provider is 'AI_PROVIDER that produced embedding (e.g. huggingface, gemini, openai, local).';
+comment on column public.leads.embedding_model is 'Model id that produced embedding.';
+comment on column public.leads.embedding_dim is 'Length of the embedding vector.';
+
+alter table public.eval_lead_embeddings
+  add column if not exists embedding_provider text,
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dim integer;
+
+comment on column public.eval_lead_embeddings.embedding_provider is 'AI_PROVIDER that produced embedding.';
+comment on column public.eval_lead_embeddings.embedding_model is 'Model id that produced embedding.';
+comment on column public.eval_lead_embeddings.embedding_dim is 'Length of the embedding vector.';
@@ -0,0 +1,33 @@
+-- Progress of POST /api/leads/reembed jobs. The route walks public.leads in id order and
+-- stores a cursor after every batch, so a job interrupted by a serverless timeout resumes
+-- where it stopped instead of starting over.
+
+create table if not exists public.lead_reembed_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'running',
+  embedding_provider text not null,
+  embedding_model text not null,
+  only_stale boolean not null default true,
+  cursor_id uuid,
+  processed integer not null default 0,
+  total integer not null default 0,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lead_reembed_jobs_status_idx on public.lead_reembed_jobs (status, created_at desc);
+
+comment on table public.lead_reembed_jobs is 'Resumable re-embedding jobs for public.leads (one row per job).';
+comment on column public.lead_reembed_jobs.status is 'running | completed | failed';
+comment on column public.lead_reembed_jobs.only_stale is 'When true, only rows whose embedding is missing or from another model are recomputed.';
+comment on column public.lead_reembed_jobs.cursor_id is 'Last lead id processed (leads are walked in id order).';
+
+alter table public.lead_reembed_jobs enable row level security;
+
+create policy "Service role full access on lead_reembed_jobs"
+  on public.lead_reembed_jobs
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,89 @@
+-- Optional: pgvector-backed similarity search for /api/rank/db.
+-- Without this migration (or without the vector extension) the route loads every lead and
+-- scores in Node, as before. With it, Postgres scores all leads and returns only the top K.
+-- Supabase: enable "vector" under Database → Extensions, or let the statement below do it.
+
+create extension if not exists vector;
+
+-- Untyped vector so any embedding model fits; kept in sync with the jsonb embedding by a trigger,
+-- so ingest and re-embed keep writing `embedding` only.
+alter table public.leads
+  add column if not exists embedding_vec vector;
+
+comment on column public.leads.embedding_vec is 'pgvector copy of embedding (maintained by trigger leads_sync_embedding_vec).';
+
+create or replace function public.leads_sync_embedding_vec()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.embedding is null or jsonb_typeof(new.embedding) <> 'array' or jsonb_array_length(new.embedding) = 0 then
+    new.embedding_vec := null;
+  else
+    new.embedding_vec := (new.embedding::text)::vector;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists leads_sync_embedding_vec on public.leads;
+create trigger leads_sync_embedding_vec
+  before insert or update of embedding on public.leads
+  for each row execute function public.leads_sync_embedding_vec();
+
+-- Backfill rows ingested before this migration.
+update public.leads
+  set embedding_vec = (embedding::text)::vector
+  where embedding_vec is null
+    and embedding is not null
+    and jsonb_typeof(embedding) = 'array'
+    and jsonb_array_length(embedding) > 0;
+
+-- Top-K leads by the same score as computeLeadScore in lib/embeddings.ts:
+-- (sim_target + 1) / 2 - avoid_weight * max(0, sim_avoid - avoid_threshold) + prefer_weight * sim_prefer, clamped to [0, 1].
+-- Only rows embedded by filter_provider / filter_model (when given) with the query's dimension are considered.
+create or replace function public.match_leads(
+  query_target vector,
+  query_avoid vector default null,
+  query_prefer vector default null,
+  avoid_weight double precision default 0.45,
+  prefer_weight double precision default 0.2,
+  avoid_threshold double precision default 0.25,
+  match_count integer default 1000,
+  filter_provider text default null,
+  filter_model text default null
+)
+returns table (
+  id uuid,
+  data jsonb,
+  embedding jsonb,
+  sim_target double precision,
+  sim_avoid double precision,
+  sim_prefer double precision,
+  score double precision
+)
+language sql
+stable
+as $$
+  select s.id, s.data, s.embedding, s.sim_target, s.sim_avoid, s.sim_prefer,
+    greatest(0, least(1,
+      (s.sim_target + 1) / 2
+      - case when query_avoid is null then 0 else avoid_weight * greatest(0, s.sim_avoid - avoid_threshold) end
+      + case when query_prefer is null then 0 else prefer_weight * s.sim_prefer end
+    )) as score
+  from (
+    select l.id, l.data, l.embedding,
+      1 - (l.embedding_vec <=> query_target) as sim_target,
+      case when query_avoid is null then 0 else 1 - (l.embedding_vec <=> query_avoid) end as sim_avoid,
+      case when query_prefer is null then 0 else 1 - (l.embedding_vec <=> query_prefer) end as sim_prefer
+    from public.leads l
+    where l.embedding_vec is not null
+      and vector_dims(l.embedding_vec) = vector_dims(query_target)
+      and (filter_provider is null or l.embedding_provider = filter_provider)
+      and (filter_model is null or l.embedding_model = filter_model)
+  ) s
+  order by score desc
+  limit match_count;
+$$;
+
+comment on function public.match_leads is 'Top-K leads by persona score (target similarity with avoid/prefer adjustments). Used by /api/rank/db.';
@@ -0,0 +1,35 @@
+-- Chunked CSV imports: every row records the import (and chunk) it came from, so
+--  * a retried chunk replaces its own rows instead of duplicating them,
+--  * "replace existing leads" deletes the old leads only after every chunk of the new import succeeded.
+
+alter table public.leads
+  add column if not exists import_id uuid,
+  add column if not exists import_chunk integer;
+
+create index if not exists leads_import_idx on public.leads (import_id, import_chunk);
+
+comment on column public.leads.import_id is 'Import (CSV upload) that wrote this row.';
+comment on column public.leads.import_chunk is 'Chunk index within the import (0-based).';
+
+-- One row per chunked import: which chunks are stored (chunk index -> row count), for resume and finalize.
+create table if not exists public.lead_imports (
+  id uuid primary key,
+  chunk_count integer not null,
+  chunks jsonb not null default '{}'::jsonb,
+  status text not null default 'uploading',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.lead_imports is 'Chunked CSV imports into public.leads (POST /api/leads/ingest + /api/leads/ingest/finalize).';
+comment on column public.lead_imports.chunks is 'Stored chunks: {"<chunk index>": <row count>}.';
+comment on column public.lead_imports.status is 'uploading | completed';
+
+alter table public.lead_imports enable row level security;
+
+create policy "Service role full access on lead_imports"
+  on public.lead_imports
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,12 @@
+-- Lead identity for deduplication: POST /api/leads/ingest upserts on lead_key, so re-uploading
+-- the same list updates leads instead of duplicating them. The key is computed by the app
+-- (lib/lead-identity.ts): LinkedIn URL, email, or normalized name + company + domain.
+-- Rows without identifying fields (and rows ingested before this migration) keep lead_key null;
+-- re-upload with ?clear=1 to replace older rows with keyed ones.
+
+alter table public.leads
+  add column if not exists lead_key text;
+
+create unique index if not exists leads_lead_key_key on public.leads (lead_key);
+
+comment on column public.leads.lead_key is 'Stable lead identity (li:<linkedin url> | email:<email> | name:<name>|<company>|<domain>); unique.';
@@ -0,0 +1,23 @@
+-- Saved column mappings for CSV uploads (GET/POST/DELETE /api/column-mappings). A mapping assigns
+-- CSV columns to canonical lead fields (see lib/lead-schema.ts); ingest and /api/rank accept
+-- mappingId to apply one instead of auto-detection.
+
+create table if not exists public.column_mappings (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  mapping jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.column_mappings is 'Named CSV column -> lead field mappings.';
+comment on column public.column_mappings.mapping is 'Lead field -> CSV column, e.g. {"title": "Job Title", "company": "Company Name"}.';
+
+alter table public.column_mappings enable row level security;
+
+create policy "Service role full access on column_mappings"
+  on public.column_mappings
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,39 @@
+-- Lead text templates: named layouts for the text that gets embedded (fields, order, labels,
+-- extra columns, weighting). Every stored embedding records the template version it was rendered
+-- with, so ranking only compares leads embedded with the same template. Null = the default template
+-- (rows embedded before templates existed).
+
+create table if not exists public.lead_text_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  template jsonb not null,
+  version text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.lead_text_templates is 'Named lead text templates (GET/POST/DELETE /api/lead-text-templates).';
+comment on column public.lead_text_templates.version is 'Content hash of template; stored in leads.embedding_template.';
+
+alter table public.lead_text_templates enable row level security;
+
+create policy "Service role full access on lead_text_templates"
+  on public.lead_text_templates
+  for all
+  to service_role
+  using (true)
+  with check (true);
+
+alter table public.leads
+  add column if not exists embedding_template text;
+
+comment on column public.leads.embedding_template is 'Lead text template version the embedded text was rendered with (null = default).';
+
+alter table if exists public.eval_lead_embeddings
+  add column if not exists embedding_template text;
+
+alter table public.lead_reembed_jobs
+  add column if not exists embedding_template text,
+  add column if not exists lead_text_template jsonb;
+
+comment on column public.lead_reembed_jobs.lead_text_template is 'Template used to render lead text (null = default).';
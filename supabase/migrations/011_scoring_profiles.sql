@@ -0,0 +1,23 @@
+-- Saved scoring profiles (GET/POST/DELETE /api/scoring-profiles). A profile holds the Avoid/Prefer
+-- weights, the Avoid similarity threshold and the minimum score used when ranking (see
+-- lib/scoring.ts); /api/rank, /api/rank/db and /api/prompt-optimize accept scoringProfileId.
+
+create table if not exists public.scoring_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  profile jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.scoring_profiles is 'Named lead scoring weights and cutoffs.';
+comment on column public.scoring_profiles.profile is 'e.g. {"avoidPenaltyWeight": 0.45, "preferBonusWeight": 0.2, "avoidSimilarityThreshold": 0.25, "minScore": 0.3}.';
+
+alter table public.scoring_profiles enable row level security;
+
+create policy "Service role full access on scoring_profiles"
+  on public.scoring_profiles
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,24 @@
+-- Cached "why this lead" explanations (POST /api/explain). Keyed by a hash of the lead, a hash of
+-- the profile text and the provider that wrote it, so the same lead and profile are explained once.
+
+create table if not exists public.lead_explanations (
+  id uuid primary key default gen_random_uuid(),
+  lead_hash text not null,
+  profile_hash text not null,
+  provider text not null,
+  explanation text not null,
+  created_at timestamptz not null default now(),
+  unique (lead_hash, profile_hash, provider)
+);
+
+comment on table public.lead_explanations is 'LLM explanations of why a lead matches a profile (see lib/lead-explanations.ts).';
+comment on column public.lead_explanations.provider is 'gemini, groq, anthropic or local (template, no LLM).';
+
+alter table public.lead_explanations enable row level security;
+
+create policy "Service role full access on lead_explanations"
+  on public.lead_explanations
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,46 @@
+-- Saved personas (GET/POST/DELETE /api/personas): named profile texts with a version history.
+-- Every saved change (a manual edit or an optimizer output, with its eval score) is a new row in
+-- persona_versions; personas holds the latest text. /api/rank and /api/rank/db accept personaId.
+
+create table if not exists public.personas (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  characteristics text not null,
+  current_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.persona_versions (
+  id uuid primary key default gen_random_uuid(),
+  persona_id uuid not null references public.personas (id) on delete cascade,
+  version integer not null,
+  characteristics text not null,
+  source text not null default 'manual',
+  eval_score double precision,
+  eval_metrics jsonb,
+  note text,
+  created_at timestamptz not null default now(),
+  unique (persona_id, version)
+);
+
+comment on table public.personas is 'Named lead profiles (Target / Avoid / Prefer text); see lib/personas.ts.';
+comment on column public.persona_versions.source is 'manual (saved from the editor) or optimizer (best prompt of /api/prompt-optimize).';
+comment on column public.persona_versions.eval_score is 'Spearman correlation with the eval set gold ranking, when evaluated.';
+
+alter table public.personas enable row level security;
+alter table public.persona_versions enable row level security;
+
+create policy "Service role full access on personas"
+  on public.personas
+  for all
+  to service_role
+  using (true)
+  with check (true);
+
+create policy "Service role full access on persona_versions"
+  on public.persona_versions
+  for all
+  to service_role
+  using (true)
+  with check (true);
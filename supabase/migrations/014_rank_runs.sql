@@ -0,0 +1,41 @@
+-- Ranking runs (GET/DELETE /api/rank/runs): every /api/rank/db ranking is stored with what produced
+-- it (profile text and persona version, resolved scoring weights, lead text template, embedding
+-- model, the ids of the leads ranked) and its results, so a run can be reopened, exported and re-run.
+
+create table if not exists public.rank_runs (
+  id uuid primary key default gen_random_uuid(),
+  persona_id uuid references public.personas (id) on delete set null,
+  persona_name text,
+  persona_version integer,
+  characteristics text not null,
+  mode text not null default 'leads',
+  request jsonb not null,
+  scoring_profile jsonb not null,
+  lead_text_template jsonb not null,
+  embedding_provider text not null,
+  embedding_model text not null,
+  search_mode text not null,
+  lead_ids jsonb not null default '[]'::jsonb,
+  total_processed integer not null default 0,
+  total_ranked integer not null default 0,
+  results jsonb not null default '[]'::jsonb,
+  results_truncated boolean not null default false,
+  rerun_of uuid references public.rank_runs (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rank_runs_created_at_idx on public.rank_runs (created_at desc);
+
+comment on table public.rank_runs is 'Stored ranking runs and their results (see lib/rank-runs.ts).';
+comment on column public.rank_runs.request is 'Request to re-run with current leads: characteristics, personaId/personaVersion, templateId, scoring (resolved weights), filters, multiVector, includeBelowMinScore, maxLeads, mode, accounts.';
+comment on column public.rank_runs.lead_ids is 'Ids of the leads that were scored (the lead set snapshot).';
+comment on column public.rank_runs.results is 'Ranked leads in order: [{ leadId, lead, score, rank, segment?, matchedClause?, breakdown }].';
+
+alter table public.rank_runs enable row level security;
+
+create policy "Service role full access on rank_runs"
+  on public.rank_runs
+  for all
+  to service_role
+  using (true)
+  with check (true);
@@ -0,0 +1,53 @@
+-- Optional: only with pgvector (006_pgvector.sql). Apply after 010_lead_text_templates.sql.
+-- match_leads gains filter_template, so /api/rank/db only compares leads embedded with the same
+-- lead text template. Without it the route scores leads in Node instead.
+
+drop function if exists public.match_leads(vector, vector, vector, double precision, double precision, double precision, integer, text, text);
+
+create or replace function public.match_leads(
+  query_target vector,
+  query_avoid vector default null,
+  query_prefer vector default null,
+  avoid_weight double precision default 0.45,
+  prefer_weight double precision default 0.2,
+  avoid_threshold double precision default 0.25,
+  match_count integer default 1000,
+  filter_provider text default null,
+  filter_model text default null,
+  filter_template text default null
+)
+returns table (
+  id uuid,
+  data jsonb,
+  embedding jsonb,
+  sim_target double precision,
+  sim_avoid double precision,
+  sim_prefer double precision,
+  score double precision
+)
+language sql
+stable
+as $$
+  select s.id, s.data, s.embedding, s.sim_target, s.sim_avoid, s.sim_prefer,
+    greatest(0, least(1,
+      (s.sim_target + 1) / 2
+      - case when query_avoid is null then 0 else avoid_weight * greatest(0, s.sim_avoid - avoid_threshold) end
+      + case when query_prefer is null then 0 else prefer_weight * s.sim_prefer end
+    )) as score
+  from (
+    select l.id, l.data, l.embedding,
+      1 - (l.embedding_vec <=> query_target) as sim_target,
+      case when query_avoid is null then 0 else 1 - (l.embedding_vec <=> query_avoid) end as sim_avoid,
+      case when query_prefer is null then 0 else 1 - (l.embedding_vec <=> query_prefer) end as sim_prefer
+    from public.leads l
+    where l.embedding_vec is not null
+      and vector_dims(l.embedding_vec) = vector_dims(query_target)
+      and (filter_provider is null or l.embedding_provider = filter_provider)
+      and (filter_model is null or l.embedding_model = filter_model)
+      and (filter_template is null or coalesce(l.embedding_template, 'default') = filter_template)
+  ) s
+  order by score desc
+  limit match_count;
+$$;
+
+comment on function public.match_leads is 'Top-K leads by persona score (target similarity with avoid/prefer adjustments), restricted to one embedding model and lead text template. Used by /api/rank/db.';
@@ -0,0 +1,15 @@
+-- Explanations quote the lead's score and breakdown, which change with the scoring profile, lead text
+-- template or embedding model. score_hash (a hash of the score and breakdown that were explained) is
+-- part of the cache key, so a lead scored differently is explained again. Rows cached before this
+-- migration have an empty score_hash and are no longer returned.
+
+alter table public.lead_explanations
+  add column if not exists score_hash text not null default '';
+
+comment on column public.lead_explanations.score_hash is 'Hash of the score and breakdown the explanation was written for.';
+
+alter table public.lead_explanations
+  drop constraint if exists lead_explanations_lead_hash_profile_hash_provider_key;
+
+create unique index if not exists lead_explanations_key_idx
+  on public.lead_explanations (lead_hash, profile_hash, provider, score_hash);
@@ -0,0 +1,98 @@
+-- Optional: only with pgvector (006_pgvector.sql). Apply after 015_pgvector_lead_templates.sql.
+-- Replaces match_leads with match_lead_scores: every search of a profile (global and one per
+-- company-size segment) in one call, with per-clause max / softmax similarities computed here for
+-- multi-vector profiles, returning only lead ids and scores. /api/rank/db then loads the rows of the
+-- returned ids once. Without it the route scores leads in Node instead.
+--
+-- Indexes: the score mixes Target, Avoid and Prefer similarities (and clause aggregates), so it is
+-- not one distance an ivfflat / hnsw index can order by, and an exact top K reads every lead
+-- embedded by the active model. embedding_vec is untyped (any model fits), so it cannot be indexed
+-- directly either. The scan stays in Postgres and only ids and scores leave it, which is what makes
+-- this faster than loading every embedding into Node.
+
+drop function if exists public.match_leads(vector, vector, vector, double precision, double precision, double precision, integer, text, text, text);
+
+-- Similarity of a lead to one profile section: to the whole section, or with aggregation
+-- ('max' or 'softmax', as aggregateClauseSimilarities in lib/ranking.ts) over its clauses.
+create or replace function public.lead_section_similarity(
+  lead vector,
+  whole vector,
+  clauses vector[],
+  aggregation text
+)
+returns double precision
+language sql
+immutable
+as $$
+  select case
+    when aggregation is null or coalesce(cardinality(clauses), 0) = 0 then 1 - (lead <=> whole)
+    when aggregation = 'max' then (select max(1 - (lead <=> c)) from unnest(clauses) c)
+    else (
+      select sum(w.sim * exp((w.sim - w.best) / 0.05)) / sum(exp((w.sim - w.best) / 0.05))
+      from (
+        select s.sim, max(s.sim) over () as best
+        from (select 1 - (lead <=> c) as sim from unnest(clauses) c) s
+      ) w
+    )
+  end;
+$$;
+
+-- Top match_count leads of each search in queries (a jsonb array of
+-- { target, avoid?, prefer?, targetClauses?, avoidClauses?, preferClauses? } embeddings), merged with
+-- each lead's best score. Scores as computeLeadScore in lib/embeddings.ts.
+create or replace function public.match_lead_scores(
+  queries jsonb,
+  aggregation text default null,
+  avoid_weight double precision default 0.45,
+  prefer_weight double precision default 0.2,
+  avoid_threshold double precision default 0.25,
+  match_count integer default 1000,
+  filter_provider text default null,
+  filter_model text default null,
+  filter_template text default null
+)
+returns table (id uuid, score double precision)
+language sql
+stable
+as $$
+  with q as (
+    select
+      (e->>'target')::vector as target,
+      (e->>'avoid')::vector as avoid,
+      (e->>'prefer')::vector as prefer,
+      array(select c::text::vector from jsonb_array_elements(coalesce(e->'targetClauses', '[]')) c) as target_clauses,
+      array(select c::text::vector from jsonb_array_elements(coalesce(e->'avoidClauses', '[]')) c) as avoid_clauses,
+      array(select c::text::vector from jsonb_array_elements(coalesce(e->'preferClauses', '[]')) c) as prefer_clauses
+    from jsonb_array_elements(queries) e
+  )
+  select m.id, max(m.score) as score
+  from q
+  cross join lateral (
+    select s.id,
+      greatest(0, least(1,
+        (s.sim_target + 1) / 2
+        - case when q.avoid is null then 0 else avoid_weight * greatest(0, s.sim_avoid - avoid_threshold) end
+        + case when q.prefer is null then 0 else prefer_weight * s.sim_prefer end
+      )) as score
+    from (
+      select l.id,
+        public.lead_section_similarity(l.embedding_vec, q.target, q.target_clauses, aggregation) as sim_target,
+        case when q.avoid is null then 0
+          else public.lead_section_similarity(l.embedding_vec, q.avoid, q.avoid_clauses, aggregation) end as sim_avoid,
+        case when q.prefer is null then 0
+          else public.lead_section_similarity(l.embedding_vec, q.prefer, q.prefer_clauses, aggregation) end as sim_prefer
+      from public.leads l
+      where l.embedding_vec is not null
+        and vector_dims(l.embedding_vec) = vector_dims(q.target)
+        and (filter_provider is null or l.embedding_provider = filter_provider)
+        and (filter_model is null or l.embedding_model = filter_model)
+        and (filter_template is null or coalesce(l.embedding_template, 'default') = filter_template)
+    ) s
+    order by score desc
+    limit match_count
+  ) m
+  group by m.id
+  order by score desc;
+$$;
+
+comment on function public.match_lead_scores is 'Ids and scores of the top-K leads of each profile search (global and per segment), restricted to one embedding model and lead text template. Used by /api/rank/db.';
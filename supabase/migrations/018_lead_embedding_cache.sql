@@ -0,0 +1,30 @@
+-- Lead embeddings per embedding model and lead text template. leads.embedding holds the vector of the
+-- template a lead was last embedded with; a re-embed job with another template first copies that
+-- vector here, and reuses vectors cached here instead of calling the provider. So switching back to a
+-- template needs no re-embedding, and while a job runs, rankings with the previous template still
+-- find every lead (see lib/lead-embeddings.ts). The template version is a hash of its content, so
+-- saved templates with the same content share their vectors.
+
+create table if not exists public.lead_embedding_cache (
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  embedding_provider text not null,
+  embedding_model text not null,
+  embedding_dim integer not null,
+  embedding_template text not null,
+  data_hash text not null,
+  embedding jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (lead_id, embedding_provider, embedding_model, embedding_dim, embedding_template)
+);
+
+comment on table public.lead_embedding_cache is 'Lead embeddings per model and lead text template (see lib/lead-embeddings.ts).';
+comment on column public.lead_embedding_cache.data_hash is 'Hash of the lead data the embedding was computed from; a changed lead is embedded again.';
+
+alter table public.lead_embedding_cache enable row level security;
+
+create policy "Service role full access on lead_embedding_cache"
+  on public.lead_embedding_cache
+  for all
+  to service_role
+  using (true)
+  with check (true);
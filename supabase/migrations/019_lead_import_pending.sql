@@ -0,0 +1,10 @@
+-- Rows written by a chunked import stay out of rankings until POST /api/leads/ingest/finalize: each
+-- chunk stores its rows with import_pending = true, and finalize clears the flag for the whole
+-- import, so a half-finished upload is never ranked.
+
+alter table public.leads
+  add column if not exists import_pending boolean not null default false;
+
+create index if not exists leads_import_pending_idx on public.leads (import_id) where import_pending;
+
+comment on column public.leads.import_pending is 'True while the chunked import that wrote this row is not finalized (excluded from rankings).';